@@ -1,9 +1,46 @@
 import { NextResponse } from 'next/server';
+import {
+  buildConformanceReport,
+  checkEndpointReachability,
+  validateAgentConfig,
+} from '@/utils/agent-config-validation';
+import type { DiscoveryAttempt } from '@/types/agent';
+import { FORWARDED_AGENT_HEADERS, decodeForwardedHeaders } from '@/utils/agent-headers';
+
+const DISCOVERY_TIMEOUT_MS = 5000;
+const BODY_PREVIEW_LENGTH = 500;
+
+// Explain why a response is not an agent config, or undefined if it is one
+const getRejectionReason = (response: Response, body: string): string | undefined => {
+  if (!response.ok) {
+    return `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`;
+  }
+
+  const contentType = response.headers.get('content-type');
+  if (!contentType || !contentType.includes('application/json')) {
+    return `Expected application/json, got ${contentType || 'no content type'}`;
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(body);
+  } catch (err) {
+    return `Invalid JSON: ${err instanceof Error ? err.message : 'Unknown error'}`;
+  }
+
+  // Basic validation - check if it looks like an agent config
+  if (!data || typeof data !== 'object' || (!data.name && !data.agent_id)) {
+    return 'JSON has no name or agent_id, so it does not look like an agent config';
+  }
+  return undefined;
+};
 
 export async function POST(request: Request) {
   try {
     const body = await request.json();
     const { url } = body;
+    // Credentials and custom headers of the connection being discovered
+    const agentHeaders = decodeForwardedHeaders(request.headers.get(FORWARDED_AGENT_HEADERS));
 
     if (!url) {
       return NextResponse.json(
@@ -31,49 +68,69 @@ export async function POST(request: Request) {
     ];
 
     let metadata: any = null;
-    let fetchError: Error | null = null;
+    const attempts: DiscoveryAttempt[] = [];
 
     for (const targetUrl of pathsToTry) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 5000);
+      const attempt: DiscoveryAttempt = { url: targetUrl, ok: false, durationMs: 0 };
+      attempts.push(attempt);
+      const startedAt = Date.now();
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), DISCOVERY_TIMEOUT_MS);
 
+      try {
         console.log(`[Agent Discovery] Trying ${targetUrl}...`);
 
         const response = await fetch(targetUrl, {
           headers: {
+            ...agentHeaders,
             'Accept': 'application/json',
           },
           signal: controller.signal,
         });
+        const body = await response.text();
 
-        clearTimeout(timeoutId);
+        attempt.status = response.status;
+        attempt.statusText = response.statusText;
+        attempt.contentType = response.headers.get('content-type') || undefined;
+        attempt.bodyPreview = body.slice(0, BODY_PREVIEW_LENGTH);
+        attempt.reason = getRejectionReason(response, body);
 
-        if (response.ok) {
-          const contentType = response.headers.get('content-type');
-          if (contentType && contentType.includes('application/json')) {
-            metadata = await response.json();
-            
-            // Basic validation - check if it looks like an agent config
-            if (metadata.name || metadata.agent_id) {
-              console.log(`[Agent Discovery] Successful discovery at ${targetUrl}`);
-              break;
-            }
-          }
+        if (!attempt.reason) {
+          metadata = JSON.parse(body);
+          attempt.ok = true;
+          console.log(`[Agent Discovery] Successful discovery at ${targetUrl}`);
+          break;
         }
+        console.warn(`[Agent Discovery] Rejected ${targetUrl}: ${attempt.reason}`);
       } catch (err: any) {
+        attempt.reason =
+          err?.name === 'AbortError'
+            ? `Timed out after ${DISCOVERY_TIMEOUT_MS}ms`
+            : `Request failed: ${err?.cause?.message || err?.message || err}`;
         console.warn(`[Agent Discovery] Failed for ${targetUrl}:`, err.message || err);
-        fetchError = err;
+      } finally {
+        clearTimeout(timeoutId);
+        attempt.durationMs = Date.now() - startedAt;
       }
     }
 
     if (!metadata) {
+      const lastAttempt = attempts[attempts.length - 1];
       return NextResponse.json(
-        { error: `Could not discover agent metadata. Last error: ${fetchError?.message || 'Unknown error'}` },
+        {
+          error: `Could not discover agent metadata at any of ${attempts.length} paths. Last error: ${lastAttempt?.reason || 'Unknown error'}`,
+          attempts,
+        },
         { status: 502 }
       );
     }
 
+    // Validate the raw document before normalization fills in missing fields
+    const report = buildConformanceReport([
+      ...validateAgentConfig(metadata),
+      ...(await checkEndpointReachability(baseUrl, metadata.endpoints, agentHeaders)),
+    ]);
+
     // Normalize metadata to ensure AgentConfig structure
     const normalizedMetadata = {
       ...metadata,
@@ -84,7 +141,9 @@ export async function POST(request: Request) {
 
     return NextResponse.json({
       success: true,
-      data: normalizedMetadata
+      data: normalizedMetadata,
+      report,
+      attempts
     });
 
   } catch (error: any) {
@@ -1,4 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AGENT_HEADERS_COOKIE, parseAgentHeadersCookie } from '@/utils/agent-headers';
+
+// Credentials and custom headers of the active connection, set by the debugger UI.
+// Only sent to the connected service's origin, whatever URL the request names.
+const getAgentHeaders = (request: NextRequest, targetUrl: string): Record<string, string> => {
+  const cookie = parseAgentHeadersCookie(request.cookies.get(AGENT_HEADERS_COOKIE)?.value);
+  if (!cookie) return {};
+  try {
+    return new URL(targetUrl).origin === cookie.origin ? cookie.headers : {};
+  } catch {
+    return {};
+  }
+};
 
 // Proxy icon requests to the agent service
 // This allows relative URLs like /icons/astro.png to be fetched from the agent
@@ -20,6 +33,7 @@ export async function GET(
     
     const response = await fetch(targetUrl, {
       headers: {
+        ...getAgentHeaders(request, targetUrl),
         'Accept': 'image/*',
       },
     });
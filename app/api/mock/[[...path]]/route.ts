@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getMockAgentConfig,
+  getMockScript,
+  setMockScript,
+  resetMockAgent,
+  resolveMockResponse,
+  applyToolRoutingFromBody,
+  getPromptFromBody,
+  createMockStreamResponse,
+  listMockChats,
+  getMockChat,
+  updateMockChat,
+  deleteMockChat,
+  setMockMessageFeedback,
+  MOCK_AGENT_VERSION,
+} from '@/utils/mock-agent';
+
+// Built-in mock agent. Use `{origin}/api/mock` as the service URL.
+// `_mock/script` (GET/PUT) and `_mock/reset` (POST) control its behaviour.
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { path?: string[] } };
+
+const CHAT_MESSAGES_PATH = /^api\/chat\/([^/]+)\/messages$/;
+const CHAT_PATH = /^api\/chats\/([^/]+)$/;
+const FEEDBACK_PATH = /^api\/chat\/messages\/([^/]+)\/feedback$/;
+
+const getPath = ({ params }: RouteContext) => (params.path || []).join('/');
+
+const getBaseUrl = (request: NextRequest) => `${request.nextUrl.origin}/api/mock`;
+
+const notFound = (path: string) =>
+  NextResponse.json({ success: false, error: `Mock agent has no route for /${path}` }, { status: 404 });
+
+// Control routes are exempt so the script can always be edited
+const checkAuth = (request: NextRequest, path: string) => {
+  if (!getMockScript().requireAuth || path.startsWith('_mock/')) return null;
+  if (request.headers.get('authorization')) return null;
+  return NextResponse.json({ success: false, error: 'Missing Authorization header' }, { status: 401 });
+};
+
+const readJson = async (request: NextRequest) => {
+  try {
+    return await request.json();
+  } catch {
+    return {};
+  }
+};
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const path = getPath(context);
+  const unauthorized = checkAuth(request, path);
+  if (unauthorized) return unauthorized;
+
+  if (path === '' || path === '.well-known/agent-config' || path === 'api/agent-config') {
+    return NextResponse.json(getMockAgentConfig(getBaseUrl(request)));
+  }
+  if (path === 'health') {
+    return NextResponse.json({ status: 'healthy', version: MOCK_AGENT_VERSION, timestamp: new Date().toISOString() });
+  }
+  if (path === '_mock/script') {
+    return NextResponse.json({ success: true, script: getMockScript() });
+  }
+  if (path === 'api/chats/list') {
+    const params = request.nextUrl.searchParams;
+    const chats = listMockChats({
+      search: params.get('q') || undefined,
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined,
+      userId: params.get('user_id') || undefined,
+    });
+    // Page with an offset cursor when a limit is given
+    const limit = Number(params.get('limit'));
+    if (!limit) {
+      return NextResponse.json({ success: true, chats });
+    }
+    const offset = Number(params.get('cursor')) || 0;
+    return NextResponse.json({
+      success: true,
+      chats: chats.slice(offset, offset + limit),
+      nextCursor: offset + limit < chats.length ? String(offset + limit) : null,
+      total: chats.length,
+    });
+  }
+
+  const messagesMatch = path.match(CHAT_MESSAGES_PATH);
+  if (messagesMatch) {
+    const chat = getMockChat(messagesMatch[1]);
+    if (!chat) {
+      return NextResponse.json({ success: false, error: 'Chat not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, messages: chat.messages });
+  }
+
+  return notFound(path);
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const path = getPath(context);
+  const unauthorized = checkAuth(request, path);
+  if (unauthorized) return unauthorized;
+
+  if (path === 'api/chat/stream') {
+    const body = await readJson(request);
+    const prompt = getPromptFromBody(body);
+    const response = applyToolRoutingFromBody(resolveMockResponse(prompt), body);
+    console.log(`[Mock Agent] Stream for "${prompt.slice(0, 60)}"`);
+
+    if (response.error && response.error.afterChunks === undefined) {
+      return NextResponse.json(
+        { error: response.error.message },
+        { status: response.error.status || 500 }
+      );
+    }
+
+    return createMockStreamResponse(prompt, response, {
+      chatId: body.chatId || body.chat_id || body.id,
+      persist: body.settings?.persist === true || body.persist === true,
+    });
+  }
+
+  const feedbackMatch = path.match(FEEDBACK_PATH);
+  if (feedbackMatch) {
+    const body = await readJson(request);
+    const message = setMockMessageFeedback(feedbackMatch[1], {
+      liked: body.liked ?? body.feedback === 'like',
+      disliked: body.disliked ?? body.feedback === 'dislike',
+      comment: body.comment,
+    });
+    if (!message) {
+      return NextResponse.json({ success: false, error: 'Message not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, message });
+  }
+
+  if (path === '_mock/reset') {
+    resetMockAgent();
+    return NextResponse.json({ success: true, script: getMockScript() });
+  }
+
+  return notFound(path);
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const path = getPath(context);
+
+  if (path === '_mock/script') {
+    try {
+      const body = await readJson(request);
+      return NextResponse.json({ success: true, script: setMockScript(body.script || body) });
+    } catch (error: any) {
+      return NextResponse.json({ success: false, error: error.message || 'Invalid script' }, { status: 400 });
+    }
+  }
+
+  return PATCH(request, context);
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const path = getPath(context);
+  const unauthorized = checkAuth(request, path);
+  if (unauthorized) return unauthorized;
+
+  const chatMatch = path.match(CHAT_PATH);
+  if (chatMatch) {
+    const body = await readJson(request);
+    const chat = updateMockChat(chatMatch[1], body.title || '');
+    if (!chat) {
+      return NextResponse.json({ success: false, error: 'Chat not found' }, { status: 404 });
+    }
+    const { messages, ...summary } = chat;
+    return NextResponse.json({ success: true, chat: summary });
+  }
+
+  return notFound(path);
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const path = getPath(context);
+  const unauthorized = checkAuth(request, path);
+  if (unauthorized) return unauthorized;
+
+  const chatMatch = path.match(CHAT_PATH);
+  if (chatMatch) {
+    if (!deleteMockChat(chatMatch[1])) {
+      return NextResponse.json({ success: false, error: 'Chat not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  }
+
+  const feedbackMatch = path.match(FEEDBACK_PATH);
+  if (feedbackMatch) {
+    const message = setMockMessageFeedback(feedbackMatch[1], null);
+    if (!message) {
+      return NextResponse.json({ success: false, error: 'Message not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, message });
+  }
+
+  return notFound(path);
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AGENT_PROXY_HEADER, AGENT_PROXY_TARGETS_COOKIE, parseAgentProxyTargets } from '@/utils/agent-proxy';
+
+// Forwards a browser request to the agent service, so agents without CORS
+// headers can be reached. The target is passed as `?url=`; the response body
+// is streamed back as-is, so SSE chat streams pass through unbuffered.
+// Only same-origin requests from the debugger UI are accepted, and only for
+// the origins of the agents it is connected to (see utils/agent-proxy.ts).
+
+export const dynamic = 'force-dynamic';
+
+// Not forwarded to the agent: hop-by-hop headers, and the debugger's own origin and cookies
+const SKIPPED_REQUEST_HEADERS = [
+  'host',
+  'connection',
+  'content-length',
+  'transfer-encoding',
+  'accept-encoding',
+  'cookie',
+  'origin',
+  'referer',
+  AGENT_PROXY_HEADER.toLowerCase(),
+];
+
+// Not returned to the browser: the body is already decoded, and agent cookies don't belong to the debugger
+const SKIPPED_RESPONSE_HEADERS = ['connection', 'content-encoding', 'content-length', 'transfer-encoding', 'set-cookie'];
+
+// Explain why a request may not use the proxy, or undefined if it may
+const getRejectionReason = (request: NextRequest, target: string): string | undefined => {
+  // A custom header cannot be added cross-site without a CORS preflight, which this route does not answer
+  if (!request.headers.get(AGENT_PROXY_HEADER)) {
+    return `Missing ${AGENT_PROXY_HEADER} header`;
+  }
+  const origin = request.headers.get('origin');
+  const fetchSite = request.headers.get('sec-fetch-site');
+  if ((origin && origin !== request.nextUrl.origin) || (fetchSite && fetchSite !== 'same-origin')) {
+    return 'Cross-origin requests are not proxied';
+  }
+
+  let targetOrigin: string;
+  try {
+    targetOrigin = new URL(target).origin;
+  } catch {
+    return 'Invalid url parameter';
+  }
+  const allowedOrigins = parseAgentProxyTargets(request.cookies.get(AGENT_PROXY_TARGETS_COOKIE)?.value);
+  if (!allowedOrigins.includes(targetOrigin)) {
+    return `${targetOrigin} is not a connected agent`;
+  }
+  return undefined;
+};
+
+const handle = async (request: NextRequest) => {
+  const target = request.nextUrl.searchParams.get('url');
+  if (!target || !/^https?:\/\//i.test(target)) {
+    return NextResponse.json({ success: false, error: 'An absolute http(s) url parameter is required' }, { status: 400 });
+  }
+
+  const rejectionReason = getRejectionReason(request, target);
+  if (rejectionReason) {
+    console.warn(`[Agent Proxy] Rejected ${request.method} ${target}: ${rejectionReason}`);
+    return NextResponse.json({ success: false, error: rejectionReason }, { status: 403 });
+  }
+
+  const headers = new Headers();
+  request.headers.forEach((value, name) => {
+    if (!SKIPPED_REQUEST_HEADERS.includes(name.toLowerCase())) headers.set(name, value);
+  });
+
+  const startedAt = Date.now();
+  try {
+    const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+    const response = await fetch(target, {
+      method: request.method,
+      headers,
+      body: hasBody ? await request.arrayBuffer() : undefined,
+      // Stop the upstream request when the browser disconnects (e.g. a stopped stream)
+      signal: request.signal,
+      cache: 'no-store',
+    });
+
+    console.log(`[Agent Proxy] ${request.method} ${target} -> ${response.status} (${Date.now() - startedAt}ms)`);
+
+    const responseHeaders = new Headers();
+    response.headers.forEach((value, name) => {
+      if (!SKIPPED_RESPONSE_HEADERS.includes(name.toLowerCase())) responseHeaders.set(name, value);
+    });
+    if (response.headers.get('content-type')?.includes('text/event-stream')) {
+      responseHeaders.set('Cache-Control', 'no-cache, no-transform');
+      responseHeaders.set('X-Accel-Buffering', 'no');
+    }
+
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: responseHeaders,
+    });
+  } catch (error: any) {
+    console.error(`[Agent Proxy] ${request.method} ${target} failed:`, error?.message || error);
+    return NextResponse.json(
+      { success: false, error: `Proxy request failed: ${error?.cause?.message || error?.message || 'Unknown error'}` },
+      { status: 502 }
+    );
+  }
+};
+
+export const GET = handle;
+export const POST = handle;
+export const PUT = handle;
+export const PATCH = handle;
+export const DELETE = handle;
@@ -1,12 +1,56 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import { ChatContainer, useChatStream, downloadChatExport, type ChatMessage } from '@newhomestar/chat-ui';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { ChatContainer, useChatStream, type ChatMessage } from '@newhomestar/chat-ui';
 import { Sun, Moon, Menu, Plus } from 'lucide-react';
 import { ConfigPanel } from '@/components/config-panel';
 import { ChatSidebar } from '@/components/chat-sidebar';
-import type { AgentConfig, AgentStatus } from '@/types/agent';
-import { getChatMessagesUrl } from '@/utils/chat-api';
+import type {
+  AgentConfig,
+  AgentStatus,
+  AuthScheme,
+  ConformanceReport,
+  ConnectionProfile,
+  DiscoveryAttempt,
+  MessageFeedback,
+  MessageFeedbackType,
+} from '@/types/agent';
+import type { CompareTarget, ComparableMessage } from '@/types/compare';
+import type { InspectMessageRequest } from '@/types/message-inspect';
+import type { ImportedTranscript, TranscriptExportOptions, TranscriptFormat } from '@/types/transcript';
+import { getChatMessagesUrl, getAgentEndpointUrl, isServiceOrigin } from '@/utils/chat-api';
+import { useHealthMonitor } from '@/hooks/use-health-monitor';
+import { useStreamTurns } from '@/hooks/use-stream-turns';
+import { InspectorPane } from '@/components/inspector-pane';
+import { ToolComposer } from '@/components/tool-composer';
+import { PromptLibrary } from '@/components/prompt-library';
+import { CompareView } from '@/components/compare-view';
+import { addFetchMiddleware, FETCH_MIDDLEWARE_ORDER } from '@/utils/fetch-interceptor';
+import { streamCaptureMiddleware, pinTurnsToMessages } from '@/utils/stream-capture';
+import { networkLogMiddleware } from '@/utils/network-log';
+import { computeSessionMetrics, computeMessageMetrics, formatTurnMetricsLine } from '@/utils/stream-metrics';
+import {
+  DEFAULT_AUTH_SCHEME,
+  FORWARDED_AGENT_HEADERS,
+  agentHeadersMiddleware,
+  buildAgentHeadersCookie,
+  buildConnectionHeaders,
+  encodeForwardedHeaders,
+  getAgentRequestHeaders,
+  normalizeAuthScheme,
+  setAgentRequestHeaders,
+  type AgentRequestConfig,
+} from '@/utils/agent-headers';
+import { loadProfiles, saveProfiles } from '@/utils/connection-profiles';
+import { agentProxyMiddleware, setAgentProxyEnabled } from '@/utils/agent-proxy';
+import { faultInjectionMiddleware } from '@/utils/fault-injection';
+import { TRANSCRIPT_FORMATS, buildTranscript, formatTranscript } from '@/utils/transcript';
+import { downloadFile, getFileTimestamp } from '@/utils/download';
+import { TranscriptViewer } from '@/components/transcript-viewer';
+import { FeedbackDialog } from '@/components/feedback-dialog';
+import { transformPersistedMessage, getInspectMessageLink, getInspectMessageId } from '@/utils/message-transform';
+import { NO_FEEDBACK, createMessageFeedback, getMessageFeedback, saveMessageFeedback } from '@/utils/message-feedback';
+import { getPromptsSubtitle } from '@/utils/prompt-library';
 
 // Storage keys
 const STORAGE = {
@@ -15,10 +59,18 @@ const STORAGE = {
   PANEL_OPEN: 'nova-debugger-panel-open',
   PANEL_WIDTH: 'nova-debugger-panel-width',
   PERSIST: 'nova-debugger-persist',
+  INSPECTOR_OPEN: 'nova-debugger-inspector-open',
+  AUTH_SCHEME: 'nova-debugger-auth-scheme',
+  CUSTOM_HEADERS: 'nova-debugger-custom-headers',
+  ACTIVE_PROFILE: 'nova-debugger-active-profile',
+  PROXY_MODE: 'nova-debugger-proxy-mode',
 } as const;
 
 const DEFAULT_PANEL_WIDTH = 320;
 
+// Consecutive failed health checks before the agent is marked as down
+const UNHEALTHY_THRESHOLD = 2;
+
 // Default fallback for logo
 const DEFAULT_LOGO_SVG =
   'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 32 32"><rect width="32" height="32" fill="%234F46E5" rx="4"/><text x="50%" y="50%" text-anchor="middle" dy=".35em" fill="white" font-size="12" font-family="Arial">AI</text></svg>';
@@ -50,9 +102,20 @@ export default function HomeClient() {
   const [serviceUrl, setServiceUrl] = useState('');
   const [authToken, setAuthToken] = useState('');
   const [persist, setPersist] = useState(false);
+  const [authScheme, setAuthScheme] = useState<AuthScheme>(DEFAULT_AUTH_SCHEME);
+  const [proxyMode, setProxyMode] = useState(false);
+  const [customHeaders, setCustomHeaders] = useState<Record<string, string>>({});
   const [agentInfo, setAgentInfo] = useState<AgentConfig | null>(null);
+
+  // Connection the debugger's own requests to the agent use (chat history, feedback...)
+  const connection = useMemo<AgentRequestConfig>(
+    () => ({ serviceUrl, authToken, authScheme, customHeaders }),
+    [serviceUrl, authToken, authScheme, customHeaders]
+  );
+  const [conformance, setConformance] = useState<ConformanceReport | null>(null);
   const [status, setStatus] = useState<AgentStatus>('disconnected');
   const [discoveryError, setDiscoveryError] = useState<string | null>(null);
+  const [discoveryAttempts, setDiscoveryAttempts] = useState<DiscoveryAttempt[]>([]);
   const [isDiscovering, setIsDiscovering] = useState(false);
   const [chatId, setChatId] = useState(() => 
     `debug-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
@@ -60,17 +123,52 @@ export default function HomeClient() {
   
   // Chat sidebar state
   const [isChatSidebarOpen, setIsChatSidebarOpen] = useState(false);
+
+  // Connection profiles state
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [pendingDiscovery, setPendingDiscovery] = useState(false);
+
+  // Comparison mode: a second agent that receives every prompt
+  const [compareTarget, setCompareTarget] = useState<CompareTarget | null>(null);
+
+  // Transcript opened from a file, shown instead of the live chat
+  const [importedTranscript, setImportedTranscript] = useState<ImportedTranscript | null>(null);
+
+  // Inspector pane state
+  const [isInspectorOpen, setIsInspectorOpen] = useState(false);
+  const [inspectRequest, setInspectRequest] = useState<InspectMessageRequest | null>(null);
+
+  // Composer for messages that force or disable tools
+  const [isComposerOpen, setIsComposerOpen] = useState(false);
+
+  // Agent and saved prompts shown under the chat
+  const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState(false);
   
   // Initial messages state for loading existing chats
   const [initialMessages, setInitialMessages] = useState<ChatMessage[]>([]);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
+  // Messages as the agent returned them, before the transform (for the message inspector)
+  const [persistedMessages, setPersistedMessages] = useState<any[]>([]);
   
   // Toast state
-  const [toast, setToast] = useState<{ show: boolean; message: string; type: 'success' | 'error' }>({
+  const [toast, setToast] = useState<{
+    show: boolean;
+    message: string;
+    type: 'success' | 'error';
+    action?: { label: string; onClick: () => void };
+  }>({
     show: false,
     message: '',
     type: 'success'
   });
+  const toastTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  // Feedback sent this session, by message id (overrides what the messages carry)
+  const [feedbackOverrides, setFeedbackOverrides] = useState<Record<string, MessageFeedback>>({});
+  const [feedbackDialog, setFeedbackDialog] = useState<{ messageId: string; type: MessageFeedbackType } | null>(null);
+  const [isSubmittingFeedback, setIsSubmittingFeedback] = useState(false);
+  const [feedbackError, setFeedbackError] = useState<string | null>(null);
 
   // Load saved config on mount
   useEffect(() => {
@@ -84,12 +182,30 @@ export default function HomeClient() {
     const savedPanelOpen = getStorageItem(STORAGE.PANEL_OPEN, 'true');
     const savedPanelWidth = getStorageItem(STORAGE.PANEL_WIDTH, '');
     const savedPersist = getStorageItem(STORAGE.PERSIST, 'false');
+    const savedInspectorOpen = getStorageItem(STORAGE.INSPECTOR_OPEN, 'false');
+    const savedCustomHeaders = getStorageItem(STORAGE.CUSTOM_HEADERS, '{}');
+    const savedActiveProfile = getStorageItem(STORAGE.ACTIVE_PROFILE, '');
 
     // Use localStorage values if they exist, otherwise use environment variables
     setServiceUrl(savedUrl || envApiUrl);
     setAuthToken(savedToken || envAuthToken);
+    try {
+      setAuthScheme(normalizeAuthScheme(JSON.parse(getStorageItem(STORAGE.AUTH_SCHEME, 'null'))));
+    } catch {
+      setAuthScheme(DEFAULT_AUTH_SCHEME);
+    }
     setIsPanelOpen(savedPanelOpen !== 'false');
     setPersist(savedPersist === 'true');
+    setProxyMode(getStorageItem(STORAGE.PROXY_MODE, 'false') === 'true');
+    setIsInspectorOpen(savedInspectorOpen === 'true');
+    try {
+      setCustomHeaders(JSON.parse(savedCustomHeaders));
+    } catch {
+      setCustomHeaders({});
+    }
+    const savedProfiles = loadProfiles();
+    setProfiles(savedProfiles);
+    setActiveProfileId(savedProfiles.some((p) => p.id === savedActiveProfile) ? savedActiveProfile : null);
     if (savedPanelWidth) {
       const width = parseInt(savedPanelWidth, 10);
       if (width >= 280 && width <= 600) {
@@ -111,6 +227,63 @@ export default function HomeClient() {
     setStorageItem(STORAGE.PANEL_OPEN, isPanelOpen.toString());
   }, [isPanelOpen]);
 
+  useEffect(() => {
+    setStorageItem(STORAGE.INSPECTOR_OPEN, isInspectorOpen.toString());
+    // An inspect link only applies to the pane it opened
+    if (!isInspectorOpen) setInspectRequest(null);
+  }, [isInspectorOpen]);
+
+  useEffect(() => {
+    setStorageItem(STORAGE.AUTH_SCHEME, JSON.stringify(authScheme));
+  }, [authScheme]);
+
+  // Route agent requests through the debugger server when proxy mode is on
+  useEffect(() => {
+    setAgentProxyEnabled(proxyMode);
+  }, [proxyMode]);
+
+  useEffect(() => {
+    setStorageItem(STORAGE.CUSTOM_HEADERS, JSON.stringify(customHeaders));
+  }, [customHeaders]);
+
+  // Declared endpoints hosted on another origin (e.g. a separate MCP server) only get
+  // credentials once the user allows it for the discovered config
+  const [allowCrossOriginEndpoints, setAllowCrossOriginEndpoints] = useState(false);
+  const endpointUrls = useMemo(
+    () =>
+      Object.values(agentInfo?.endpoints || {})
+        .filter((endpoint): endpoint is string => typeof endpoint === 'string' && endpoint !== '')
+        .map((endpoint) => getAgentEndpointUrl(connection.serviceUrl, endpoint)),
+    [agentInfo, connection.serviceUrl]
+  );
+  const crossOriginEndpointUrls = useMemo(
+    () => endpointUrls.filter((url) => !isServiceOrigin(connection.serviceUrl, url)),
+    [endpointUrls, connection.serviceUrl]
+  );
+
+  useEffect(() => {
+    setAllowCrossOriginEndpoints(false);
+  }, [agentInfo]);
+
+  // Apply credentials and custom headers to agent requests made by useChatStream and friends
+  useEffect(() => {
+    setAgentRequestHeaders(
+      connection,
+      'primary',
+      allowCrossOriginEndpoints ? endpointUrls : endpointUrls.filter((url) => !crossOriginEndpointUrls.includes(url))
+    );
+    // The icon proxy fetches server-side, so it reads the headers from a cookie (cleared on disconnect)
+    document.cookie = buildAgentHeadersCookie(agentInfo ? connection : null);
+  }, [connection, agentInfo, endpointUrls, crossOriginEndpointUrls, allowCrossOriginEndpoints]);
+
+  // Instrument agent traffic: capture stream frames and network traffic for the inspector,
+  // inject faults, apply credentials and route through the proxy when enabled
+  useEffect(() => addFetchMiddleware(FETCH_MIDDLEWARE_ORDER.STREAM_CAPTURE, streamCaptureMiddleware), []);
+  useEffect(() => addFetchMiddleware(FETCH_MIDDLEWARE_ORDER.FAULT_INJECTION, faultInjectionMiddleware), []);
+  useEffect(() => addFetchMiddleware(FETCH_MIDDLEWARE_ORDER.AGENT_HEADERS, agentHeadersMiddleware), []);
+  useEffect(() => addFetchMiddleware(FETCH_MIDDLEWARE_ORDER.NETWORK_LOG, networkLogMiddleware), []);
+  useEffect(() => addFetchMiddleware(FETCH_MIDDLEWARE_ORDER.AGENT_PROXY, agentProxyMiddleware), []);
+
   // Note: persist is saved in handlePersistChange to avoid race condition with load effect
 
   // Handle persist change
@@ -123,12 +296,19 @@ export default function HomeClient() {
     setInitialMessages([]);
   }, []);
 
+  // Handle proxy mode change
+  const handleProxyModeChange = useCallback((enabled: boolean) => {
+    setProxyMode(enabled);
+    setStorageItem(STORAGE.PROXY_MODE, enabled.toString());
+  }, []);
+
   // Fetch existing messages when selecting a chat from sidebar
   useEffect(() => {
     const fetchChatMessages = async () => {
       // Skip fetching for new chats (those starting with 'debug-')
-      if (!chatId || chatId.startsWith('debug-') || !serviceUrl || !persist) {
+      if (!chatId || chatId.startsWith('debug-') || !connection.serviceUrl || !persist) {
         setInitialMessages([]);
+        setPersistedMessages([]);
         return;
       }
 
@@ -137,19 +317,12 @@ export default function HomeClient() {
       setChatError(null);
 
       try {
-        const headers: Record<string, string> = {
-          'Content-Type': 'application/json',
-        };
-        if (authToken) {
-          headers['Authorization'] = `Bearer ${authToken}`;
-        }
-
-        const url = getChatMessagesUrl(serviceUrl, chatId);
+        const url = getChatMessagesUrl(connection.serviceUrl, chatId);
         console.log('[HomeClient] Fetching from:', url);
         
         const response = await fetch(url, {
           method: 'GET',
-          headers,
+          headers: buildConnectionHeaders(connection),
         });
 
         if (response.ok) {
@@ -167,60 +340,30 @@ export default function HomeClient() {
           }
           
           // Transform messages to include rich content from annotation field
-          // This matches how project-starfleet-web handles it
-          const transformedMessages = rawMessages.map((msg: any) => {
-            // De-duplicate toolSteps by toolCallId to prevent duplicate chart/table rendering
-            // The database sometimes contains duplicate entries with the same toolCallId
-            const rawToolSteps = msg.annotation?.toolSteps || [];
-            const uniqueToolSteps = rawToolSteps.filter(
-              (step: any, index: number, arr: any[]) => 
-                arr.findIndex((s: any) => s.toolCallId === step.toolCallId) === index
-            );
-            
-            return {
-              id: msg.id,
-              role: msg.role,
-              content: msg.content,
-              createdAt: msg.createdAt || msg.created_at || new Date().toISOString(),
-              // Add timestamp for compatibility with ChatMessage type
-              timestamp: new Date(msg.createdAt || msg.created_at || new Date()),
-              // Restore feedback state from API
-              liked: msg.liked || false,
-              disliked: msg.disliked || false,
-              hasComment: msg.hasComment || false,
-              // Restore tool steps from annotation (chain of thought) - de-duplicated
-              toolSteps: uniqueToolSteps.length > 0 ? uniqueToolSteps : undefined,
-              // Restore knowledge sources from annotation
-              knowledgeSources: msg.annotation?.knowledge_sources || undefined,
-              // Create toolData from annotation for tool visualization (charts, tables, etc.)
-              // Note: Don't include separate 'annotation' field to avoid duplicate rendering
-              toolData: msg.annotation ? {
-                type: msg.annotation.type || 'unknown',
-                state: 'output-available',
-                output: msg.annotation
-              } : undefined
-            };
-          }) as ChatMessage[];
+          const transformedMessages = rawMessages.map(transformPersistedMessage) as ChatMessage[];
           
           console.log('[HomeClient] Transformed messages:', transformedMessages);
           setInitialMessages(transformedMessages);
+          setPersistedMessages(rawMessages);
         } else {
           const errorText = await response.text();
           console.error('[HomeClient] Error fetching messages:', response.status, errorText);
           setChatError(`Failed to load chat messages: ${response.status}`);
           setInitialMessages([]);
+          setPersistedMessages([]);
         }
       } catch (error) {
         console.error('[HomeClient] Error fetching chat messages:', error);
         setChatError(`Failed to load messages: ${error instanceof Error ? error.message : 'Unknown error'}`);
         setInitialMessages([]);
+        setPersistedMessages([]);
       } finally {
         setIsLoadingMessages(false);
       }
     };
 
     fetchChatMessages();
-  }, [chatId, serviceUrl, authToken, persist]);
+  }, [chatId, connection, persist]);
 
   // Save panel width when it changes
   const handlePanelWidthChange = useCallback((width: number) => {
@@ -250,10 +393,92 @@ export default function HomeClient() {
     },
   });
 
+  // Background health polling against the declared health endpoint
+  const healthUrl = agentInfo?.endpoints?.health
+    ? getAgentEndpointUrl(serviceUrl, agentInfo.endpoints.health)
+    : null;
+  const { samples: healthSamples } = useHealthMonitor({
+    healthUrl,
+    enabled: agentInfo !== null,
+  });
+  const markedDownByHealth = useRef(false);
+
+  // Flip the connection status when the agent goes down (or comes back) mid-session
+  useEffect(() => {
+    const recent = healthSamples.slice(-UNHEALTHY_THRESHOLD);
+    if (recent.length === 0) return;
+    const latest = recent[recent.length - 1];
+
+    if (
+      status === 'connected' &&
+      recent.length === UNHEALTHY_THRESHOLD &&
+      recent.every((sample) => sample.status === 'unhealthy')
+    ) {
+      markedDownByHealth.current = true;
+      setStatus('error');
+      setChatError(`Agent health check failed: ${latest.error || 'unhealthy'}`);
+    } else if (status === 'error' && markedDownByHealth.current && latest.status !== 'unhealthy') {
+      markedDownByHealth.current = false;
+      setStatus('connected');
+      setChatError(null);
+    }
+  }, [healthSamples, status]);
+
   // Combine initial messages with stream messages
   // When loading an existing chat, use initialMessages; new messages from stream are appended
   const messages = streamMessages.length > 0 ? streamMessages : initialMessages;
 
+  // Messages with feedback sent this session applied
+  const displayMessages = useMemo(
+    () =>
+      messages.map((message: any) =>
+        feedbackOverrides[message.id] ? { ...message, ...feedbackOverrides[message.id] } : message
+      ),
+    [messages, feedbackOverrides]
+  );
+
+  // Stream turns for the current chat (turns without a chat id are kept)
+  const streamTurns = useStreamTurns();
+  const chatStreamTurns = useMemo(
+    () => streamTurns.filter((turn) => !turn.chatId || turn.chatId === chatId),
+    [streamTurns, chatId]
+  );
+  const sessionMetrics = useMemo(() => computeSessionMetrics(chatStreamTurns), [chatStreamTurns]);
+
+  // Latency and throughput of each assistant message whose turn has finished
+  const metricsByMessageId = useMemo(() => {
+    const pinned = pinTurnsToMessages(chatStreamTurns, displayMessages as ComparableMessage[]);
+    return Object.fromEntries(
+      (displayMessages as ComparableMessage[])
+        .filter((message) => pinned[message.id]?.status === 'complete')
+        .map((message) => [message.id, computeMessageMetrics(message, pinned[message.id])])
+    );
+  }, [chatStreamTurns, displayMessages]);
+
+  // Messages as rendered: metrics and an inspect link go in a markdown line at the end
+  // of each finished assistant message, since the chat container renders content only
+  // (handlers still read `messages`)
+  const renderedMessages = useMemo(
+    () =>
+      displayMessages.map((message: any, index: number) => {
+        if (message.role !== 'assistant' || (isStreaming && index === displayMessages.length - 1)) return message;
+        const metrics = metricsByMessageId[message.id];
+        const footer = [...(metrics ? [formatTurnMetricsLine(metrics)] : []), getInspectMessageLink(message.id)];
+        return { ...message, content: `${message.content}\n\n${footer.join(' · ')}` };
+      }),
+    [displayMessages, metricsByMessageId, isStreaming]
+  );
+
+  // Open the message inspector from an inspect link under a message
+  const handleChatClickCapture = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
+    const messageId = getInspectMessageId(event.target);
+    if (!messageId) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setInspectRequest({ messageId, requestedAt: Date.now() });
+    setIsInspectorOpen(true);
+  }, []);
+
   // Handle chat selection from sidebar
   const handleChatSelect = useCallback((selectedChatId: string) => {
     console.log('[HomeClient] Chat selected:', selectedChatId);
@@ -263,29 +488,36 @@ export default function HomeClient() {
 
   // Handle agent discovery
   const handleDiscover = useCallback(async () => {
-    if (!serviceUrl) {
+    if (!connection.serviceUrl) {
       setDiscoveryError('Please enter a service URL');
       return;
     }
 
     setIsDiscovering(true);
     setDiscoveryError(null);
+    setDiscoveryAttempts([]);
 
     try {
       const response = await fetch('/api/discover', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: serviceUrl }),
+        headers: {
+          'Content-Type': 'application/json',
+          [FORWARDED_AGENT_HEADERS]: encodeForwardedHeaders(getAgentRequestHeaders(connection)),
+        },
+        body: JSON.stringify({ url: connection.serviceUrl }),
       });
 
       const result = await response.json();
+      setDiscoveryAttempts(result.attempts || []);
 
       if (!response.ok) {
         throw new Error(result.error || 'Failed to discover agent');
       }
 
       setAgentInfo(result.data);
+      setConformance(result.report || null);
       setStatus('connected');
+      markedDownByHealth.current = false;
       setLogoError(false);
       setChatError(null);
     } catch (err) {
@@ -294,10 +526,59 @@ export default function HomeClient() {
       );
       setStatus('error');
       setAgentInfo(null);
+      setConformance(null);
     } finally {
       setIsDiscovering(false);
     }
-  }, [serviceUrl]);
+  }, [connection]);
+
+  // Rediscover once a selected profile's config has been applied
+  useEffect(() => {
+    if (!pendingDiscovery) return;
+    setPendingDiscovery(false);
+    handleDiscover();
+  }, [pendingDiscovery, handleDiscover]);
+
+  // Handle profile list changes (save, create, delete, import)
+  const handleProfilesChange = useCallback((nextProfiles: ConnectionProfile[]) => {
+    setProfiles(nextProfiles);
+    saveProfiles(nextProfiles);
+  }, []);
+
+  // Handle switching to a saved profile (or back to an unsaved connection)
+  const handleSelectProfile = useCallback(
+    (profile: ConnectionProfile | null) => {
+      setActiveProfileId(profile?.id || null);
+      setStorageItem(STORAGE.ACTIVE_PROFILE, profile?.id || '');
+      if (!profile) return;
+
+      console.log('[HomeClient] Switching to profile:', profile.name);
+      setServiceUrl(profile.serviceUrl);
+      setAuthToken(profile.authToken);
+      setAuthScheme(profile.authScheme);
+      setCustomHeaders(profile.customHeaders);
+      if (profile.persist !== persist) handlePersistChange(profile.persist);
+      setAgentInfo(null);
+      setCompareTarget(null);
+      setStatus('disconnected');
+      setChatError(null);
+      if (profile.serviceUrl) setPendingDiscovery(true);
+    },
+    [persist, handlePersistChange]
+  );
+
+  // Point the debugger at the built-in mock agent and discover it
+  const handleUseMockAgent = useCallback((mockUrl: string) => {
+    console.log('[HomeClient] Switching to mock agent:', mockUrl);
+    setActiveProfileId(null);
+    setStorageItem(STORAGE.ACTIVE_PROFILE, '');
+    setServiceUrl(mockUrl);
+    setAgentInfo(null);
+    setCompareTarget(null);
+    setStatus('disconnected');
+    setChatError(null);
+    setPendingDiscovery(true);
+  }, []);
 
   // Handle sending a message
   const handleSendMessage = useCallback(
@@ -322,23 +603,94 @@ export default function HomeClient() {
           .find((m: any) => m.role === 'user');
         if (previousUserMessage) {
           setChatError(null);
-          sendMessage(previousUserMessage.content);
+          // Resend the whole message when it carries an annotation (e.g. forced_tools)
+          sendMessage(previousUserMessage.annotation ? previousUserMessage : previousUserMessage.content);
         }
       }
     },
     [messages, sendMessage]
   );
 
-  // Handle like message - console log for debugging
-  const handleLikeMessage = useCallback((messageId: string) => {
-    console.log('👍 Liked message:', messageId);
-  }, []);
+  const showToast = useCallback(
+    (message: string, type: 'success' | 'error', action?: { label: string; onClick: () => void }) => {
+      clearTimeout(toastTimeout.current);
+      setToast({ show: true, message, type, action });
+      // Auto-hide, leaving more time when there is an action to take
+      toastTimeout.current = setTimeout(
+        () => setToast({ show: false, message: '', type: 'success' }),
+        action ? 6000 : 3000
+      );
+    },
+    []
+  );
+
+  // Store feedback for a message on the agent and show it on the message
+  const applyFeedback = useCallback(
+    async (messageId: string, feedback: MessageFeedback) => {
+      const saved = await saveMessageFeedback(connection, messageId, feedback);
+      setFeedbackOverrides((prev) => ({ ...prev, [messageId]: saved }));
+      return saved;
+    },
+    [connection]
+  );
+
+  const getCurrentFeedback = useCallback(
+    (messageId: string): MessageFeedback =>
+      feedbackOverrides[messageId] || getMessageFeedback(messages.find((m: any) => m.id === messageId)),
+    [feedbackOverrides, messages]
+  );
+
+  // Send (or remove) the feedback chosen in the dialog, offering undo
+  const submitFeedback = useCallback(
+    async (feedback: MessageFeedback) => {
+      if (!feedbackDialog) return;
+      const { messageId } = feedbackDialog;
+      const previous = getCurrentFeedback(messageId);
+
+      setIsSubmittingFeedback(true);
+      setFeedbackError(null);
+      try {
+        await applyFeedback(messageId, feedback);
+        setFeedbackDialog(null);
+        const isRemoval = !feedback.liked && !feedback.disliked;
+        showToast(isRemoval ? 'Feedback removed' : 'Feedback sent', 'success', {
+          label: 'Undo',
+          onClick: () => {
+            applyFeedback(messageId, previous)
+              .then(() => showToast('Feedback restored', 'success'))
+              .catch((err) =>
+                showToast(`Undo failed: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error')
+              );
+          },
+        });
+      } catch (err) {
+        console.error('[Feedback] Failed:', err);
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        setFeedbackError(persist ? message : `${message}. Messages are only stored by the agent when Persist is on.`);
+      } finally {
+        setIsSubmittingFeedback(false);
+      }
+    },
+    [feedbackDialog, getCurrentFeedback, applyFeedback, showToast, persist]
+  );
 
-  // Handle dislike message - console log for debugging
-  const handleDislikeMessage = useCallback((messageId: string) => {
-    console.log('👎 Disliked message:', messageId);
+  const openFeedbackDialog = useCallback((messageId: string, type: MessageFeedbackType) => {
+    setFeedbackError(null);
+    setFeedbackDialog({ messageId, type });
   }, []);
 
+  // Handle like message - confirm with an optional comment, then send to the agent
+  const handleLikeMessage = useCallback(
+    (messageId: string) => openFeedbackDialog(messageId, 'like'),
+    [openFeedbackDialog]
+  );
+
+  // Handle dislike message - confirm with an optional comment, then send to the agent
+  const handleDislikeMessage = useCallback(
+    (messageId: string) => openFeedbackDialog(messageId, 'dislike'),
+    [openFeedbackDialog]
+  );
+
   // Handle share message - copy to clipboard
   const handleShareMessage = useCallback(
     (messageId: string) => {
@@ -368,6 +720,7 @@ export default function HomeClient() {
   // Clear configuration
   const handleClearConfig = useCallback(() => {
     setAgentInfo(null);
+    setCompareTarget(null);
     setStatus('disconnected');
     setDiscoveryError(null);
     setChatError(null);
@@ -382,9 +735,14 @@ export default function HomeClient() {
   }, []);
 
   // Handle export chat
-  const handleExportChat = useCallback(() => {
-    downloadChatExport(messages, chatId, 'json');
-  }, [messages, chatId]);
+  const handleExportChat = useCallback(
+    (format: TranscriptFormat, options: TranscriptExportOptions) => {
+      const transcript = buildTranscript(messages, chatId, agentInfo?.name, options);
+      const { extension, mimeType } = TRANSCRIPT_FORMATS.find((f) => f.id === format)!;
+      downloadFile(formatTranscript(transcript, format), `chat-${chatId}-${getFileTimestamp()}.${extension}`, mimeType);
+    },
+    [messages, chatId, agentInfo?.name]
+  );
 
   // Handle chat deleted from sidebar
   const handleChatDeleted = useCallback((deletedChatId: string, chatTitle: string) => {
@@ -395,10 +753,18 @@ export default function HomeClient() {
       setInitialMessages([]);
     }
     // Show success toast
-    setToast({ show: true, message: `"${chatTitle}" deleted successfully`, type: 'success' });
-    // Auto-hide after 3 seconds
-    setTimeout(() => setToast({ show: false, message: '', type: 'success' }), 3000);
-  }, [chatId]);
+    showToast(`"${chatTitle}" deleted successfully`, 'success');
+  }, [chatId, showToast]);
+
+  // Handle chats deleted in bulk from sidebar
+  const handleChatsDeleted = useCallback((deletedChatIds: string[]) => {
+    if (deletedChatIds.includes(chatId)) {
+      setChatError(null);
+      setChatId(`debug-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+      setInitialMessages([]);
+    }
+    showToast(`${deletedChatIds.length} chat${deletedChatIds.length === 1 ? '' : 's'} deleted`, 'success');
+  }, [chatId, showToast]);
 
   // Get logo URL from config, with fallback
   const logoUrl =
@@ -472,61 +838,120 @@ export default function HomeClient() {
       <div className="flex-1 flex min-h-0">
         {/* Chat Container */}
         <div
-          className="flex-1 flex flex-col min-h-0 transition-[margin-left,margin-right] duration-300 ease-in-out"
+          className="flex-1 flex min-h-0 transition-[margin-left,margin-right] duration-300 ease-in-out"
           style={{ 
             marginLeft: isChatSidebarOpen && persist && status === 'connected' ? '18rem' : '0',
             marginRight: isPanelOpen ? `${panelWidth}px` : '0' 
           }}
         >
-          {status === 'connected' ? (
-            <ChatContainer
-              key={chatId}
-              chatId={chatId}
-              messages={messages as any}
-              isLoading={isLoading}
-              isStreaming={isStreaming}
-              userName={userName}
-              userAvatar={userAvatar}
-              agentName={agentName}
-              agentLogoUrl={agentInfo?.logo_url || agentInfo?.avatar_url}
-              apiUrl={serviceUrl}
-              onSendMessage={handleSendMessage}
-              onRetryMessage={handleRetryMessage}
-              onLikeMessage={handleLikeMessage}
-              onDislikeMessage={handleDislikeMessage}
-              onShareMessage={handleShareMessage}
-              messageContainerClassName="max-w-3xl mx-auto"
-              inputPlaceholder="Send a message to test the agent..."
-              promptsSubtitle="I'm Astro, your AI assistant for training and market insights."
-              showPromptsWhen="empty"
-            />
-          ) : (
-            <div className="h-full flex items-center justify-center">
-              <div className="text-center max-w-md px-6">
-                <div className="h-16 w-16 rounded-2xl bg-gray-50 dark:bg-gray-700/30 flex items-center justify-center mx-auto mb-4">
-                  <img 
-                    src="https://kmwscxlhhndytxluptqp.supabase.co/storage/v1/object/public/assets/Flux.png"
-                    alt="Flux"
-                    className="h-14 w-14 object-contain"
-                  />
+          <div className="flex-1 flex flex-col min-w-0 min-h-0" onClickCapture={handleChatClickCapture}>
+            {importedTranscript ? (
+              <TranscriptViewer
+                key={`${importedTranscript.fileName}-${importedTranscript.exportedAt}`}
+                transcript={importedTranscript}
+                onClose={() => setImportedTranscript(null)}
+                agent={status === 'connected' && agentInfo ? { serviceUrl, authToken, agentInfo } : null}
+              />
+            ) : status === 'connected' && agentInfo && compareTarget ? (
+              <CompareView
+                chatId={chatId}
+                target={compareTarget}
+                primaryLabel={profiles.find((p) => p.id === activeProfileId)?.name || agentName}
+                primaryServiceUrl={serviceUrl}
+                primaryAgentInfo={agentInfo}
+                messages={messages}
+                isLoading={isLoading}
+                isStreaming={isStreaming}
+                userName={userName}
+                userAvatar={userAvatar}
+                onSendMessage={handleSendMessage}
+                onRetryMessage={handleRetryMessage}
+                onError={setChatError}
+              />
+            ) : status === 'connected' ? (
+              <ChatContainer
+                key={chatId}
+                chatId={chatId}
+                messages={renderedMessages as any}
+                isLoading={isLoading}
+                isStreaming={isStreaming}
+                userName={userName}
+                userAvatar={userAvatar}
+                agentName={agentName}
+                agentLogoUrl={agentInfo?.logo_url || agentInfo?.avatar_url}
+                apiUrl={serviceUrl}
+                onSendMessage={handleSendMessage}
+                onRetryMessage={handleRetryMessage}
+                onLikeMessage={handleLikeMessage}
+                onDislikeMessage={handleDislikeMessage}
+                onShareMessage={handleShareMessage}
+                messageContainerClassName="max-w-3xl mx-auto"
+                inputPlaceholder="Send a message to test the agent..."
+                promptsSubtitle={getPromptsSubtitle(agentInfo)}
+                showPromptsWhen="empty"
+              />
+            ) : (
+              <div className="h-full flex items-center justify-center">
+                <div className="text-center max-w-md px-6">
+                  <div className="h-16 w-16 rounded-2xl bg-gray-50 dark:bg-gray-700/30 flex items-center justify-center mx-auto mb-4">
+                    <img 
+                      src="https://kmwscxlhhndytxluptqp.supabase.co/storage/v1/object/public/assets/Flux.png"
+                      alt="Flux"
+                      className="h-14 w-14 object-contain"
+                    />
+                  </div>
+                  <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
+                    Agent Debugger
+                  </h2>
+                  <p className="text-gray-600 dark:text-gray-400 mb-4">
+                    Configure your agent connection in the panel on the right to
+                    start testing.
+                  </p>
+                  {!isPanelOpen && (
+                    <button
+                      onClick={togglePanel}
+                      className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors"
+                    >
+                      Open Configuration Panel
+                    </button>
+                  )}
                 </div>
-                <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
-                  Agent Debugger
-                </h2>
-                <p className="text-gray-600 dark:text-gray-400 mb-4">
-                  Configure your agent connection in the panel on the right to
-                  start testing.
-                </p>
-                {!isPanelOpen && (
-                  <button
-                    onClick={togglePanel}
-                    className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-lg hover:bg-gray-700 transition-colors"
-                  >
-                    Open Configuration Panel
-                  </button>
-                )}
               </div>
-            </div>
+            )}
+
+            {/* Prompt Library */}
+            {isPromptLibraryOpen && status === 'connected' && !importedTranscript && !compareTarget && (
+              <PromptLibrary
+                agentInfo={agentInfo}
+                isBusy={isLoading || isStreaming}
+                onSend={handleSendMessage}
+                onClose={() => setIsPromptLibraryOpen(false)}
+              />
+            )}
+
+            {/* Tool Composer */}
+            {isComposerOpen && status === 'connected' && agentInfo && !importedTranscript && !compareTarget && (
+              <ToolComposer
+                tools={agentInfo.tools || []}
+                isBusy={isLoading || isStreaming}
+                onSend={handleSendMessage}
+                onClose={() => setIsComposerOpen(false)}
+              />
+            )}
+          </div>
+
+          {/* Inspector Pane */}
+          {isInspectorOpen && (
+            <InspectorPane
+              onClose={() => setIsInspectorOpen(false)}
+              streamTurns={chatStreamTurns}
+              messages={displayMessages as ComparableMessage[]}
+              persistedMessages={persistedMessages}
+              inspectRequest={inspectRequest}
+              chatId={chatId}
+              connection={connection}
+              agentInfo={agentInfo}
+            />
           )}
         </div>
 
@@ -536,14 +961,29 @@ export default function HomeClient() {
           onToggle={togglePanel}
           serviceUrl={serviceUrl}
           authToken={authToken}
+          authScheme={authScheme}
           persist={persist}
+          customHeaders={customHeaders}
+          profiles={profiles}
+          activeProfileId={activeProfileId}
           agentInfo={agentInfo}
+          conformance={conformance}
           status={status}
           error={discoveryError}
+          discoveryAttempts={discoveryAttempts}
           isDiscovering={isDiscovering}
           onServiceUrlChange={setServiceUrl}
           onAuthTokenChange={setAuthToken}
+          onAuthSchemeChange={setAuthScheme}
           onPersistChange={handlePersistChange}
+          proxyMode={proxyMode}
+          onProxyModeChange={handleProxyModeChange}
+          crossOriginEndpointUrls={crossOriginEndpointUrls}
+          allowCrossOriginEndpoints={allowCrossOriginEndpoints}
+          onAllowCrossOriginEndpointsChange={setAllowCrossOriginEndpoints}
+          onCustomHeadersChange={setCustomHeaders}
+          onProfilesChange={handleProfilesChange}
+          onSelectProfile={handleSelectProfile}
           onDiscover={handleDiscover}
           onClearConfig={handleClearConfig}
           onResetChat={handleResetChat}
@@ -553,6 +993,22 @@ export default function HomeClient() {
           onToggleDarkMode={toggleDarkMode}
           hasMessages={messages.length > 0}
           onExportChat={handleExportChat}
+          onImportTranscript={setImportedTranscript}
+          healthUrl={healthUrl}
+          healthSamples={healthSamples}
+          isInspectorOpen={isInspectorOpen}
+          onToggleInspector={() => setIsInspectorOpen(!isInspectorOpen)}
+          canCompose={status === 'connected' && !compareTarget && (agentInfo?.tools?.length ?? 0) > 0}
+          isComposerOpen={isComposerOpen}
+          onToggleComposer={() => setIsComposerOpen(!isComposerOpen)}
+          canUsePrompts={status === 'connected' && !compareTarget}
+          isPromptLibraryOpen={isPromptLibraryOpen}
+          onTogglePromptLibrary={() => setIsPromptLibraryOpen(!isPromptLibraryOpen)}
+          sessionMetrics={sessionMetrics}
+          compareTarget={compareTarget}
+          onStartCompare={setCompareTarget}
+          onStopCompare={() => setCompareTarget(null)}
+          onUseMockAgent={handleUseMockAgent}
         />
       </div>
       </div>
@@ -562,12 +1018,26 @@ export default function HomeClient() {
         <ChatSidebar
           isOpen={isChatSidebarOpen}
           onClose={() => setIsChatSidebarOpen(false)}
-          serviceUrl={serviceUrl}
-          authToken={authToken}
+          connection={connection}
           currentChatId={chatId}
           onChatSelect={handleChatSelect}
           onNewChat={handleResetChat}
           onChatDeleted={handleChatDeleted}
+          onChatsDeleted={handleChatsDeleted}
+        />
+      )}
+
+      {/* Feedback dialog */}
+      {feedbackDialog && (
+        <FeedbackDialog
+          key={`${feedbackDialog.messageId}-${feedbackDialog.type}`}
+          type={feedbackDialog.type}
+          current={getCurrentFeedback(feedbackDialog.messageId)}
+          isSubmitting={isSubmittingFeedback}
+          error={feedbackError}
+          onSubmit={(comment) => submitFeedback(createMessageFeedback(feedbackDialog.type, comment))}
+          onRemove={() => submitFeedback(NO_FEEDBACK)}
+          onCancel={() => setFeedbackDialog(null)}
         />
       )}
 
@@ -590,6 +1060,18 @@ export default function HomeClient() {
             </svg>
           )}
           <span className="text-sm font-medium">{toast.message}</span>
+          {toast.action && (
+            <button
+              onClick={() => {
+                const { onClick } = toast.action!;
+                setToast({ show: false, message: '', type: 'success' });
+                onClick();
+              }}
+              className="ml-2 text-sm font-semibold underline hover:opacity-80"
+            >
+              {toast.action.label}
+            </button>
+          )}
           <button 
             onClick={() => setToast({ show: false, message: '', type: 'success' })}
             className="ml-2 hover:opacity-80"
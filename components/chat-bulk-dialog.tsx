@@ -0,0 +1,141 @@
+'use client';
+
+import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import type { Chat, ChatBulkResult } from '@/types/agent';
+
+// A bulk delete or export over many chats, from confirmation to results
+export interface ChatBulkJob {
+  action: 'delete' | 'export';
+  title: string;
+  // loading: finding the chats; confirm: waiting for the user (deletes only)
+  status: 'loading' | 'confirm' | 'running' | 'done';
+  chats: Chat[];
+  results: ChatBulkResult[];
+  // Set when the chats could not be found
+  error?: string;
+}
+
+interface ChatBulkDialogProps {
+  job: ChatBulkJob;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+// Chats listed by title before confirming a delete
+const PREVIEW_COUNT = 5;
+
+// Confirmation, progress and per-chat errors of a bulk operation
+export function ChatBulkDialog({ job, onConfirm, onClose }: ChatBulkDialogProps) {
+  const total = job.chats.length;
+  const failures = job.results.filter((result) => !result.ok);
+  const succeeded = job.results.length - failures.length;
+  const progress = total > 0 ? Math.round((job.results.length / total) * 100) : 0;
+  const verb = job.action === 'delete' ? 'deleted' : 'exported';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">{job.title}</h3>
+
+        {job.status === 'loading' && (
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Finding chats...
+          </div>
+        )}
+
+        {job.status === 'confirm' &&
+          (total === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">No chats found.</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Are you sure you want to delete {total} chat{total === 1 ? '' : 's'}? This action cannot be undone.
+              </p>
+              <ul className="text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+                {job.chats.slice(0, PREVIEW_COUNT).map((chat) => (
+                  <li key={chat.id} className="truncate">
+                    • {chat.title || 'Untitled Chat'}
+                  </li>
+                ))}
+                {total > PREVIEW_COUNT && <li>…and {total - PREVIEW_COUNT} more</li>}
+              </ul>
+            </div>
+          ))}
+
+        {(job.status === 'running' || (job.status === 'done' && !job.error)) && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+              <span className="flex items-center gap-1">
+                {job.status === 'running' ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : failures.length === 0 ? (
+                  <CheckCircle className="w-3 h-3 text-green-500" />
+                ) : (
+                  <AlertCircle className="w-3 h-3 text-red-500" />
+                )}
+                {succeeded} of {total} {verb}
+                {failures.length > 0 && `, ${failures.length} failed`}
+              </span>
+              <span>{progress}%</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+              <div
+                className={`h-full transition-[width] ${failures.length > 0 ? 'bg-amber-500' : 'bg-indigo-600'}`}
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+            {failures.length > 0 && (
+              <ul className="max-h-40 overflow-y-auto space-y-1">
+                {failures.map((failure) => (
+                  <li key={failure.chatId} className="flex items-start gap-1.5 text-xs">
+                    <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0 text-red-500" />
+                    <span className="min-w-0">
+                      <span className="text-gray-700 dark:text-gray-300">{failure.title || 'Untitled Chat'}</span>
+                      <span className="text-red-600 dark:text-red-400"> — {failure.error}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {job.error && (
+          <div className="flex items-start gap-1.5 text-xs text-red-600 dark:text-red-400">
+            <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            {job.error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 mt-4">
+          {job.status === 'confirm' ? (
+            <>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={onConfirm}
+                disabled={total === 0}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                Delete {total > 0 ? total : ''}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={onClose}
+              disabled={job.status === 'running'}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import {
   X,
   MessageSquare,
@@ -10,19 +10,50 @@ import {
   Edit3,
   Check,
   Loader2,
+  Search,
+  Filter,
+  CheckSquare,
+  Download,
+  AlertCircle,
 } from 'lucide-react';
-import type { Chat } from '@/types/agent';
-import { getChatListUrl, getChatDeleteUrl, getChatUpdateUrl } from '@/utils/chat-api';
+import type { Chat, ChatArchive, ChatListFilter } from '@/types/agent';
+import { getChatUpdateUrl } from '@/utils/chat-api';
+import { buildConnectionHeaders, type AgentRequestConfig } from '@/utils/agent-headers';
+import {
+  CHAT_PAGE_SIZE,
+  buildChatArchive,
+  deleteChat,
+  fetchAllChats,
+  fetchChatListPage,
+  fetchChatMessages,
+  fetchChatSearchText,
+  getChatDate,
+  getOlderThanFilter,
+  hasChatFilter,
+  matchesChatFilter,
+  runChatBulkOperation,
+} from '@/utils/chat-history';
+import { downloadFile, getFileTimestamp } from '@/utils/download';
+import { ChatBulkDialog, type ChatBulkJob } from '@/components/chat-bulk-dialog';
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Parallel message fetches when searching content locally
+const SEARCH_CONCURRENCY = 4;
+
+const filterInputClassName =
+  'w-full px-2 py-1.5 text-xs border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500';
 
 interface ChatSidebarProps {
   isOpen: boolean;
   onClose: () => void;
-  serviceUrl: string;
-  authToken: string;
+  connection: AgentRequestConfig;
   currentChatId: string | null;
   onChatSelect: (chatId: string) => void;
   onNewChat: () => void;
   onChatDeleted?: (chatId: string, chatTitle: string) => void;
+  onChatsDeleted?: (chatIds: string[]) => void;
 }
 
 interface ChatItemProps {
@@ -37,6 +68,9 @@ interface ChatItemProps {
   onEditCancel: (e?: React.MouseEvent | React.KeyboardEvent) => void;
   onDeleteStart: (chat: Chat, e: React.MouseEvent) => void;
   setEditingTitle: (title: string) => void;
+  // Selection mode replaces the menu with a checkbox
+  isSelecting: boolean;
+  isChecked: boolean;
 }
 
 const ChatItem: React.FC<ChatItemProps> = ({
@@ -51,6 +85,8 @@ const ChatItem: React.FC<ChatItemProps> = ({
   onEditCancel,
   onDeleteStart,
   setEditingTitle,
+  isSelecting,
+  isChecked,
 }) => {
   const [showMenu, setShowMenu] = useState(false);
 
@@ -98,6 +134,13 @@ const ChatItem: React.FC<ChatItemProps> = ({
             <X className="w-4 h-4" />
           </button>
         </div>
+      ) : isSelecting ? (
+        <label className="flex items-center gap-2 flex-1 min-w-0 cursor-pointer" onClick={(e) => e.stopPropagation()}>
+          <input type="checkbox" checked={isChecked} onChange={onSelect} />
+          <span className="text-sm text-gray-700 dark:text-gray-200 truncate flex-1">
+            {chat.title || 'Untitled Chat'}
+          </span>
+        </label>
       ) : (
         <>
           <span className="text-sm text-gray-700 dark:text-gray-200 truncate flex-1">
@@ -158,13 +201,14 @@ const ChatItem: React.FC<ChatItemProps> = ({
 export function ChatSidebar({
   isOpen,
   onClose,
-  serviceUrl,
-  authToken,
+  connection,
   currentChatId,
   onChatSelect,
   onNewChat,
   onChatDeleted,
+  onChatsDeleted,
 }: ChatSidebarProps) {
+  const { serviceUrl } = connection;
   const [chats, setChats] = useState<Chat[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -172,64 +216,217 @@ export function ChatSidebar({
   const [editingTitle, setEditingTitle] = useState('');
   const [updatingChatId, setUpdatingChatId] = useState<string | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<Chat | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  // Multi-select and bulk operations
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkJob, setBulkJob] = useState<ChatBulkJob | null>(null);
+  const [cleanupDays, setCleanupDays] = useState(30);
+
+  // Filters as typed; the search text is debounced
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [userId, setUserId] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+
+  // Paging: agents that page return a cursor; otherwise the full list is paged locally
+  const [isPaged, setIsPaged] = useState(false);
+  const isPagedRef = useRef(isPaged);
+  isPagedRef.current = isPaged;
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(CHAT_PAGE_SIZE);
+
+  // Message text per chat id, for searching content locally. Scanning fetches every
+  // chat's messages, so it only runs for a search the user confirmed.
+  const searchText = useRef(new Map<string, string>());
+  const [searchTextById, setSearchTextById] = useState<Record<string, string>>({});
+  const [contentSearchTerm, setContentSearchTerm] = useState<string | null>(null);
+  const [scanProgress, setScanProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const requestId = useRef(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
-  // Fetch chats when sidebar opens
   useEffect(() => {
-    const fetchChats = async () => {
-      if (!isOpen || !serviceUrl) return;
-
-      try {
+    const timeoutId = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [searchInput]);
+
+  const filter = useMemo<ChatListFilter>(
+    () => ({
+      search: search || undefined,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+      userId: userId.trim() || undefined,
+    }),
+    [search, fromDate, toDate, userId]
+  );
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+  const isFiltered = hasChatFilter(filter);
+
+  // Load the first page (cursor null) or the next one
+  const loadChats = useCallback(
+    async (cursor: string | null) => {
+      const id = ++requestId.current;
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
         setLoading(true);
-        setError(null);
-        const headers: Record<string, string> = {
-          'Content-Type': 'application/json',
-        };
-        if (authToken) {
-          headers['Authorization'] = `Bearer ${authToken}`;
-        }
+      }
+      setError(null);
 
-        const url = getChatListUrl(serviceUrl);
-        console.log('[ChatSidebar] Fetching chats from:', url);
-        
-        const response = await fetch(url, {
-          method: 'GET',
-          headers,
-        });
-
-        console.log('[ChatSidebar] Response status:', response.status);
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log('[ChatSidebar] Response data:', data);
-          
-          // Handle different response formats
-          if (data.success && data.chats) {
-            setChats(data.chats);
-          } else if (Array.isArray(data)) {
-            // Direct array response
-            setChats(data);
-          } else if (data.data && Array.isArray(data.data)) {
-            // Wrapped in data property
-            setChats(data.data);
-          } else {
-            console.warn('[ChatSidebar] Unexpected response format:', data);
-            setChats([]);
-          }
-        } else {
-          const errorText = await response.text();
-          console.error('[ChatSidebar] Error response:', response.status, errorText);
-          setError(`Failed to load chats: ${response.status}`);
-        }
+      try {
+        // Until the agent shows it pages, ask for everything and filter locally
+        const page = await fetchChatListPage(connection, isPagedRef.current ? filterRef.current : {}, cursor);
+        if (id !== requestId.current) return;
+        console.log('[ChatSidebar] Loaded', page.chats.length, 'chats', page.isPaged ? `(next: ${page.nextCursor})` : '');
+
+        setIsPaged(page.isPaged);
+        setNextCursor(page.nextCursor);
+        setChats((prev) =>
+          cursor ? [...prev, ...page.chats.filter((chat) => !prev.some((p) => p.id === chat.id))] : page.chats
+        );
       } catch (error) {
+        if (id !== requestId.current) return;
         console.error('[ChatSidebar] Error fetching chats:', error);
-        setError(`Connection error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        setError(
+          error instanceof TypeError
+            ? `Connection error: ${error.message}`
+            : error instanceof Error
+              ? error.message
+              : 'Unknown error'
+        );
       } finally {
-        setLoading(false);
+        if (id === requestId.current) {
+          setLoading(false);
+          setLoadingMore(false);
+        }
+      }
+    },
+    [connection]
+  );
+
+  // Fetch chats when sidebar opens, and again when filters change if the agent filters them
+  const serverFilterKey = isPaged && isFiltered ? JSON.stringify(filter) : '';
+  useEffect(() => {
+    if (!isOpen || !serviceUrl) return;
+    searchText.current.clear();
+    setSearchTextById({});
+    loadChats(null);
+  }, [isOpen, serviceUrl, loadChats, serverFilterKey]);
+
+  useEffect(() => {
+    setVisibleCount(CHAT_PAGE_SIZE);
+  }, [filter]);
+
+  // Chats whose titles don't match the search and whose messages haven't been searched yet
+  const getUnscannedChats = useCallback(
+    (isScanned: (chatId: string) => boolean) => {
+      if (isPaged || !filter.search) return [];
+      const { search: _search, ...otherFilters } = filter;
+      return chats.filter(
+        (chat) => !isScanned(chat.id) && matchesChatFilter(chat, otherFilters) && !matchesChatFilter(chat, filter)
+      );
+    },
+    [isPaged, filter, chats]
+  );
+  const unscannedChatCount = useMemo(
+    () => getUnscannedChats((chatId) => chatId in searchTextById).length,
+    [getUnscannedChats, searchTextById]
+  );
+  const isContentSearchConfirmed = Boolean(filter.search) && contentSearchTerm === filter.search;
+
+  // Search message content of chats whose titles don't match, when filtering locally
+  useEffect(() => {
+    if (!isContentSearchConfirmed) {
+      setScanProgress(null);
+      return;
+    }
+    const pending = getUnscannedChats((chatId) => searchText.current.has(chatId));
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    let done = 0;
+    const queue = [...pending];
+    setScanProgress({ done, total: pending.length });
+
+    const worker = async () => {
+      while (!cancelled && queue.length > 0) {
+        const chat = queue.shift()!;
+        let text = '';
+        try {
+          text = await fetchChatSearchText(connection, chat.id);
+        } catch (error) {
+          console.warn('[ChatSidebar] Could not search messages of', chat.id, error);
+        }
+        searchText.current.set(chat.id, text);
+        setSearchTextById((prev) => ({ ...prev, [chat.id]: text }));
+        done++;
+        if (!cancelled) setScanProgress({ done, total: pending.length });
       }
     };
+    Promise.all(Array.from({ length: SEARCH_CONCURRENCY }, worker)).then(() => {
+      if (!cancelled) setScanProgress(null);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isContentSearchConfirmed, getUnscannedChats, connection]);
+
+  // Agents that page have already filtered; otherwise filter locally (again as message text loads)
+  const filteredChats = useMemo(() => {
+    if (isPaged) return chats;
+    return chats
+      .filter((chat) => matchesChatFilter(chat, filter, searchTextById[chat.id]))
+      .sort((a, b) => getChatDate(b).getTime() - getChatDate(a).getTime());
+  }, [chats, filter, isPaged, searchTextById]);
+
+  const visibleChats = isPaged ? filteredChats : filteredChats.slice(0, visibleCount);
+  const hasMore = isPaged ? nextCursor !== null : filteredChats.length > visibleCount;
+
+  const loadMore = useCallback(() => {
+    if (loading || loadingMore || !hasMore) return;
+    if (isPaged) {
+      loadChats(nextCursor);
+    } else {
+      setVisibleCount((count) => count + CHAT_PAGE_SIZE);
+    }
+  }, [loading, loadingMore, hasMore, isPaged, nextCursor, loadChats]);
 
-    fetchChats();
-  }, [isOpen, serviceUrl, authToken]);
+  // Infinite scroll: load more when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMore();
+      },
+      { root: scrollRef.current, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  // Users seen in the loaded chats, suggested in the user filter
+  const knownUsers = useMemo(
+    () => Array.from(new Set(chats.map((chat) => chat.user_id).filter((id): id is string => Boolean(id)))).sort(),
+    [chats]
+  );
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setSearch('');
+    setFromDate('');
+    setToDate('');
+    setUserId('');
+  };
 
   // Group chats by time periods
   const groupedChats = useMemo(() => {
@@ -245,8 +442,8 @@ export function ChatSidebar({
       older: [] as Chat[],
     };
 
-    chats.forEach((chat) => {
-      const chatDate = new Date(chat.updated_at || chat.created_at);
+    visibleChats.forEach((chat) => {
+      const chatDate = getChatDate(chat);
 
       if (chatDate >= today) {
         groups.today.push(chat);
@@ -261,15 +458,11 @@ export function ChatSidebar({
 
     // Sort chats within each group by most recent first
     Object.values(groups).forEach((group) => {
-      group.sort(
-        (a, b) =>
-          new Date(b.updated_at || b.created_at).getTime() -
-          new Date(a.updated_at || a.created_at).getTime()
-      );
+      group.sort((a, b) => getChatDate(b).getTime() - getChatDate(a).getTime());
     });
 
     return groups;
-  }, [chats]);
+  }, [visibleChats]);
 
   // Handle edit chat name
   const handleEditStart = (chat: Chat, e: React.MouseEvent) => {
@@ -283,16 +476,9 @@ export function ChatSidebar({
 
     setUpdatingChatId(chatId);
     try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-      if (authToken) {
-        headers['Authorization'] = `Bearer ${authToken}`;
-      }
-
       const response = await fetch(getChatUpdateUrl(serviceUrl, chatId), {
         method: 'PATCH',
-        headers,
+        headers: buildConnectionHeaders(connection),
         body: JSON.stringify({ title: editingTitle.trim() }),
       });
 
@@ -326,6 +512,7 @@ export function ChatSidebar({
   // Handle delete chat
   const handleDeleteStart = (chat: Chat, e: React.MouseEvent) => {
     e.stopPropagation();
+    setDeleteError(null);
     setDeleteConfirm(chat);
   };
 
@@ -335,27 +522,114 @@ export function ChatSidebar({
     const deletedChatId = deleteConfirm.id;
     const deletedChatTitle = deleteConfirm.title || 'Untitled Chat';
 
+    setIsDeleting(true);
+    setDeleteError(null);
     try {
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
-      if (authToken) {
-        headers['Authorization'] = `Bearer ${authToken}`;
+      await deleteChat(connection, deletedChatId);
+      setChats((prev) => prev.filter((chat) => chat.id !== deletedChatId));
+      setDeleteConfirm(null);
+      // Notify parent about successful deletion
+      onChatDeleted?.(deletedChatId, deletedChatTitle);
+    } catch (error) {
+      console.error('Error deleting chat:', error);
+      setDeleteError(error instanceof Error ? error.message : 'Failed to delete chat');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const toggleSelected = (chatId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(chatId)) {
+        next.delete(chatId);
+      } else {
+        next.add(chatId);
       }
+      return next;
+    });
+  };
 
-      const response = await fetch(getChatDeleteUrl(serviceUrl, deletedChatId), {
-        method: 'DELETE',
-        headers,
-      });
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
 
-      if (response.ok) {
-        setChats(chats.filter((chat) => chat.id !== deletedChatId));
-        setDeleteConfirm(null);
-        // Notify parent about successful deletion
-        onChatDeleted?.(deletedChatId, deletedChatTitle);
+  const selectedChats = chats.filter((chat) => selectedIds.has(chat.id));
+  const allVisibleSelected = visibleChats.length > 0 && visibleChats.every((chat) => selectedIds.has(chat.id));
+
+  const updateJob = (changes: Partial<ChatBulkJob>) => setBulkJob((job) => job && { ...job, ...changes });
+
+  // Delete or export the job's chats, reporting progress per chat
+  const runBulkJob = async (job: ChatBulkJob) => {
+    updateJob({ status: 'running', results: [] });
+
+    if (job.action === 'delete') {
+      const results = await runChatBulkOperation(
+        job.chats,
+        (chat) => deleteChat(connection, chat.id),
+        (progress) => updateJob({ results: progress })
+      );
+      const deletedIds = new Set(results.filter((result) => result.ok).map((result) => result.chatId));
+      setChats((prev) => prev.filter((chat) => !deletedIds.has(chat.id)));
+      setSelectedIds((prev) => new Set(Array.from(prev).filter((id) => !deletedIds.has(id))));
+      if (deletedIds.size > 0) onChatsDeleted?.(Array.from(deletedIds));
+    } else {
+      const messagesByChat = new Map<string, ChatArchive['chats'][number]['messages']>();
+      await runChatBulkOperation(
+        job.chats,
+        async (chat) => {
+          messagesByChat.set(chat.id, await fetchChatMessages(connection, chat.id));
+        },
+        (progress) => updateJob({ results: progress })
+      );
+      const archived = job.chats
+        .filter((chat) => messagesByChat.has(chat.id))
+        .map((chat) => ({ ...chat, messages: messagesByChat.get(chat.id)! }));
+      if (archived.length > 0) {
+        downloadFile(buildChatArchive(serviceUrl, archived), `nova-debugger-chats-${getFileTimestamp()}.json`);
       }
+    }
+
+    updateJob({ status: 'done' });
+  };
+
+  const handleBulkDelete = () => {
+    setBulkJob({
+      action: 'delete',
+      title: `Delete ${selectedChats.length} Chat${selectedChats.length === 1 ? '' : 's'}`,
+      status: 'confirm',
+      chats: selectedChats,
+      results: [],
+    });
+  };
+
+  const handleBulkExport = () => {
+    const job: ChatBulkJob = {
+      action: 'export',
+      title: `Export ${selectedChats.length} Chat${selectedChats.length === 1 ? '' : 's'}`,
+      status: 'running',
+      chats: selectedChats,
+      results: [],
+    };
+    setBulkJob(job);
+    runBulkJob(job);
+  };
+
+  // Find every chat older than N days (not just the loaded ones) and confirm deleting them
+  const handleCleanup = async () => {
+    setBulkJob({
+      action: 'delete',
+      title: `Delete Chats Older Than ${cleanupDays} Day${cleanupDays === 1 ? '' : 's'}`,
+      status: 'loading',
+      chats: [],
+      results: [],
+    });
+    try {
+      const olderChats = await fetchAllChats(connection, getOlderThanFilter(cleanupDays));
+      updateJob({ status: 'confirm', chats: olderChats });
     } catch (error) {
-      console.error('Error deleting chat:', error);
+      updateJob({ status: 'done', error: error instanceof Error ? error.message : 'Unknown error' });
     }
   };
 
@@ -377,6 +651,10 @@ export function ChatSidebar({
               editingTitle={editingTitle}
               isUpdating={updatingChatId === chat.id}
               onSelect={() => {
+                if (isSelecting) {
+                  toggleSelected(chat.id);
+                  return;
+                }
                 onChatSelect(chat.id);
                 // Don't close the sidebar - let user manually close it if desired
               }}
@@ -385,6 +663,8 @@ export function ChatSidebar({
               onEditCancel={handleEditCancel}
               onDeleteStart={handleDeleteStart}
               setEditingTitle={setEditingTitle}
+              isSelecting={isSelecting}
+              isChecked={selectedIds.has(chat.id)}
             />
           ))}
         </div>
@@ -410,6 +690,17 @@ export function ChatSidebar({
               </span>
             </div>
             <div className="flex items-center gap-2">
+              <button
+                onClick={() => (isSelecting ? exitSelection() : setIsSelecting(true))}
+                className={`p-1.5 rounded-lg transition-colors ${
+                  isSelecting
+                    ? 'bg-indigo-50 text-indigo-600 dark:bg-indigo-900/20 dark:text-indigo-400'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+                }`}
+                title={isSelecting ? 'Done selecting' : 'Select chats'}
+              >
+                <CheckSquare className="w-4 h-4" />
+              </button>
               <button
                 onClick={() => {
                   onNewChat();
@@ -429,8 +720,153 @@ export function ChatSidebar({
             </div>
           </div>
 
+          {/* Search and filters */}
+          <div className="px-3 pt-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-400" />
+                <input
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search titles and messages"
+                  className={`${filterInputClassName} pl-7`}
+                />
+              </div>
+              <button
+                onClick={() => setShowFilters(!showFilters)}
+                className={`p-1.5 rounded-lg transition-colors ${
+                  showFilters || filter.from || filter.to || filter.userId
+                    ? 'bg-indigo-50 text-indigo-600 dark:bg-indigo-900/20 dark:text-indigo-400'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+                }`}
+                title="Filter by date and user"
+              >
+                <Filter className="w-4 h-4" />
+              </button>
+            </div>
+
+            {showFilters && (
+              <div className="grid grid-cols-2 gap-2">
+                <label className="space-y-1">
+                  <span className="text-xs text-gray-500 dark:text-gray-400">From</span>
+                  <input
+                    type="date"
+                    value={fromDate}
+                    max={toDate || undefined}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    className={filterInputClassName}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-gray-500 dark:text-gray-400">To</span>
+                  <input
+                    type="date"
+                    value={toDate}
+                    min={fromDate || undefined}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className={filterInputClassName}
+                  />
+                </label>
+                <label className="col-span-2 space-y-1">
+                  <span className="text-xs text-gray-500 dark:text-gray-400">User</span>
+                  <input
+                    value={userId}
+                    onChange={(e) => setUserId(e.target.value)}
+                    placeholder="Any user"
+                    list="chat-sidebar-users"
+                    className={filterInputClassName}
+                  />
+                  <datalist id="chat-sidebar-users">
+                    {knownUsers.map((user) => (
+                      <option key={user} value={user} />
+                    ))}
+                  </datalist>
+                </label>
+              </div>
+            )}
+
+            {(isFiltered || scanProgress) && (
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <span className="flex items-center gap-1 min-w-0 truncate">
+                  {scanProgress ? (
+                    <>
+                      <Loader2 className="w-3 h-3 animate-spin flex-shrink-0" />
+                      Searching messages {scanProgress.done}/{scanProgress.total}
+                    </>
+                  ) : (
+                    `${filteredChats.length}${isPaged && hasMore ? '+' : ''} matching`
+                  )}
+                </span>
+                {!isContentSearchConfirmed && unscannedChatCount > 0 && (
+                  <button
+                    onClick={() => setContentSearchTerm(filter.search ?? null)}
+                    className="flex-shrink-0 text-indigo-600 dark:text-indigo-400 hover:underline"
+                    title="The agent doesn't search chats, so this loads the messages of each chat whose title doesn't match"
+                  >
+                    Search messages ({unscannedChatCount} chat{unscannedChatCount === 1 ? '' : 's'})
+                  </button>
+                )}
+                {isFiltered && (
+                  <button onClick={clearFilters} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                    Clear
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Bulk actions */}
+          {isSelecting && (
+            <div className="mx-3 mt-3 p-2 space-y-2 border rounded-lg dark:border-gray-700">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={allVisibleSelected}
+                  onChange={() =>
+                    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleChats.map((chat) => chat.id)))
+                  }
+                  title="Select all shown chats"
+                />
+                <span className="flex-1 text-xs text-gray-600 dark:text-gray-400">{selectedIds.size} selected</span>
+                <button
+                  onClick={handleBulkExport}
+                  disabled={selectedChats.length === 0}
+                  className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                  title="Export selected chats to one file"
+                >
+                  <Download className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                </button>
+                <button
+                  onClick={handleBulkDelete}
+                  disabled={selectedChats.length === 0}
+                  className="p-1 rounded hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                  title="Delete selected chats"
+                >
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </button>
+              </div>
+              <div className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400">
+                <span>Delete older than</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={cleanupDays}
+                  onChange={(e) => setCleanupDays(Math.max(1, Number(e.target.value) || 1))}
+                  className={`${filterInputClassName} w-14`}
+                />
+                <span>days</span>
+                <button
+                  onClick={handleCleanup}
+                  className="ml-auto px-2 py-1 text-xs font-medium text-red-600 rounded hover:bg-red-50 dark:hover:bg-red-900/20"
+                >
+                  Find
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Chat List */}
-          <div className="flex-1 overflow-y-auto p-3">
+          <div ref={scrollRef} className="flex-1 overflow-y-auto p-3">
             {loading ? (
               <div className="flex items-center justify-center h-32">
                 <div className="flex items-center gap-2">
@@ -452,17 +888,13 @@ export function ChatSidebar({
                   {error}
                 </div>
                 <button
-                  onClick={() => {
-                    setError(null);
-                    setLoading(true);
-                    // Trigger re-fetch by closing and opening
-                  }}
+                  onClick={() => loadChats(null)}
                   className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
                 >
                   Try again
                 </button>
               </div>
-            ) : chats.length === 0 ? (
+            ) : chats.length === 0 && !isFiltered ? (
               <div className="flex flex-col items-center justify-center h-48 text-center p-6">
                 <div className="w-12 h-12 bg-gray-100 dark:bg-gray-800 rounded-lg flex items-center justify-center mb-4">
                   <MessageSquare className="w-6 h-6 text-gray-400 dark:text-gray-500" />
@@ -475,18 +907,42 @@ export function ChatSidebar({
                   persist enabled
                 </div>
               </div>
+            ) : visibleChats.length === 0 && !hasMore ? (
+              <div className="flex flex-col items-center justify-center h-32 text-center p-6">
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  {scanProgress ? 'Searching messages...' : 'No chats match these filters'}
+                </div>
+              </div>
             ) : (
               <>
                 {renderChatGroup('Today', groupedChats.today)}
                 {renderChatGroup('Yesterday', groupedChats.yesterday)}
                 {renderChatGroup('Previous 7 Days', groupedChats.previous7Days)}
                 {renderChatGroup('Older', groupedChats.older)}
+                {hasMore && (
+                  <div ref={sentinelRef} className="flex items-center justify-center py-3">
+                    {loadingMore ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+                    ) : (
+                      <button
+                        onClick={loadMore}
+                        className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                      >
+                        Load more
+                      </button>
+                    )}
+                  </div>
+                )}
               </>
             )}
           </div>
         </div>
       </div>
 
+      {bulkJob && (
+        <ChatBulkDialog job={bulkJob} onConfirm={() => runBulkJob(bulkJob)} onClose={() => setBulkJob(null)} />
+      )}
+
       {/* Delete Confirmation Dialog */}
       {deleteConfirm && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50">
@@ -495,9 +951,15 @@ export function ChatSidebar({
               Delete Chat
             </h3>
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-              Are you sure you want to delete "{deleteConfirm.title || 'Untitled Chat'}"?
+              Are you sure you want to delete &quot;{deleteConfirm.title || 'Untitled Chat'}&quot;?
               This action cannot be undone.
             </p>
+            {deleteError && (
+              <div className="flex items-start gap-1.5 mb-4 text-xs text-red-600 dark:text-red-400">
+                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                <span>Could not delete the chat: {deleteError}</span>
+              </div>
+            )}
             <div className="flex justify-end gap-3">
               <button
                 onClick={() => setDeleteConfirm(null)}
@@ -507,9 +969,10 @@ export function ChatSidebar({
               </button>
               <button
                 onClick={handleDeleteConfirm}
-                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors"
+                disabled={isDeleting}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
               >
-                Delete
+                {isDeleting ? 'Deleting...' : 'Delete'}
               </button>
             </div>
           </div>
@@ -0,0 +1,250 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { BookOpen, ExternalLink, AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import type { ComparableMessage } from '@/types/compare';
+import type { RetrievedSource, TurnCitationReport } from '@/types/citation';
+import { buildConversationCitations } from '@/utils/citations';
+import { JsonTree } from '@/components/json-tree';
+
+interface CitationInspectorProps {
+  messages: ComparableMessage[];
+}
+
+const SourceCard: React.FC<{
+  source: RetrievedSource;
+  isActive: boolean;
+  onToggleActive: () => void;
+}> = ({ source, isActive, onToggleActive }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isUnused = source.citedBy.length === 0;
+
+  return (
+    <div
+      className={`rounded-lg border text-xs ${
+        isActive
+          ? 'border-indigo-300 dark:border-indigo-700 bg-indigo-50 dark:bg-indigo-900/20'
+          : 'border-gray-200 dark:border-gray-700'
+      }`}
+    >
+      <div className="flex items-start gap-2 p-2">
+        <button
+          onClick={onToggleActive}
+          className="flex-shrink-0 px-1.5 py-0.5 rounded font-mono bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+          title="Highlight the sentences citing this source"
+        >
+          {source.index}
+        </button>
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-1.5">
+            <span className="truncate font-medium text-gray-800 dark:text-gray-200">{source.title || source.key}</span>
+            {source.url && (
+              <a href={source.url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0 text-gray-400 hover:text-gray-600">
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+            {isUnused && (
+              <span className="flex-shrink-0 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                unused
+              </span>
+            )}
+          </div>
+          {source.documentId && <div className="font-mono text-gray-400 truncate">{source.documentId}</div>}
+          <div className="flex items-center gap-2">
+            {source.score !== undefined ? (
+              <>
+                <div className="w-20 h-1.5 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-500"
+                    style={{ width: `${Math.max(0, Math.min(1, source.score)) * 100}%` }}
+                  />
+                </div>
+                <span className="font-mono text-gray-600 dark:text-gray-400">{source.score}</span>
+              </>
+            ) : (
+              <span className="text-gray-400">no score</span>
+            )}
+            <span className="text-gray-400">
+              · cited by {source.citedBy.length} sentence{source.citedBy.length === 1 ? '' : 's'}
+            </span>
+          </div>
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex-shrink-0 p-0.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+          aria-label={isExpanded ? 'Hide chunk' : 'Show chunk'}
+        >
+          {isExpanded ? <ChevronDown className="h-3.5 w-3.5 text-gray-400" /> : <ChevronRight className="h-3.5 w-3.5 text-gray-400" />}
+        </button>
+      </div>
+      {isExpanded && (
+        <div className="px-2 pb-2 space-y-2">
+          {source.chunk ? (
+            <pre className="max-h-48 overflow-auto p-2 font-sans bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded whitespace-pre-wrap">
+              {source.chunk}
+            </pre>
+          ) : (
+            <p className="text-gray-400">No chunk text was sent with this source.</p>
+          )}
+          {Object.keys(source.metadata).length > 0 && (
+            <div className="p-2 rounded bg-gray-50 dark:bg-gray-800">
+              <JsonTree value={source.metadata} defaultExpandDepth={1} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ReportDetails: React.FC<{ report: TurnCitationReport }> = ({ report }) => {
+  const [activeSource, setActiveSource] = useState<number | null>(null);
+
+  return (
+    <div className="space-y-3">
+      {report.citesNothing && (
+        <div className="flex items-start gap-1.5 px-2 py-1.5 rounded-lg text-xs bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+          <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          The response cites none of the {report.sources.length} retrieved sources.
+        </div>
+      )}
+      {!report.citesNothing && report.unusedSourceIndexes.length > 0 && (
+        <div className="flex items-start gap-1.5 px-2 py-1.5 rounded-lg text-xs bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200">
+          <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          {report.unusedSourceIndexes.length} of {report.sources.length} retrieved sources were never used (
+          {report.unusedSourceIndexes.map((index) => `#${index}`).join(', ')}).
+        </div>
+      )}
+
+      {/* Sentence to source map */}
+      <div className="space-y-1">
+        <div className="text-xs font-medium text-gray-500 dark:text-gray-400">Response</div>
+        {report.sentences.map((sentence) => {
+          const isHighlighted =
+            activeSource !== null && sentence.citations.some((citation) => citation.sourceIndex === activeSource);
+          return (
+            <div
+              key={sentence.index}
+              className={`flex items-start gap-2 px-2 py-1 rounded text-xs ${
+                isHighlighted ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''
+              }`}
+            >
+              <span
+                className={`flex-1 ${
+                  sentence.citations.length > 0 ? 'text-gray-800 dark:text-gray-200' : 'text-gray-400 dark:text-gray-500'
+                }`}
+              >
+                {sentence.text}
+              </span>
+              <span className="flex flex-shrink-0 gap-0.5">
+                {sentence.citations.map((citation) => (
+                  <button
+                    key={citation.sourceIndex}
+                    onClick={() => setActiveSource(activeSource === citation.sourceIndex ? null : citation.sourceIndex)}
+                    className={`px-1 rounded font-mono ${
+                      citation.method === 'marker'
+                        ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300'
+                        : 'border border-dashed border-indigo-300 text-indigo-600 dark:border-indigo-700 dark:text-indigo-300'
+                    }`}
+                    title={citation.method === 'marker' ? 'Cited with a marker' : 'Matched by word overlap with the chunk'}
+                  >
+                    {citation.method === 'overlap' && '≈'}
+                    {citation.sourceIndex}
+                  </button>
+                ))}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Retrieved sources */}
+      <div className="space-y-1.5">
+        <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+          Retrieved sources ({report.sources.length})
+        </div>
+        {report.sources.map((source) => (
+          <SourceCard
+            key={source.index}
+            source={source}
+            isActive={activeSource === source.index}
+            onToggleActive={() => setActiveSource(activeSource === source.index ? null : source.index)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Retrieved knowledge sources per turn and which response sentences cite them
+export function CitationInspector({ messages }: CitationInspectorProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const reports = useMemo(() => buildConversationCitations(messages), [messages]);
+
+  // Follow the newest turn unless the user picked one that still exists
+  useEffect(() => {
+    if (!selectedId || !reports.some((r) => r.messageId === selectedId)) {
+      setSelectedId(reports.length > 0 ? reports[reports.length - 1].messageId : null);
+    }
+  }, [reports, selectedId]);
+
+  if (reports.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-48 text-center p-6">
+        <BookOpen className="w-6 h-6 text-gray-400 mb-3" />
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          No knowledge sources yet. Responses that retrieve sources show up here with their citations.
+        </div>
+      </div>
+    );
+  }
+
+  const selected = reports.find((r) => r.messageId === selectedId) || null;
+  const citingNothing = reports.filter((r) => r.citesNothing).length;
+  const unusedSources = reports.reduce((sum, r) => sum + r.unusedSourceIndexes.length, 0);
+  const totalSources = reports.reduce((sum, r) => sum + r.sources.length, 0);
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      {/* Turn list */}
+      <div className="max-h-48 overflow-y-auto border-b dark:border-gray-700 p-2 space-y-1">
+        <div className="px-2 pb-1 text-xs text-gray-500 dark:text-gray-400">
+          {reports.length} turn{reports.length === 1 ? '' : 's'} · {totalSources} sources · {unusedSources} unused
+          {citingNothing > 0 && <span className="text-red-600 dark:text-red-400"> · {citingNothing} citing nothing</span>}
+        </div>
+        {reports
+          .slice()
+          .reverse()
+          .map((report) => (
+            <button
+              key={report.messageId}
+              onClick={() => setSelectedId(report.messageId)}
+              className={`w-full text-left px-2 py-1.5 rounded-lg text-xs transition-colors ${
+                report.messageId === selectedId
+                  ? 'bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800'
+                  : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-gray-800 dark:text-gray-200">{report.preview || '(empty response)'}</span>
+                {report.citesNothing ? (
+                  <span className="flex-shrink-0 px-1.5 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                    cites nothing
+                  </span>
+                ) : (
+                  <span className="flex-shrink-0 text-gray-400">
+                    {report.sources.length - report.unusedSourceIndexes.length}/{report.sources.length} used
+                  </span>
+                )}
+              </div>
+            </button>
+          ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto min-h-0 p-2">
+        {selected && <ReportDetails key={selected.messageId} report={selected} />}
+      </div>
+    </div>
+  );
+}
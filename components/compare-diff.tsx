@@ -0,0 +1,250 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Wrench, BookOpen, GitCompare } from 'lucide-react';
+import type { TurnComparison, TextDiffSegment, ToolCallDiff } from '@/types/compare';
+import type { TurnMetrics } from '@/types/stream';
+import { hasDifferences } from '@/utils/agent-compare';
+import { formatMs } from '@/utils/stream-metrics';
+
+interface CompareDiffProps {
+  comparisons: TurnComparison[];
+  leftLabel: string;
+  rightLabel: string;
+  // Latency per response message id, when the turn was captured
+  metricsByMessageId?: Record<string, TurnMetrics>;
+  emptyText?: string;
+  // Show both full responses side by side above the diff
+  showResponses?: boolean;
+}
+
+const SEGMENT_CLASSES: Record<TextDiffSegment['type'], string> = {
+  equal: 'text-gray-700 dark:text-gray-300',
+  removed: 'bg-red-100 text-red-800 line-through dark:bg-red-900/30 dark:text-red-300',
+  added: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+};
+
+const TOOL_STATUS_CLASSES: Record<ToolCallDiff['status'], string> = {
+  both: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  'left-only': 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  'right-only': 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+};
+
+const formatArgs = (args: any) => (args === undefined ? '—' : JSON.stringify(args, null, 2));
+
+export const TextDiffView: React.FC<{ segments: TextDiffSegment[] }> = ({ segments }) => (
+  <div className="p-2 text-xs leading-relaxed whitespace-pre-wrap break-words bg-gray-50 dark:bg-gray-800 rounded max-h-64 overflow-y-auto">
+    {segments.length === 0 && <span className="text-gray-400">(both empty)</span>}
+    {segments.map((segment, index) => (
+      <span key={index} className={SEGMENT_CLASSES[segment.type]}>
+        {segment.text}
+      </span>
+    ))}
+  </div>
+);
+
+const ToolDiffRow: React.FC<{ diff: ToolCallDiff; leftLabel: string; rightLabel: string }> = ({
+  diff,
+  leftLabel,
+  rightLabel,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const label =
+    diff.status === 'left-only'
+      ? `only ${leftLabel}`
+      : diff.status === 'right-only'
+        ? `only ${rightLabel}`
+        : diff.argsEqual
+          ? 'same args'
+          : 'args differ';
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 text-left text-xs"
+      >
+        {isExpanded ? <ChevronDown className="h-3 w-3 text-gray-400" /> : <ChevronRight className="h-3 w-3 text-gray-400" />}
+        <span className={`px-1.5 py-0.5 rounded font-mono ${TOOL_STATUS_CLASSES[diff.status]}`}>{diff.toolName}</span>
+        <span className={diff.status === 'both' && diff.argsEqual ? 'text-gray-400' : 'text-amber-600 dark:text-amber-400'}>
+          {label}
+        </span>
+      </button>
+      {isExpanded && (
+        <div className="grid grid-cols-2 gap-1 mt-1">
+          {[diff.leftArgs, diff.rightArgs].map((args, index) => (
+            <pre
+              key={index}
+              className="p-1.5 text-xs font-mono bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded overflow-x-auto max-h-40"
+            >
+              {formatArgs(args)}
+            </pre>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TurnComparisonCard: React.FC<{
+  comparison: TurnComparison;
+  leftLabel: string;
+  rightLabel: string;
+  metricsByMessageId?: Record<string, TurnMetrics>;
+  showResponses?: boolean;
+}> = ({ comparison, leftLabel, rightLabel, metricsByMessageId, showResponses }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const differs = hasDifferences(comparison);
+  const { sourceDiff } = comparison;
+  const hasSources = sourceDiff.shared.length + sourceDiff.leftOnly.length + sourceDiff.rightOnly.length > 0;
+  const leftMetrics = comparison.left && metricsByMessageId?.[comparison.left.id];
+  const rightMetrics = comparison.right && metricsByMessageId?.[comparison.right.id];
+
+  return (
+    <div className="border rounded-lg dark:border-gray-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-800 rounded-lg"
+      >
+        {isOpen ? <ChevronDown className="h-3.5 w-3.5 text-gray-400" /> : <ChevronRight className="h-3.5 w-3.5 text-gray-400" />}
+        <span className="text-xs text-gray-400">#{comparison.index + 1}</span>
+        <span className="flex-1 text-xs text-gray-800 dark:text-gray-200 truncate">{comparison.prompt}</span>
+        <span
+          className={`flex-shrink-0 px-1.5 py-0.5 text-xs rounded ${
+            differs
+              ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'
+              : 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+          }`}
+        >
+          {Math.round(comparison.textSimilarity * 100)}% text match
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3">
+          {(!comparison.left || !comparison.right) && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Waiting for {!comparison.left ? leftLabel : rightLabel} to respond...
+            </p>
+          )}
+
+          {(leftMetrics || rightMetrics) && (
+            <div className="grid grid-cols-2 gap-2 text-xs text-gray-500 dark:text-gray-400">
+              {[leftMetrics, rightMetrics].map((metrics, index) => (
+                <div key={index}>
+                  {metrics
+                    ? `TTFT ${formatMs(metrics.timeToFirstTokenMs)} · total ${formatMs(metrics.totalDurationMs)}`
+                    : '—'}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {showResponses && (
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { label: leftLabel, message: comparison.left },
+                { label: rightLabel, message: comparison.right },
+              ].map(({ label, message }, index) => (
+                <div key={index} className="min-w-0">
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{label}</div>
+                  <div className="p-2 text-xs whitespace-pre-wrap break-words text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-800 rounded max-h-64 overflow-y-auto">
+                    {message?.content || <span className="text-gray-400">—</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <TextDiffView segments={comparison.textDiff} />
+
+          {comparison.toolDiff.length > 0 && (
+            <div className="space-y-1">
+              <div className="flex items-center gap-1 text-xs font-medium text-gray-600 dark:text-gray-400">
+                <Wrench className="h-3 w-3" />
+                Tool calls
+              </div>
+              {comparison.toolDiff.map((diff, index) => (
+                <ToolDiffRow key={index} diff={diff} leftLabel={leftLabel} rightLabel={rightLabel} />
+              ))}
+            </div>
+          )}
+
+          {hasSources && (
+            <div className="space-y-1">
+              <div className="flex items-center gap-1 text-xs font-medium text-gray-600 dark:text-gray-400">
+                <BookOpen className="h-3 w-3" />
+                Knowledge sources
+              </div>
+              <div className="flex flex-wrap gap-1 text-xs font-mono">
+                {sourceDiff.shared.map((key) => (
+                  <span key={`s-${key}`} className={`px-1.5 py-0.5 rounded ${TOOL_STATUS_CLASSES.both}`} title="Cited by both">
+                    {key}
+                  </span>
+                ))}
+                {sourceDiff.leftOnly.map((key) => (
+                  <span key={`l-${key}`} className={`px-1.5 py-0.5 rounded ${TOOL_STATUS_CLASSES['left-only']}`} title={`Only ${leftLabel}`}>
+                    {key}
+                  </span>
+                ))}
+                {sourceDiff.rightOnly.map((key) => (
+                  <span key={`r-${key}`} className={`px-1.5 py-0.5 rounded ${TOOL_STATUS_CLASSES['right-only']}`} title={`Only ${rightLabel}`}>
+                    {key}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Per-turn diff of two transcripts: text, tool calls and knowledge sources
+export function CompareDiff({
+  comparisons,
+  leftLabel,
+  rightLabel,
+  metricsByMessageId,
+  emptyText,
+  showResponses,
+}: CompareDiffProps) {
+  const differingCount = comparisons.filter(hasDifferences).length;
+
+  if (comparisons.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-48 text-center p-6">
+        <GitCompare className="w-6 h-6 text-gray-400 mb-3" />
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          {emptyText || 'Send a prompt to compare both agents.'}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+        <span className="flex items-center gap-1 min-w-0">
+          <span className={`px-1.5 py-0.5 rounded truncate ${TOOL_STATUS_CLASSES['left-only']}`}>{leftLabel}</span>
+          vs
+          <span className={`px-1.5 py-0.5 rounded truncate ${TOOL_STATUS_CLASSES['right-only']}`}>{rightLabel}</span>
+        </span>
+        <span>
+          {differingCount} of {comparisons.length} turns differ
+        </span>
+      </div>
+      {comparisons.map((comparison) => (
+        <TurnComparisonCard
+          key={comparison.index}
+          comparison={comparison}
+          leftLabel={leftLabel}
+          rightLabel={rightLabel}
+          metricsByMessageId={metricsByMessageId}
+          showResponses={showResponses}
+        />
+      ))}
+    </div>
+  );
+}
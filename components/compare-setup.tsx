@@ -0,0 +1,179 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, GitCompare, AlertCircle, X } from 'lucide-react';
+import type { ConnectionProfile } from '@/types/agent';
+import type { CompareTarget } from '@/types/compare';
+import {
+  DEFAULT_AUTH_SCHEME,
+  FORWARDED_AGENT_HEADERS,
+  buildAuthHeaders,
+  encodeForwardedHeaders,
+  getAgentRequestHeaders,
+  isSameAgentUrl,
+} from '@/utils/agent-headers';
+
+interface CompareSetupProps {
+  // Service URL of the primary connection
+  primaryServiceUrl: string;
+  profiles: ConnectionProfile[];
+  persist: boolean;
+  compareTarget: CompareTarget | null;
+  onStartCompare: (target: CompareTarget) => void;
+  onStopCompare: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Connects a second agent (from a saved profile or a manual URL) for comparison mode
+export function CompareSetup({
+  primaryServiceUrl,
+  profiles,
+  persist,
+  compareTarget,
+  onStartCompare,
+  onStopCompare,
+}: CompareSetupProps) {
+  const [profileId, setProfileId] = useState('');
+  const [serviceUrl, setServiceUrl] = useState('');
+  const [authToken, setAuthToken] = useState('');
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const profile = profiles.find((p) => p.id === profileId) || null;
+  const targetUrl = profile ? profile.serviceUrl : serviceUrl;
+
+  const handleStart = async () => {
+    if (!targetUrl) return;
+    // Requests to one URL can't be told apart, so both panes would share one set of credentials
+    if (isSameAgentUrl(targetUrl, primaryServiceUrl)) {
+      setError('The comparison agent must use a different service URL than the primary connection');
+      return;
+    }
+    setIsDiscovering(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/discover', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [FORWARDED_AGENT_HEADERS]: encodeForwardedHeaders(
+            profile ? getAgentRequestHeaders(profile) : buildAuthHeaders(authToken)
+          ),
+        },
+        body: JSON.stringify({ url: targetUrl }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to discover agent');
+      }
+
+      onStartCompare({
+        serviceUrl: targetUrl,
+        authToken: profile ? profile.authToken : authToken,
+        authScheme: profile ? profile.authScheme : DEFAULT_AUTH_SCHEME,
+        // Comparison chats follow the primary connection's persist setting
+        persist,
+        customHeaders: profile ? profile.customHeaders : {},
+        label: profile?.name || result.data.name || targetUrl,
+        agentInfo: result.data,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discover agent');
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
+  if (compareTarget) {
+    return (
+      <div className="space-y-3">
+        <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg border dark:border-gray-700 text-sm">
+          <div className="font-medium text-gray-900 dark:text-white truncate">
+            {compareTarget.label}
+            <span className="ml-2 px-1.5 py-0.5 text-xs bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded">
+              v{compareTarget.agentInfo.version}
+            </span>
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate">{compareTarget.serviceUrl}</div>
+        </div>
+        <button
+          onClick={onStopCompare}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+        >
+          <X className="h-4 w-4" />
+          Stop Comparing
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Connect a second agent. Every prompt is sent to both and the responses are diffed per turn.
+      </p>
+
+      {profiles.length > 0 && (
+        <select
+          value={profileId}
+          onChange={(e) => setProfileId(e.target.value)}
+          className={inputClassName}
+        >
+          <option value="">Enter URL manually</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {!profile && (
+        <>
+          <input
+            type="text"
+            value={serviceUrl}
+            onChange={(e) => setServiceUrl(e.target.value)}
+            placeholder="http://localhost:3001"
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={authToken}
+            onChange={(e) => setAuthToken(e.target.value)}
+            placeholder="Auth token (optional)"
+            className={inputClassName}
+          />
+        </>
+      )}
+
+      <button
+        onClick={handleStart}
+        disabled={isDiscovering || !targetUrl}
+        className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold text-white rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors bg-gray-600 hover:bg-gray-700"
+      >
+        {isDiscovering ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Discovering...
+          </>
+        ) : (
+          <>
+            <GitCompare className="h-4 w-4" />
+            Compare
+          </>
+        )}
+      </button>
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 rounded-lg">
+          <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { ChatContainer, useChatStream, type ChatMessage } from '@newhomestar/chat-ui';
+import { GitCompare } from 'lucide-react';
+import type { AgentConfig } from '@/types/agent';
+import type { CompareTarget, ComparableMessage } from '@/types/compare';
+import type { TurnMetrics } from '@/types/stream';
+import { useStreamTurns } from '@/hooks/use-stream-turns';
+import { setAgentRequestHeaders } from '@/utils/agent-headers';
+import { compareTranscripts } from '@/utils/agent-compare';
+import { pinTurnsToMessages } from '@/utils/stream-capture';
+import { computeMessageMetrics } from '@/utils/stream-metrics';
+import { CompareDiff } from '@/components/compare-diff';
+
+interface CompareViewProps {
+  chatId: string;
+  target: CompareTarget;
+  primaryLabel: string;
+  primaryServiceUrl: string;
+  primaryAgentInfo: AgentConfig;
+  messages: ChatMessage[];
+  isLoading: boolean;
+  isStreaming: boolean;
+  userName?: string;
+  userAvatar?: string;
+  onSendMessage: (content: string | ChatMessage) => void;
+  onRetryMessage: (messageId: string) => void;
+  onError: (errorMessage: string) => void;
+}
+
+const createCompareChatId = () => `compare-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const ColumnHeader: React.FC<{ label: string; agentInfo: AgentConfig; serviceUrl: string }> = ({
+  label,
+  agentInfo,
+  serviceUrl,
+}) => (
+  <div className="flex items-center gap-2 px-4 py-2 border-b dark:border-gray-700 bg-gray-50 dark:bg-gray-900">
+    <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{label}</span>
+    <span className="px-1.5 py-0.5 text-xs bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded">
+      v{agentInfo.version}
+    </span>
+    <span className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate">{serviceUrl}</span>
+  </div>
+);
+
+// Two agents side by side: every prompt goes to both and the responses are diffed per turn
+export function CompareView({
+  chatId,
+  target,
+  primaryLabel,
+  primaryServiceUrl,
+  primaryAgentInfo,
+  messages,
+  isLoading,
+  isStreaming,
+  userName,
+  userAvatar,
+  onSendMessage,
+  onRetryMessage,
+  onError,
+}: CompareViewProps) {
+  const [compareChatId, setCompareChatId] = useState(createCompareChatId);
+
+  // Start a fresh comparison chat whenever the primary chat is reset or switched
+  useEffect(() => {
+    setCompareChatId(createCompareChatId());
+  }, [chatId, target]);
+
+  // Apply the comparison target's credentials and custom headers to its requests
+  useEffect(() => {
+    setAgentRequestHeaders(target, 'compare');
+    return () => setAgentRequestHeaders(null, 'compare');
+  }, [target]);
+
+  const {
+    messages: compareMessages,
+    isLoading: isCompareLoading,
+    isStreaming: isCompareStreaming,
+    sendMessage: sendCompareMessage,
+  } = useChatStream({
+    apiUrl: target.serviceUrl,
+    agentId: target.agentInfo.agent_id || target.agentInfo.name,
+    chatId: compareChatId,
+    authToken: target.authToken || 'demo-token',
+    settings: {
+      persist: target.persist,
+    },
+    onError: (errorMessage) => {
+      onError(`[${target.label}] ${errorMessage}`);
+    },
+  });
+
+  const handleSendMessage = useCallback(
+    (content: string | ChatMessage) => {
+      onSendMessage(content);
+      sendCompareMessage(content);
+    },
+    [onSendMessage, sendCompareMessage]
+  );
+
+  // Retry only resends to the side it was clicked on
+  const handleRetryCompareMessage = useCallback(
+    (messageId: string) => {
+      const messageIndex = compareMessages.findIndex((m: any) => m.id === messageId);
+      const previousUserMessage = compareMessages
+        .slice(0, messageIndex)
+        .reverse()
+        .find((m: any) => m.role === 'user');
+      if (previousUserMessage) {
+        sendCompareMessage(previousUserMessage.annotation ? previousUserMessage : previousUserMessage.content);
+      }
+    },
+    [compareMessages, sendCompareMessage]
+  );
+
+  const comparisons = useMemo(
+    () => compareTranscripts(messages as ComparableMessage[], compareMessages as ComparableMessage[]),
+    [messages, compareMessages]
+  );
+
+  // Latency for each response, from the captured stream turns of both chats
+  const streamTurns = useStreamTurns();
+  const metricsByMessageId = useMemo(() => {
+    const metrics: Record<string, TurnMetrics> = {};
+    [
+      { id: chatId, chatMessages: messages },
+      { id: compareChatId, chatMessages: compareMessages },
+    ].forEach(({ id, chatMessages }) => {
+      const pinned = pinTurnsToMessages(
+        streamTurns.filter((turn) => turn.chatId === id),
+        chatMessages as ComparableMessage[]
+      );
+      (chatMessages as ComparableMessage[]).forEach((message) => {
+        if (pinned[message.id]) metrics[message.id] = computeMessageMetrics(message, pinned[message.id]);
+      });
+    });
+    return metrics;
+  }, [streamTurns, chatId, compareChatId, messages, compareMessages]);
+
+  return (
+    <div className="flex-1 flex min-w-0 min-h-0">
+      {/* Primary agent */}
+      <div className="flex-1 flex flex-col min-w-0 min-h-0 border-r dark:border-gray-700">
+        <ColumnHeader label={primaryLabel} agentInfo={primaryAgentInfo} serviceUrl={primaryServiceUrl} />
+        <ChatContainer
+          key={chatId}
+          chatId={chatId}
+          messages={messages as any}
+          isLoading={isLoading}
+          isStreaming={isStreaming}
+          userName={userName}
+          userAvatar={userAvatar}
+          agentName={primaryAgentInfo.name}
+          agentLogoUrl={primaryAgentInfo.logo_url || primaryAgentInfo.avatar_url}
+          apiUrl={primaryServiceUrl}
+          onSendMessage={handleSendMessage}
+          onRetryMessage={onRetryMessage}
+          inputPlaceholder="Send a prompt to both agents..."
+          showPromptsWhen="empty"
+        />
+      </div>
+
+      {/* Comparison agent */}
+      <div className="flex-1 flex flex-col min-w-0 min-h-0 border-r dark:border-gray-700">
+        <ColumnHeader label={target.label} agentInfo={target.agentInfo} serviceUrl={target.serviceUrl} />
+        <ChatContainer
+          key={compareChatId}
+          chatId={compareChatId}
+          messages={compareMessages as any}
+          isLoading={isCompareLoading}
+          isStreaming={isCompareStreaming}
+          userName={userName}
+          userAvatar={userAvatar}
+          agentName={target.agentInfo.name}
+          agentLogoUrl={target.agentInfo.logo_url || target.agentInfo.avatar_url}
+          apiUrl={target.serviceUrl}
+          onSendMessage={handleSendMessage}
+          onRetryMessage={handleRetryCompareMessage}
+          inputPlaceholder="Send a prompt to both agents..."
+          showPromptsWhen="empty"
+        />
+      </div>
+
+      {/* Per-turn diff */}
+      <div className="w-[380px] flex-shrink-0 flex flex-col min-h-0 bg-white dark:bg-gray-900">
+        <div className="flex items-center gap-1.5 px-3 py-2.5 border-b dark:border-gray-700 text-xs font-medium text-gray-900 dark:text-white">
+          <GitCompare className="h-3.5 w-3.5" />
+          Turn Diff
+        </div>
+        <div className="flex-1 overflow-y-auto min-h-0">
+          <CompareDiff
+            comparisons={comparisons}
+            leftLabel={primaryLabel}
+            rightLabel={target.label}
+            metricsByMessageId={metricsByMessageId}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
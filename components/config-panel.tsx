@@ -11,15 +11,51 @@ import {
   AlertCircle,
   Terminal,
   Wrench,
+  BookMarked,
   RefreshCw,
   RotateCcw,
   X,
   GripVertical,
   Sun,
   Moon,
-  Download,
+  Plug,
+  HeartPulse,
+  ScanSearch,
+  Timer,
+  GitCompare,
+  Bot,
+  ShieldCheck,
+  Zap,
 } from 'lucide-react';
-import type { AgentConfig, AgentStatus, STORAGE_KEYS } from '@/types/agent';
+import type {
+  AgentConfig,
+  AgentStatus,
+  AgentHealthSample,
+  AuthScheme,
+  ConnectionProfile,
+  ConformanceReport as ConformanceReportData,
+  DiscoveryAttempt,
+  STORAGE_KEYS,
+} from '@/types/agent';
+import { PanelSection } from '@/components/panel-section';
+import { ConnectionProfiles } from '@/components/connection-profiles';
+import { HeaderEditor } from '@/components/header-editor';
+import { DEFAULT_API_KEY_HEADER, DEFAULT_AUTH_SCHEME } from '@/utils/agent-headers';
+import { ToolExplorer } from '@/components/tool-explorer';
+import { McpInspector } from '@/components/mcp-inspector';
+import { HealthMonitor } from '@/components/health-monitor';
+import { SessionMetricsSummary } from '@/components/stream-metrics';
+import type { SessionMetrics } from '@/types/stream';
+import type { CompareTarget } from '@/types/compare';
+import { CompareSetup } from '@/components/compare-setup';
+import { MockAgentPanel } from '@/components/mock-agent-panel';
+import { ConformanceReport } from '@/components/conformance-report';
+import { DiscoveryTrace } from '@/components/discovery-trace';
+import { FaultInjectionPanel } from '@/components/fault-injection-panel';
+import { useFaultInjection } from '@/hooks/use-fault-injection';
+import { hasActiveFaults } from '@/utils/fault-injection';
+import { TranscriptMenu } from '@/components/transcript-menu';
+import type { ImportedTranscript, TranscriptExportOptions, TranscriptFormat } from '@/types/transcript';
 
 const STORAGE = {
   SERVICE_URL: 'nova-debugger-service-url',
@@ -28,6 +64,32 @@ const STORAGE = {
   PANEL_WIDTH: 'nova-debugger-panel-width',
 } as const;
 
+const AUTH_TOKEN_LABELS: Record<AuthScheme['type'], string> = {
+  bearer: 'Auth Token',
+  'api-key': 'API Key',
+  basic: 'Password',
+};
+
+const createAuthScheme = (type: AuthScheme['type']): AuthScheme => {
+  switch (type) {
+    case 'api-key':
+      return { type, headerName: DEFAULT_API_KEY_HEADER };
+    case 'basic':
+      return { type, username: '' };
+    default:
+      return DEFAULT_AUTH_SCHEME;
+  }
+};
+
+// Host shown for an endpoint URL (the URL itself when it does not parse)
+const getUrlHost = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
 const MIN_PANEL_WIDTH = 280;
 const MAX_PANEL_WIDTH = 600;
 const DEFAULT_PANEL_WIDTH = 320;
@@ -37,14 +99,30 @@ interface ConfigPanelProps {
   onToggle: () => void;
   serviceUrl: string;
   authToken: string;
+  authScheme: AuthScheme;
   persist: boolean;
+  customHeaders: Record<string, string>;
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
   agentInfo: AgentConfig | null;
+  conformance: ConformanceReportData | null;
   status: AgentStatus;
   error: string | null;
+  discoveryAttempts: DiscoveryAttempt[];
   isDiscovering: boolean;
   onServiceUrlChange: (url: string) => void;
   onAuthTokenChange: (token: string) => void;
+  onAuthSchemeChange: (scheme: AuthScheme) => void;
   onPersistChange: (persist: boolean) => void;
+  proxyMode: boolean;
+  onProxyModeChange: (enabled: boolean) => void;
+  // Declared endpoints on another origin than the service
+  crossOriginEndpointUrls: string[];
+  allowCrossOriginEndpoints: boolean;
+  onAllowCrossOriginEndpointsChange: (allowed: boolean) => void;
+  onCustomHeadersChange: (headers: Record<string, string>) => void;
+  onProfilesChange: (profiles: ConnectionProfile[]) => void;
+  onSelectProfile: (profile: ConnectionProfile | null) => void;
   onDiscover: () => void;
   onClearConfig: () => void;
   onResetChat: () => void;
@@ -53,7 +131,24 @@ interface ConfigPanelProps {
   isDark: boolean;
   onToggleDarkMode: () => void;
   hasMessages: boolean;
-  onExportChat: () => void;
+  onExportChat: (format: TranscriptFormat, options: TranscriptExportOptions) => void;
+  onImportTranscript: (transcript: ImportedTranscript) => void;
+  healthUrl: string | null;
+  healthSamples: AgentHealthSample[];
+  isInspectorOpen: boolean;
+  onToggleInspector: () => void;
+  // Tool composer toggle, shown when the agent advertises tools
+  canCompose: boolean;
+  isComposerOpen: boolean;
+  onToggleComposer: () => void;
+  canUsePrompts: boolean;
+  isPromptLibraryOpen: boolean;
+  onTogglePromptLibrary: () => void;
+  sessionMetrics: SessionMetrics;
+  compareTarget: CompareTarget | null;
+  onStartCompare: (target: CompareTarget) => void;
+  onStopCompare: () => void;
+  onUseMockAgent: (serviceUrl: string) => void;
 }
 
 export function ConfigPanel({
@@ -61,14 +156,29 @@ export function ConfigPanel({
   onToggle,
   serviceUrl,
   authToken,
+  authScheme,
   persist,
+  customHeaders,
+  profiles,
+  activeProfileId,
   agentInfo,
+  conformance,
   status,
   error,
+  discoveryAttempts,
   isDiscovering,
   onServiceUrlChange,
   onAuthTokenChange,
+  onAuthSchemeChange,
   onPersistChange,
+  proxyMode,
+  onProxyModeChange,
+  crossOriginEndpointUrls,
+  allowCrossOriginEndpoints,
+  onAllowCrossOriginEndpointsChange,
+  onCustomHeadersChange,
+  onProfilesChange,
+  onSelectProfile,
   onDiscover,
   onClearConfig,
   onResetChat,
@@ -78,8 +188,25 @@ export function ConfigPanel({
   onToggleDarkMode,
   hasMessages,
   onExportChat,
+  onImportTranscript,
+  healthUrl,
+  healthSamples,
+  isInspectorOpen,
+  onToggleInspector,
+  canCompose,
+  isComposerOpen,
+  onToggleComposer,
+  canUsePrompts,
+  isPromptLibraryOpen,
+  onTogglePromptLibrary,
+  sessionMetrics,
+  compareTarget,
+  onStartCompare,
+  onStopCompare,
+  onUseMockAgent,
 }: ConfigPanelProps) {
   const [isResizing, setIsResizing] = useState(false);
+  const { config: faultConfig } = useFaultInjection();
   const panelRef = useRef<HTMLDivElement>(null);
 
   // Handle resize
@@ -151,18 +278,49 @@ export function ConfigPanel({
           right: isOpen ? `${panelWidth + 20}px` : '16px',
         }}
       >
-        {/* Export Chat Button - Only visible when there are messages */}
-        {hasMessages && (
+        {/* Transcript export / import */}
+        <TranscriptMenu hasMessages={hasMessages} onExport={onExportChat} onImport={onImportTranscript} />
+
+        {/* Prompt Library Toggle */}
+        {canUsePrompts && (
           <button
-            onClick={onExportChat}
-            className="p-2 rounded-lg border bg-white dark:bg-gray-800 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-            aria-label="Export chat"
-            title="Export chat as JSON"
+            onClick={onTogglePromptLibrary}
+            className={`p-2 rounded-lg border dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors ${
+              isPromptLibraryOpen ? 'bg-indigo-50 dark:bg-indigo-900/30' : 'bg-white dark:bg-gray-800'
+            }`}
+            aria-label={isPromptLibraryOpen ? 'Close prompt library' : 'Open prompt library'}
+            title="Prompt Library"
           >
-            <Download className="h-5 w-5 text-gray-600 dark:text-gray-300" />
+            <BookMarked className="h-5 w-5 text-gray-600 dark:text-gray-300" />
           </button>
         )}
 
+        {/* Tool Composer Toggle */}
+        {canCompose && (
+          <button
+            onClick={onToggleComposer}
+            className={`p-2 rounded-lg border dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors ${
+              isComposerOpen ? 'bg-indigo-50 dark:bg-indigo-900/30' : 'bg-white dark:bg-gray-800'
+            }`}
+            aria-label={isComposerOpen ? 'Close tool composer' : 'Open tool composer'}
+            title="Tool Composer"
+          >
+            <Wrench className="h-5 w-5 text-gray-600 dark:text-gray-300" />
+          </button>
+        )}
+
+        {/* Inspector Toggle */}
+        <button
+          onClick={onToggleInspector}
+          className={`p-2 rounded-lg border dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors ${
+            isInspectorOpen ? 'bg-indigo-50 dark:bg-indigo-900/30' : 'bg-white dark:bg-gray-800'
+          }`}
+          aria-label={isInspectorOpen ? 'Close inspector' : 'Open inspector'}
+          title="Inspector"
+        >
+          <ScanSearch className="h-5 w-5 text-gray-600 dark:text-gray-300" />
+        </button>
+
         {/* Dark Mode Toggle */}
         <button
           onClick={onToggleDarkMode}
@@ -235,6 +393,15 @@ export function ConfigPanel({
                 Connection
               </h3>
 
+              {/* Connection Profiles */}
+              <ConnectionProfiles
+                profiles={profiles}
+                activeProfileId={activeProfileId}
+                config={{ serviceUrl, authToken, authScheme, persist, customHeaders }}
+                onProfilesChange={onProfilesChange}
+                onSelectProfile={onSelectProfile}
+              />
+
               {/* Service URL */}
               <div className="space-y-2">
                 <label
@@ -256,13 +423,54 @@ export function ConfigPanel({
                 </div>
               </div>
 
+              {/* Auth Scheme */}
+              <div className="space-y-2">
+                <label
+                  htmlFor="auth-scheme"
+                  className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Authentication
+                </label>
+                <select
+                  id="auth-scheme"
+                  value={authScheme.type}
+                  onChange={(e) => onAuthSchemeChange(createAuthScheme(e.target.value as AuthScheme['type']))}
+                  className="w-full px-3 py-2 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="bearer">Bearer token</option>
+                  <option value="api-key">API key header</option>
+                  <option value="basic">Basic auth</option>
+                </select>
+                {authScheme.type === 'api-key' && (
+                  <input
+                    type="text"
+                    value={authScheme.headerName}
+                    onChange={(e) => onAuthSchemeChange({ type: 'api-key', headerName: e.target.value })}
+                    placeholder="Header name (e.g. X-API-Key)"
+                    aria-label="API key header name"
+                    className="w-full px-3 py-2 text-sm font-mono border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                )}
+                {authScheme.type === 'basic' && (
+                  <input
+                    type="text"
+                    value={authScheme.username}
+                    onChange={(e) => onAuthSchemeChange({ type: 'basic', username: e.target.value })}
+                    placeholder="Username"
+                    aria-label="Basic auth username"
+                    autoComplete="off"
+                    className="w-full px-3 py-2 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                )}
+              </div>
+
               {/* Auth Token */}
               <div className="space-y-2">
                 <label
                   htmlFor="auth-token"
                   className="text-sm font-medium text-gray-700 dark:text-gray-300"
                 >
-                  Auth Token
+                  {AUTH_TOKEN_LABELS[authScheme.type]}
                 </label>
                 <div className="relative">
                   <Key className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
@@ -271,12 +479,20 @@ export function ConfigPanel({
                     type="password"
                     value={authToken}
                     onChange={(e) => onAuthTokenChange(e.target.value)}
-                    placeholder="Enter auth token (optional)"
+                    placeholder={`Enter ${AUTH_TOKEN_LABELS[authScheme.type].toLowerCase()} (optional)`}
                     className="w-full pl-10 pr-3 py-2 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                   />
                 </div>
               </div>
 
+              {/* Custom Headers */}
+              <div className="space-y-2">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Custom Headers
+                </span>
+                <HeaderEditor headers={customHeaders} onChange={onCustomHeadersChange} />
+              </div>
+
               {/* Persist Toggle */}
               <div className="flex items-center justify-between py-2">
                 <div className="flex flex-col">
@@ -307,6 +523,69 @@ export function ConfigPanel({
                 </button>
               </div>
 
+              {/* Proxy Mode Toggle */}
+              <div className="flex items-center justify-between py-2">
+                <div className="flex flex-col">
+                  <label
+                    htmlFor="proxy-toggle"
+                    className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                  >
+                    Proxy Mode
+                  </label>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    Route agent requests through the debugger server (no CORS needed)
+                  </span>
+                </div>
+                <button
+                  id="proxy-toggle"
+                  role="switch"
+                  aria-checked={proxyMode}
+                  onClick={() => onProxyModeChange(!proxyMode)}
+                  className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 ${
+                    proxyMode ? 'bg-indigo-600' : 'bg-gray-200 dark:bg-gray-700'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      proxyMode ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+
+              {/* Credentials for endpoints hosted elsewhere */}
+              {crossOriginEndpointUrls.length > 0 && (
+                <div className="flex items-center justify-between py-2">
+                  <div className="flex flex-col min-w-0">
+                    <label
+                      htmlFor="cross-origin-toggle"
+                      className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                    >
+                      Other Origins
+                    </label>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      Also send credentials to{' '}
+                      {Array.from(new Set(crossOriginEndpointUrls.map(getUrlHost))).join(', ')}
+                    </span>
+                  </div>
+                  <button
+                    id="cross-origin-toggle"
+                    role="switch"
+                    aria-checked={allowCrossOriginEndpoints}
+                    onClick={() => onAllowCrossOriginEndpointsChange(!allowCrossOriginEndpoints)}
+                    className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 ${
+                      allowCrossOriginEndpoints ? 'bg-indigo-600' : 'bg-gray-200 dark:bg-gray-700'
+                    }`}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        allowCrossOriginEndpoints ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                </div>
+              )}
+
               {/* Discover Button */}
               <button
                 onClick={onDiscover}
@@ -344,8 +623,24 @@ export function ConfigPanel({
                   <span>{error}</span>
                 </div>
               )}
+
+              {/* Discovery Trace - Only shown when discovery failed */}
+              {error && <DiscoveryTrace attempts={discoveryAttempts} />}
             </div>
 
+            {/* Mock Agent Section */}
+            <PanelSection
+              title="Mock Agent"
+              icon={<Bot className="h-3.5 w-3.5" />}
+              badge={
+                agentInfo?.metadata?.mock && (
+                  <span className="text-xs text-indigo-600 dark:text-indigo-400">Active</span>
+                )
+              }
+            >
+              <MockAgentPanel isActive={agentInfo?.metadata?.mock === true} onUseMockAgent={onUseMockAgent} />
+            </PanelSection>
+
             {/* Agent Info Section */}
             {agentInfo && (
               <div className="space-y-4">
@@ -441,6 +736,136 @@ export function ConfigPanel({
               </div>
             )}
 
+            {/* Health Section */}
+            {agentInfo && (
+              <PanelSection
+                title="Health"
+                icon={<HeartPulse className="h-3.5 w-3.5" />}
+                defaultOpen
+                badge={
+                  healthSamples.length > 0 && (
+                    <span
+                      className={`h-2 w-2 rounded-full ${
+                        healthSamples[healthSamples.length - 1].status === 'healthy'
+                          ? 'bg-green-500'
+                          : healthSamples[healthSamples.length - 1].status === 'degraded'
+                            ? 'bg-amber-500'
+                            : 'bg-red-500'
+                      }`}
+                    />
+                  )
+                }
+              >
+                <HealthMonitor healthUrl={healthUrl} samples={healthSamples} />
+              </PanelSection>
+            )}
+
+            {/* Conformance Section */}
+            {agentInfo && (
+              <PanelSection
+                title="Conformance"
+                icon={<ShieldCheck className="h-3.5 w-3.5" />}
+                defaultOpen={!!conformance && !conformance.valid}
+                badge={
+                  conformance && (
+                    <span className="flex items-center gap-1.5 text-xs">
+                      {conformance.errors.length > 0 && (
+                        <span className="text-red-600 dark:text-red-400">{conformance.errors.length} errors</span>
+                      )}
+                      {conformance.warnings.length > 0 && (
+                        <span className="text-amber-600 dark:text-amber-400">
+                          {conformance.warnings.length} warnings
+                        </span>
+                      )}
+                      {conformance.errors.length === 0 && conformance.warnings.length === 0 && (
+                        <span className="text-green-600 dark:text-green-400">OK</span>
+                      )}
+                    </span>
+                  )
+                }
+              >
+                <ConformanceReport report={conformance} />
+              </PanelSection>
+            )}
+
+            {/* Session Metrics Section */}
+            {agentInfo && (
+              <PanelSection
+                title="Session Metrics"
+                icon={<Timer className="h-3.5 w-3.5" />}
+                defaultOpen
+              >
+                <SessionMetricsSummary metrics={sessionMetrics} />
+              </PanelSection>
+            )}
+
+            {/* Fault Injection Section */}
+            {agentInfo && (
+              <PanelSection
+                title="Fault Injection"
+                icon={<Zap className="h-3.5 w-3.5" />}
+                badge={
+                  hasActiveFaults(faultConfig) && (
+                    <span className="text-xs text-red-600 dark:text-red-400">Active</span>
+                  )
+                }
+              >
+                <FaultInjectionPanel />
+              </PanelSection>
+            )}
+
+            {/* Compare Section */}
+            {agentInfo && (
+              <PanelSection
+                title="Compare Agents"
+                icon={<GitCompare className="h-3.5 w-3.5" />}
+                defaultOpen={compareTarget !== null}
+                badge={
+                  compareTarget && (
+                    <span className="text-xs text-indigo-600 dark:text-indigo-400">Active</span>
+                  )
+                }
+              >
+                <CompareSetup
+                  primaryServiceUrl={serviceUrl}
+                  profiles={profiles}
+                  persist={persist}
+                  compareTarget={compareTarget}
+                  onStartCompare={onStartCompare}
+                  onStopCompare={onStopCompare}
+                />
+              </PanelSection>
+            )}
+
+            {/* Tool Explorer Section */}
+            {agentInfo && agentInfo.tools && agentInfo.tools.length > 0 && (
+              <PanelSection
+                title="Tool Explorer"
+                icon={<Wrench className="h-3.5 w-3.5" />}
+                badge={
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {agentInfo.tools.length}
+                  </span>
+                }
+              >
+                <ToolExplorer serviceUrl={serviceUrl} agentInfo={agentInfo} />
+              </PanelSection>
+            )}
+
+            {/* MCP Inspector Section */}
+            {agentInfo && (
+              <PanelSection
+                title="MCP Inspector"
+                icon={<Plug className="h-3.5 w-3.5" />}
+              >
+                <McpInspector
+                  serviceUrl={serviceUrl}
+                  authToken={authToken}
+                  agentInfo={agentInfo}
+                />
+              </PanelSection>
+            )}
+
             {/* Help Text */}
             {!agentInfo && (
               <div className="p-4 bg-gray-50 dark:bg-gray-900/20 rounded-lg border border-gray-200 dark:border-gray-800">
@@ -0,0 +1,52 @@
+'use client';
+
+import { AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import type { ConformanceIssue, ConformanceReport as ConformanceReportData } from '@/types/agent';
+
+interface ConformanceReportProps {
+  report: ConformanceReportData | null;
+}
+
+const IssueRow: React.FC<{ issue: ConformanceIssue }> = ({ issue }) => (
+  <li className="flex items-start gap-1.5 text-xs">
+    {issue.severity === 'error' ? (
+      <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0 text-red-500" />
+    ) : (
+      <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0 text-amber-500" />
+    )}
+    <span className="min-w-0">
+      <span className="font-mono text-gray-500 dark:text-gray-400 break-all">{issue.path}</span>{' '}
+      <span className="text-gray-700 dark:text-gray-300">{issue.message}</span>
+    </span>
+  </li>
+);
+
+// Errors and warnings from validating the discovered agent-config
+export function ConformanceReport({ report }: ConformanceReportProps) {
+  if (!report) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">Discover the agent to validate its config.</p>;
+  }
+
+  const { errors, warnings } = report;
+
+  return (
+    <div className="space-y-2">
+      {errors.length === 0 && warnings.length === 0 ? (
+        <div className="flex items-center gap-1.5 text-xs text-green-700 dark:text-green-400">
+          <CheckCircle className="h-3.5 w-3.5" />
+          Agent config conforms to the AgentConfig schema
+        </div>
+      ) : (
+        <ul className="space-y-1.5">
+          {errors.map((issue, index) => (
+            <IssueRow key={`error-${index}`} issue={issue} />
+          ))}
+          {warnings.map((issue, index) => (
+            <IssueRow key={`warning-${index}`} issue={issue} />
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-400">Checked {new Date(report.checkedAt).toLocaleTimeString()}</p>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Save, Plus, Trash2, Upload, Download, Check, X } from 'lucide-react';
+import type { ConnectionProfile, DebuggerConfig } from '@/types/agent';
+import {
+  createProfileId,
+  isProfileModified,
+  exportProfiles,
+  importProfiles,
+} from '@/utils/connection-profiles';
+import { downloadFile, getFileTimestamp } from '@/utils/download';
+
+interface ConnectionProfilesProps {
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
+  config: DebuggerConfig;
+  onProfilesChange: (profiles: ConnectionProfile[]) => void;
+  onSelectProfile: (profile: ConnectionProfile | null) => void;
+}
+
+const iconButtonClassName =
+  'p-1.5 rounded-lg border dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+export function ConnectionProfiles({
+  profiles,
+  activeProfileId,
+  config,
+  onProfilesChange,
+  onSelectProfile,
+}: ConnectionProfilesProps) {
+  const [newName, setNewName] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeProfile = profiles.find((p) => p.id === activeProfileId) || null;
+  const isModified = activeProfile ? isProfileModified(activeProfile, config) : false;
+
+  const handleSelect = (id: string) => {
+    setMessage(null);
+    onSelectProfile(profiles.find((p) => p.id === id) || null);
+  };
+
+  const handleSave = () => {
+    if (!activeProfile) return;
+    onProfilesChange(profiles.map((p) => (p.id === activeProfile.id ? { ...p, ...config } : p)));
+    setMessage({ text: `Saved "${activeProfile.name}"`, type: 'success' });
+  };
+
+  const handleCreate = () => {
+    const name = newName?.trim();
+    if (!name) return;
+    if (profiles.some((p) => p.name === name)) {
+      setMessage({ text: `A profile named "${name}" already exists`, type: 'error' });
+      return;
+    }
+    const profile: ConnectionProfile = { ...config, id: createProfileId(), name };
+    onProfilesChange([...profiles, profile]);
+    onSelectProfile(profile);
+    setNewName(null);
+    setMessage({ text: `Created "${name}"`, type: 'success' });
+  };
+
+  const handleDelete = () => {
+    if (!activeProfile) return;
+    onProfilesChange(profiles.filter((p) => p.id !== activeProfile.id));
+    onSelectProfile(null);
+    setMessage({ text: `Deleted "${activeProfile.name}"`, type: 'success' });
+  };
+
+  const handleExport = () => {
+    downloadFile(exportProfiles(profiles), `nova-debugger-profiles-${getFileTimestamp()}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = importProfiles(await file.text(), profiles);
+      onProfilesChange(result.profiles);
+      setMessage({ text: `Imported ${result.imported} profile${result.imported === 1 ? '' : 's'}`, type: 'success' });
+    } catch (err) {
+      setMessage({
+        text: `Import failed: ${err instanceof Error ? err.message : 'Unknown error'}`,
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label htmlFor="connection-profile" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Profile
+        </label>
+        {isModified && (
+          <span className="text-xs text-amber-600 dark:text-amber-400">Unsaved changes</span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        <select
+          id="connection-profile"
+          value={activeProfileId || ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="min-w-0 flex-1 px-3 py-2 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">Unsaved connection</option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleSave}
+          disabled={!activeProfile || !isModified}
+          className={iconButtonClassName}
+          title="Save changes to profile"
+        >
+          <Save className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+        </button>
+        <button
+          onClick={() => setNewName(newName === null ? '' : null)}
+          className={iconButtonClassName}
+          title="Save as new profile"
+        >
+          <Plus className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={!activeProfile}
+          className={iconButtonClassName}
+          title="Delete profile"
+        >
+          <Trash2 className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+        </button>
+      </div>
+
+      {newName !== null && (
+        <div className="flex items-center gap-1.5">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="Profile name (e.g. staging)"
+            autoFocus
+            className="min-w-0 flex-1 px-3 py-1.5 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button onClick={handleCreate} disabled={!newName.trim()} className={iconButtonClassName} title="Create">
+            <Check className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+          </button>
+          <button onClick={() => setNewName(null)} className={iconButtonClassName} title="Cancel">
+            <X className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+        >
+          <Upload className="h-3 w-3" />
+          Import
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={profiles.length === 0}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-50"
+          title="Export profiles without tokens or credential headers"
+        >
+          <Download className="h-3 w-3" />
+          Export
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+
+      {message && (
+        <p
+          className={`text-xs ${
+            message.type === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
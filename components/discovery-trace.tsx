@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, XCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import type { DiscoveryAttempt } from '@/types/agent';
+
+interface DiscoveryTraceProps {
+  attempts: DiscoveryAttempt[];
+}
+
+// Suggest what to check next for a rejected discovery attempt
+const getAttemptHint = (attempt: DiscoveryAttempt): string | null => {
+  const { status, contentType, reason = '' } = attempt;
+  if (status === 401 || status === 403) {
+    return 'The config endpoint requires credentials. Check the auth token and any headers the agent expects.';
+  }
+  if (status === 404) return 'Nothing is served at this path.';
+  if (status && status >= 500) return 'The agent returned a server error. Check the agent logs.';
+  if (contentType?.includes('text/html')) {
+    return 'This is a web page, not JSON. Check the service URL points at the agent API rather than a frontend.';
+  }
+  if (reason.startsWith('Timed out')) {
+    return 'The agent did not answer in time. Check it is running and reachable from the debugger server.';
+  }
+  if (reason.startsWith('Request failed')) {
+    return 'The debugger server could not connect. Check the host, port and protocol (http vs https).';
+  }
+  if (reason.startsWith('JSON has no name')) {
+    return 'The endpoint returned JSON, but an agent config needs at least a name or agent_id.';
+  }
+  return null;
+};
+
+const AttemptRow: React.FC<{ attempt: DiscoveryAttempt }> = ({ attempt }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const hint = attempt.ok ? null : getAttemptHint(attempt);
+
+  return (
+    <li className="space-y-1">
+      <div className="flex items-start gap-1.5">
+        {attempt.ok ? (
+          <CheckCircle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-green-500" />
+        ) : (
+          <XCircle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-red-500" />
+        )}
+        <div className="min-w-0 flex-1 space-y-0.5">
+          <div className="font-mono text-gray-700 dark:text-gray-300 break-all">{attempt.url}</div>
+          <div className="text-gray-500 dark:text-gray-400">
+            {attempt.status !== undefined ? `HTTP ${attempt.status}` : 'No response'}
+            {attempt.contentType && ` · ${attempt.contentType}`} · {attempt.durationMs}ms
+          </div>
+          {attempt.reason && <div className="text-red-600 dark:text-red-400">{attempt.reason}</div>}
+          {hint && <div className="text-gray-600 dark:text-gray-300">{hint}</div>}
+          {attempt.bodyPreview && (
+            <button
+              onClick={() => setIsExpanded(!isExpanded)}
+              className="flex items-center gap-0.5 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+            >
+              {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              Response body
+            </button>
+          )}
+        </div>
+      </div>
+      {isExpanded && attempt.bodyPreview && (
+        <pre className="ml-5 p-2 max-h-40 overflow-auto font-mono text-gray-600 dark:text-gray-400 bg-gray-100 dark:bg-gray-800 rounded whitespace-pre-wrap break-all">
+          {attempt.bodyPreview}
+        </pre>
+      )}
+    </li>
+  );
+};
+
+// Checklist of every path tried during discovery and why each one was rejected
+export function DiscoveryTrace({ attempts }: DiscoveryTraceProps) {
+  if (attempts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-semibold text-gray-700 dark:text-gray-300">Discovery attempts</div>
+      <ol className="space-y-2 text-xs">
+        {attempts.map((attempt) => (
+          <AttemptRow key={attempt.url} attempt={attempt} />
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { RotateCcw, Trash2 } from 'lucide-react';
+import type { FaultConfig, FaultErrorStatus, FaultScope } from '@/types/fault-injection';
+import { useFaultInjection } from '@/hooks/use-fault-injection';
+import { DEFAULT_FAULT_CONFIG, clearFaultEvents, setFaultConfig } from '@/utils/fault-injection';
+
+const inputClassName =
+  'w-full px-2 py-1.5 text-xs border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const NumberField: React.FC<{
+  label: string;
+  value: number;
+  max?: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, max, onChange }) => (
+  <label className="space-y-1">
+    <span className="text-xs text-gray-500 dark:text-gray-400">{label}</span>
+    <input
+      type="number"
+      min={0}
+      max={max}
+      value={value}
+      onChange={(e) => {
+        const next = Math.max(0, Number(e.target.value) || 0);
+        onChange(max !== undefined ? Math.min(max, next) : next);
+      }}
+      className={inputClassName}
+    />
+  </label>
+);
+
+// Controls for making agent traffic fail on demand
+export function FaultInjectionPanel() {
+  const { config, events } = useFaultInjection();
+
+  const update = (changes: Partial<FaultConfig>) => setFaultConfig({ ...config, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Make requests to the connected agent slow or fail, to check how the chat and its error banner cope.
+      </p>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Inject faults</span>
+        <button
+          role="switch"
+          aria-checked={config.enabled}
+          aria-label="Inject faults"
+          onClick={() => update({ enabled: !config.enabled })}
+          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 ${
+            config.enabled ? 'bg-red-600' : 'bg-gray-200 dark:bg-gray-700'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+              config.enabled ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-xs text-gray-500 dark:text-gray-400">Apply to</span>
+        <select
+          value={config.scope}
+          onChange={(e) => update({ scope: e.target.value as FaultScope })}
+          className={inputClassName}
+        >
+          <option value="stream">Chat stream only</option>
+          <option value="all">All agent requests</option>
+        </select>
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField label="Latency (ms)" value={config.latencyMs} onChange={(latencyMs) => update({ latencyMs })} />
+        <NumberField
+          label="Frame delay (ms)"
+          value={config.chunkDelayMs}
+          onChange={(chunkDelayMs) => update({ chunkDelayMs })}
+        />
+        <NumberField
+          label="Drop after frames"
+          value={config.dropAfterFrames}
+          onChange={(dropAfterFrames) => update({ dropAfterFrames })}
+        />
+        <NumberField
+          label="Corrupt frames (%)"
+          value={config.corruptRate}
+          max={100}
+          onChange={(corruptRate) => update({ corruptRate })}
+        />
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Error response</span>
+          <select
+            value={config.errorStatus ?? ''}
+            onChange={(e) =>
+              update({ errorStatus: e.target.value ? (Number(e.target.value) as FaultErrorStatus) : null })
+            }
+            className={inputClassName}
+          >
+            <option value="">None</option>
+            <option value="429">429 Too Many Requests</option>
+            <option value="500">500 Internal Server Error</option>
+            <option value="502">502 Bad Gateway</option>
+          </select>
+        </label>
+        <NumberField
+          label="Error rate (%)"
+          value={config.errorRate}
+          max={100}
+          onChange={(errorRate) => update({ errorRate })}
+        />
+      </div>
+
+      <button
+        onClick={() => setFaultConfig(DEFAULT_FAULT_CONFIG)}
+        className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+      >
+        <RotateCcw className="h-3 w-3" />
+        Reset faults
+      </button>
+
+      {events.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-semibold text-gray-700 dark:text-gray-300">Applied faults</span>
+            <button
+              onClick={clearFaultEvents}
+              className="p-0.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+              aria-label="Clear applied faults"
+            >
+              <Trash2 className="h-3 w-3 text-gray-400" />
+            </button>
+          </div>
+          <ul className="max-h-40 overflow-y-auto space-y-0.5">
+            {[...events].reverse().map((event) => (
+              <li key={event.id} className="flex items-baseline gap-1.5 text-xs">
+                <span className="text-gray-400">{new Date(event.timestamp).toLocaleTimeString()}</span>
+                <span className="font-medium text-gray-700 dark:text-gray-300">{event.fault}</span>
+                <span className="text-gray-500 dark:text-gray-400 truncate" title={event.url}>
+                  {event.detail}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { ThumbsUp, ThumbsDown, Loader2, AlertCircle } from 'lucide-react';
+import type { MessageFeedback, MessageFeedbackType } from '@/types/agent';
+
+interface FeedbackDialogProps {
+  type: MessageFeedbackType;
+  // Feedback already stored for the message
+  current: MessageFeedback;
+  isSubmitting: boolean;
+  error: string | null;
+  onSubmit: (comment: string) => void;
+  onRemove: () => void;
+  onCancel: () => void;
+}
+
+// Confirm a like/dislike with an optional comment before sending it to the agent
+export function FeedbackDialog({ type, current, isSubmitting, error, onSubmit, onRemove, onCancel }: FeedbackDialogProps) {
+  const isCurrent = type === 'like' ? current.liked : current.disliked;
+  const [comment, setComment] = useState(isCurrent ? current.comment || '' : '');
+  const Icon = type === 'like' ? ThumbsUp : ThumbsDown;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-2">
+          <Icon className={`h-5 w-5 ${type === 'like' ? 'text-green-600' : 'text-red-600'}`} />
+          {type === 'like' ? 'Like response' : 'Dislike response'}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          {isCurrent
+            ? 'This response already has this feedback. Update the comment or remove the feedback.'
+            : 'Optionally add a comment. It is sent to the agent with the feedback.'}
+        </p>
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={4}
+          autoFocus
+          placeholder={type === 'like' ? 'What was good about this response?' : 'What was wrong with this response?'}
+          className="w-full px-3 py-2 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        {error && (
+          <div className="flex items-start gap-1.5 mt-2 text-xs text-red-600 dark:text-red-400">
+            <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-3 mt-4">
+          <div>
+            {isCurrent && (
+              <button
+                onClick={onRemove}
+                disabled={isSubmitting}
+                className="px-3 py-2 text-sm font-medium text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+              >
+                Remove feedback
+              </button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSubmit(comment)}
+              disabled={isSubmitting}
+              className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+              Send Feedback
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
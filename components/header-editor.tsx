@@ -0,0 +1,79 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, X } from 'lucide-react';
+
+interface HeaderEditorProps {
+  headers: Record<string, string>;
+  onChange: (headers: Record<string, string>) => void;
+}
+
+type HeaderRow = { name: string; value: string };
+
+const toRows = (headers: Record<string, string>): HeaderRow[] =>
+  Object.entries(headers).map(([name, value]) => ({ name, value }));
+
+const toRecord = (rows: HeaderRow[]): Record<string, string> => {
+  const record: Record<string, string> = {};
+  rows.forEach((row) => {
+    if (row.name.trim()) record[row.name.trim()] = row.value;
+  });
+  return record;
+};
+
+const inputClassName =
+  'min-w-0 flex-1 px-2 py-1.5 text-xs font-mono border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Key/value editor for custom request headers (e.g. X-Tenant-Id)
+export function HeaderEditor({ headers, onChange }: HeaderEditorProps) {
+  const [rows, setRows] = useState<HeaderRow[]>(() => toRows(headers));
+
+  // Replace rows when headers change from outside (e.g. switching profiles)
+  useEffect(() => {
+    setRows((current) =>
+      JSON.stringify(toRecord(current)) === JSON.stringify(headers) ? current : toRows(headers)
+    );
+  }, [headers]);
+
+  const updateRows = (next: HeaderRow[]) => {
+    setRows(next);
+    onChange(toRecord(next));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-1.5">
+          <input
+            type="text"
+            value={row.name}
+            onChange={(e) => updateRows(rows.map((r, i) => (i === index ? { ...r, name: e.target.value } : r)))}
+            placeholder="X-Tenant-Id"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={row.value}
+            onChange={(e) => updateRows(rows.map((r, i) => (i === index ? { ...r, value: e.target.value } : r)))}
+            placeholder="value"
+            className={inputClassName}
+          />
+          <button
+            onClick={() => updateRows(rows.filter((_, i) => i !== index))}
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+            aria-label="Remove header"
+          >
+            <X className="h-3.5 w-3.5 text-gray-400" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => setRows([...rows, { name: '', value: '' }])}
+        className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+      >
+        <Plus className="h-3 w-3" />
+        Add header
+      </button>
+    </div>
+  );
+}
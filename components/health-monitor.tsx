@@ -0,0 +1,114 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import type { AgentHealthSample, AgentHealthStatus } from '@/types/agent';
+
+interface HealthMonitorProps {
+  healthUrl: string | null;
+  samples: AgentHealthSample[];
+}
+
+const STATUS_COLORS: Record<AgentHealthStatus, string> = {
+  healthy: '#22c55e',
+  degraded: '#f59e0b',
+  unhealthy: '#ef4444',
+};
+
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 40;
+
+// Latency line with one status-colored dot per sample
+const HealthSparkline: React.FC<{ samples: AgentHealthSample[] }> = ({ samples }) => {
+  const maxLatency = Math.max(...samples.map((s) => s.latencyMs), 1);
+  const step = samples.length > 1 ? SPARKLINE_WIDTH / (samples.length - 1) : 0;
+  const points = samples.map((sample, index) => ({
+    x: samples.length > 1 ? index * step : SPARKLINE_WIDTH / 2,
+    y: SPARKLINE_HEIGHT - 4 - (sample.latencyMs / maxLatency) * (SPARKLINE_HEIGHT - 8),
+    sample,
+  }));
+
+  return (
+    <svg
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-10"
+      role="img"
+      aria-label="Health latency history"
+    >
+      <polyline
+        points={points.map((p) => `${p.x},${p.y}`).join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        className="text-gray-300 dark:text-gray-600"
+        vectorEffect="non-scaling-stroke"
+      />
+      {points.map((p) => (
+        <circle key={p.sample.timestamp} cx={p.x} cy={p.y} r={2} fill={STATUS_COLORS[p.sample.status]}>
+          <title>
+            {new Date(p.sample.timestamp).toLocaleTimeString()} · {p.sample.status} · {p.sample.latencyMs}ms
+            {p.sample.error ? ` · ${p.sample.error}` : ''}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export function HealthMonitor({ healthUrl, samples }: HealthMonitorProps) {
+  if (!healthUrl) {
+    return (
+      <div className="flex items-start gap-2 p-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+        <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+        <span>
+          The agent config has no <code>endpoints.health</code> to monitor.
+        </span>
+      </div>
+    );
+  }
+
+  if (samples.length === 0) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">Waiting for first health check...</p>;
+  }
+
+  const current = samples[samples.length - 1];
+  const latencies = samples.map((s) => s.latencyMs).sort((a, b) => a - b);
+  const avgLatency = Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length);
+  const p95Latency = latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))];
+  const uptime = Math.round((samples.filter((s) => s.status !== 'unhealthy').length / samples.length) * 100);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-1.5 capitalize text-gray-700 dark:text-gray-300">
+          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: STATUS_COLORS[current.status] }} />
+          {current.status}
+        </span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">{current.latencyMs}ms</span>
+      </div>
+
+      {current.error && (
+        <p className="text-xs text-red-600 dark:text-red-400 break-all">{current.error}</p>
+      )}
+
+      <HealthSparkline samples={samples} />
+
+      <div className="grid grid-cols-3 gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <div>
+          <div className="text-gray-400">avg</div>
+          <div className="text-gray-700 dark:text-gray-300">{avgLatency}ms</div>
+        </div>
+        <div>
+          <div className="text-gray-400">p95</div>
+          <div className="text-gray-700 dark:text-gray-300">{p95Latency}ms</div>
+        </div>
+        <div>
+          <div className="text-gray-400">uptime</div>
+          <div className="text-gray-700 dark:text-gray-300">{uptime}%</div>
+        </div>
+      </div>
+
+      <p className="text-xs font-mono text-gray-400 break-all">{healthUrl}</p>
+    </div>
+  );
+}
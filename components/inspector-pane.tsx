@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { X, Radio, Network, FlaskConical, FileSearch, GanttChart, BookOpen } from 'lucide-react';
+import type { AgentConfig } from '@/types/agent';
+import type { StreamTurn } from '@/types/stream';
+import type { ComparableMessage } from '@/types/compare';
+import type { InspectMessageRequest } from '@/types/message-inspect';
+import type { AgentRequestConfig } from '@/utils/agent-headers';
+import { StreamInspector } from '@/components/stream-inspector';
+import { NetworkLog } from '@/components/network-log';
+import { TestRunner } from '@/components/test-runner';
+import { MessageInspector } from '@/components/message-inspector';
+import { ToolWaterfall } from '@/components/tool-waterfall';
+import { CitationInspector } from '@/components/citation-inspector';
+
+type InspectorTab = 'stream' | 'tools' | 'sources' | 'messages' | 'network' | 'tests';
+
+interface InspectorPaneProps {
+  onClose: () => void;
+  streamTurns: StreamTurn[];
+  messages: ComparableMessage[];
+  // Messages as loaded from the agent, before the transform
+  persistedMessages: any[];
+  // Message to show in the Messages tab, e.g. from an inspect link in the chat
+  inspectRequest?: InspectMessageRequest | null;
+  chatId: string;
+  connection: AgentRequestConfig;
+  agentInfo: AgentConfig | null;
+}
+
+const TABS: { id: InspectorTab; label: string; icon: React.ReactNode }[] = [
+  { id: 'stream', label: 'Stream', icon: <Radio className="h-3.5 w-3.5" /> },
+  { id: 'tools', label: 'Tools', icon: <GanttChart className="h-3.5 w-3.5" /> },
+  { id: 'sources', label: 'Sources', icon: <BookOpen className="h-3.5 w-3.5" /> },
+  { id: 'messages', label: 'Messages', icon: <FileSearch className="h-3.5 w-3.5" /> },
+  { id: 'network', label: 'Network', icon: <Network className="h-3.5 w-3.5" /> },
+  { id: 'tests', label: 'Tests', icon: <FlaskConical className="h-3.5 w-3.5" /> },
+];
+
+// Debug pane rendered next to the ChatContainer
+export function InspectorPane({
+  onClose,
+  streamTurns,
+  messages,
+  persistedMessages,
+  inspectRequest,
+  chatId,
+  connection,
+  agentInfo,
+}: InspectorPaneProps) {
+  const [activeTab, setActiveTab] = useState<InspectorTab>(inspectRequest ? 'messages' : 'stream');
+
+  useEffect(() => {
+    if (inspectRequest) setActiveTab('messages');
+  }, [inspectRequest]);
+
+  return (
+    <div className="w-[420px] flex-shrink-0 flex flex-col min-h-0 border-l dark:border-gray-700 bg-white dark:bg-gray-900">
+      {/* Tabs */}
+      <div className="flex items-center justify-between px-2 border-b dark:border-gray-700">
+        <div className="flex items-center overflow-x-auto">
+          {TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`flex items-center gap-1.5 px-3 py-2.5 text-xs font-medium border-b-2 transition-colors ${
+                activeTab === tab.id
+                  ? 'border-indigo-500 text-gray-900 dark:text-white'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+              }`}
+            >
+              {tab.icon}
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          aria-label="Close inspector"
+        >
+          <X className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {activeTab === 'stream' && <StreamInspector turns={streamTurns} messages={messages} />}
+        {activeTab === 'tools' && <ToolWaterfall turns={streamTurns} messages={messages} />}
+        {activeTab === 'sources' && <CitationInspector messages={messages} />}
+        {activeTab === 'messages' && (
+          <MessageInspector
+            messages={messages}
+            persistedMessages={persistedMessages}
+            inspectRequest={inspectRequest}
+            connection={connection}
+            chatId={chatId}
+          />
+        )}
+        {activeTab === 'network' && <NetworkLog />}
+        {/* Kept mounted so a test run continues while other tabs are open */}
+        <div className={activeTab === 'tests' ? 'h-full' : 'hidden'}>
+          <TestRunner
+            serviceUrl={connection.serviceUrl}
+            authToken={connection.authToken}
+            agentInfo={agentInfo}
+            messages={messages}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
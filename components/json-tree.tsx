@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { TransformFieldStatus } from '@/types/message-inspect';
+import { getJsonChildPath } from '@/utils/message-transform';
+
+interface JsonTreeProps {
+  value: any;
+  // JSON path of the value, used to look up highlights (e.g. `$.annotation`)
+  rootPath?: string;
+  highlights?: Record<string, TransformFieldStatus>;
+  // Levels expanded on first render
+  defaultExpandDepth?: number;
+}
+
+export const HIGHLIGHT_CLASSES: Record<TransformFieldStatus, string> = {
+  ignored: 'bg-red-50 dark:bg-red-900/20',
+  deduplicated: 'bg-amber-50 dark:bg-amber-900/20',
+  passthrough: 'bg-blue-50 dark:bg-blue-900/20',
+};
+
+export const HIGHLIGHT_LABELS: Record<TransformFieldStatus, string> = {
+  ignored: 'Ignored by the transform',
+  deduplicated: 'Dropped as a duplicate toolCallId',
+  passthrough: 'Only passed to chat-ui inside toolData.output',
+};
+
+const isContainer = (value: any) => value !== null && typeof value === 'object';
+
+const PrimitiveValue: React.FC<{ value: any }> = ({ value }) => {
+  if (value === null) return <span className="text-gray-400">null</span>;
+  if (value === undefined) return <span className="text-gray-400">undefined</span>;
+  if (typeof value === 'string') {
+    return <span className="text-green-700 dark:text-green-400 break-all">&quot;{value}&quot;</span>;
+  }
+  if (typeof value === 'number') return <span className="text-blue-700 dark:text-blue-400">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-purple-700 dark:text-purple-400">{String(value)}</span>;
+  return <span className="text-gray-600 dark:text-gray-300">{String(value)}</span>;
+};
+
+const JsonNode: React.FC<{
+  name?: string | number;
+  value: any;
+  path: string;
+  depth: number;
+  highlights: Record<string, TransformFieldStatus>;
+  defaultExpandDepth: number;
+}> = ({ name, value, path, depth, highlights, defaultExpandDepth }) => {
+  // Open past the default depth when something inside is highlighted
+  const [isOpen, setIsOpen] = useState(
+    () =>
+      depth < defaultExpandDepth ||
+      Object.keys(highlights).some((p) => p.startsWith(`${path}.`) || p.startsWith(`${path}[`))
+  );
+  const status = highlights[path];
+  const entries: [string | number, any][] = isContainer(value)
+    ? Array.isArray(value)
+      ? value.map((item, index) => [index, item])
+      : Object.entries(value)
+    : [];
+
+  const label = name !== undefined && <span className="text-gray-700 dark:text-gray-300">{name}: </span>;
+
+  return (
+    <div>
+      <div
+        className={`flex items-start gap-0.5 rounded ${status ? HIGHLIGHT_CLASSES[status] : ''}`}
+        title={status ? `${path} · ${HIGHLIGHT_LABELS[status]}` : path}
+      >
+        {isContainer(value) ? (
+          <button onClick={() => setIsOpen(!isOpen)} className="flex items-start gap-0.5 text-left">
+            {isOpen ? (
+              <ChevronDown className="h-3 w-3 mt-0.5 flex-shrink-0 text-gray-400" />
+            ) : (
+              <ChevronRight className="h-3 w-3 mt-0.5 flex-shrink-0 text-gray-400" />
+            )}
+            <span>
+              {label}
+              <span className="text-gray-400">
+                {Array.isArray(value) ? `[${value.length}]` : `{${entries.length}}`}
+              </span>
+            </span>
+          </button>
+        ) : (
+          <span className="pl-3.5">
+            {label}
+            <PrimitiveValue value={value} />
+          </span>
+        )}
+      </div>
+      {isContainer(value) && isOpen && (
+        <div className="pl-3 border-l border-gray-200 dark:border-gray-700 ml-1.5">
+          {entries.map(([key, child]) => (
+            <JsonNode
+              key={key}
+              name={key}
+              value={child}
+              path={getJsonChildPath(path, key)}
+              depth={depth + 1}
+              highlights={highlights}
+              defaultExpandDepth={defaultExpandDepth}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Collapsible JSON viewer that can highlight individual paths
+export function JsonTree({ value, rootPath = '$', highlights = {}, defaultExpandDepth = 2 }: JsonTreeProps) {
+  return (
+    <div className="text-xs font-mono leading-relaxed">
+      <JsonNode
+        value={value}
+        path={rootPath}
+        depth={0}
+        highlights={highlights}
+        defaultExpandDepth={defaultExpandDepth}
+      />
+    </div>
+  );
+}
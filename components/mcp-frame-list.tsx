@@ -0,0 +1,53 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowUpRight, ArrowDownLeft } from 'lucide-react';
+import type { McpFrame } from '@/types/mcp';
+
+interface McpFrameListProps {
+  frames: McpFrame[];
+}
+
+const FrameRow: React.FC<{ frame: McpFrame; startedAt: number }> = ({ frame, startedAt }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isOutgoing = frame.direction === 'outgoing';
+  const isError =
+    (frame.status !== undefined && frame.status >= 400) ||
+    (typeof frame.payload === 'object' && 'error' in frame.payload && frame.payload.error);
+
+  return (
+    <div className="border-b last:border-b-0 dark:border-gray-700">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-2 py-1.5 text-left text-xs hover:bg-gray-50 dark:hover:bg-gray-800"
+      >
+        {isOutgoing ? (
+          <ArrowUpRight className="h-3.5 w-3.5 flex-shrink-0 text-indigo-500" />
+        ) : (
+          <ArrowDownLeft className={`h-3.5 w-3.5 flex-shrink-0 ${isError ? 'text-red-500' : 'text-green-500'}`} />
+        )}
+        <span className="font-mono text-gray-800 dark:text-gray-200 truncate flex-1">{frame.method}</span>
+        {frame.status !== undefined && (
+          <span className={isError ? 'text-red-500' : 'text-gray-400'}>{frame.status}</span>
+        )}
+        <span className="text-gray-400">+{frame.timestamp - startedAt}ms</span>
+      </button>
+      {isExpanded && (
+        <pre className="max-h-64 overflow-auto px-2 pb-2 text-xs font-mono text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-all">
+          {typeof frame.payload === 'string' ? frame.payload : JSON.stringify(frame.payload, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+// JSON-RPC frames exchanged with an MCP endpoint, expandable one by one
+export function McpFrameList({ frames }: McpFrameListProps) {
+  return (
+    <div className="border dark:border-gray-700 rounded-lg max-h-80 overflow-y-auto">
+      {frames.map((frame, index) => (
+        <FrameRow key={index} frame={frame} startedAt={frames[0].timestamp} />
+      ))}
+    </div>
+  );
+}
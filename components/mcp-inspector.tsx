@@ -0,0 +1,317 @@
+'use client';
+
+import { useState, useRef, useCallback, useMemo, useEffect } from 'react';
+import {
+  Plug,
+  Loader2,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  Play,
+  Trash2,
+} from 'lucide-react';
+import type { AgentConfig } from '@/types/agent';
+import type { McpFrame } from '@/types/mcp';
+import { SchemaForm } from '@/components/schema-form';
+import { McpFrameList } from '@/components/mcp-frame-list';
+import { listAllMcpItems, openMcpSession, type McpSession } from '@/utils/mcp-client';
+import { detectMcpDrift, type McpListings } from '@/utils/mcp-drift';
+import { getAgentEndpointUrl } from '@/utils/chat-api';
+import { buildAgentHeaders } from '@/utils/agent-headers';
+import { getSchemaDefaultValue } from '@/utils/json-schema';
+
+interface McpInspectorProps {
+  serviceUrl: string;
+  authToken: string;
+  agentInfo: AgentConfig;
+}
+
+type ListMethod = 'tools/list' | 'resources/list' | 'prompts/list';
+
+const LIST_METHODS: { method: ListMethod; key: keyof McpListings }[] = [
+  { method: 'tools/list', key: 'tools' },
+  { method: 'resources/list', key: 'resources' },
+  { method: 'prompts/list', key: 'prompts' },
+];
+
+export function McpInspector({ serviceUrl, authToken, agentInfo }: McpInspectorProps) {
+  const sessionRef = useRef<McpSession | null>(null);
+  // MCP URL and token the current session belongs to; results for any other target are dropped
+  const targetKeyRef = useRef<string | null>(null);
+  const [frames, setFrames] = useState<McpFrame[]>([]);
+  const [serverInfo, setServerInfo] = useState<any>(null);
+  const [listings, setListings] = useState<McpListings>({});
+  const [busyMethod, setBusyMethod] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedTool, setSelectedTool] = useState('');
+  const [toolArgs, setToolArgs] = useState<Record<string, any>>({});
+  const [callResult, setCallResult] = useState<any>(undefined);
+
+  const mcpEndpoint = agentInfo.endpoints?.mcp;
+  const mcpUrl = mcpEndpoint ? getAgentEndpointUrl(serviceUrl, mcpEndpoint) : null;
+
+  const drifts = useMemo(() => detectMcpDrift(listings, agentInfo), [listings, agentInfo]);
+  const mcpTools = listings.tools || [];
+  const selectedToolDef = mcpTools.find((tool) => tool.name === selectedTool);
+
+  const targetKey = `${mcpUrl}|${authToken}`;
+
+  // Open a session on first use and reuse it for later requests
+  const getSession = useCallback(async (): Promise<McpSession> => {
+    if (sessionRef.current) return sessionRef.current;
+    if (!mcpUrl) throw new Error('Agent config does not declare endpoints.mcp');
+
+    const recordFrame = (frame: McpFrame) => {
+      if (targetKeyRef.current === targetKey) setFrames((prev) => [...prev, frame]);
+    };
+    // Credentials are added by agentHeadersMiddleware when the endpoint may receive them
+    const session = await openMcpSession(mcpUrl, buildAgentHeaders(), recordFrame);
+    if (targetKeyRef.current !== targetKey) {
+      session.close();
+      throw new Error('MCP endpoint changed while connecting');
+    }
+    sessionRef.current = session;
+    setServerInfo(session.serverInfo);
+    return session;
+  }, [mcpUrl, targetKey]);
+
+  const runStep = useCallback(
+    async (label: string, step: (session: McpSession) => Promise<void>): Promise<boolean> => {
+      const isCurrent = () => targetKeyRef.current === targetKey;
+      setBusyMethod(label);
+      setError(null);
+      try {
+        await step(await getSession());
+        return isCurrent();
+      } catch (err) {
+        if (!isCurrent()) return false;
+        console.error(`[McpInspector] ${label} failed:`, err);
+        setError(`${label}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        return false;
+      } finally {
+        if (isCurrent()) setBusyMethod(null);
+      }
+    },
+    [getSession, targetKey]
+  );
+
+  const handleList = useCallback(
+    (method: ListMethod, key: keyof McpListings) =>
+      runStep(method, async (session) => {
+        // Drift is only meaningful against the full list, so follow every page
+        const items = await listAllMcpItems(session, method, key);
+        if (session === sessionRef.current) setListings((prev) => ({ ...prev, [key]: items }));
+      }),
+    [runStep]
+  );
+
+  const handleRunAll = useCallback(async () => {
+    sessionRef.current?.close();
+    sessionRef.current = null;
+    setFrames([]);
+    setListings({});
+    if (!(await runStep('initialize', async () => {}))) return;
+    for (const { method, key } of LIST_METHODS) {
+      await handleList(method, key);
+    }
+  }, [runStep, handleList]);
+
+  const handleCallTool = useCallback(
+    () =>
+      runStep('tools/call', async (session) => {
+        setCallResult(undefined);
+        const result = await session.request('tools/call', { name: selectedTool, arguments: toolArgs });
+        if (session === sessionRef.current) setCallResult(result);
+      }),
+    [runStep, selectedTool, toolArgs]
+  );
+
+  const handleReset = useCallback(() => {
+    sessionRef.current?.close();
+    sessionRef.current = null;
+    setFrames([]);
+    setServerInfo(null);
+    setListings({});
+    setCallResult(undefined);
+    setError(null);
+  }, []);
+
+  // Tear down the session when the target agent or credentials change, reconnecting if one was open
+  useEffect(() => {
+    if (targetKeyRef.current === targetKey) return;
+    const hadSession = sessionRef.current !== null;
+    targetKeyRef.current = targetKey;
+    handleReset();
+    setBusyMethod(null);
+    if (hadSession) runStep('initialize', async () => {});
+  }, [targetKey, handleReset, runStep]);
+
+  // End the session on the server when the inspector goes away
+  useEffect(
+    () => () => {
+      targetKeyRef.current = null;
+      sessionRef.current?.close();
+      sessionRef.current = null;
+    },
+    []
+  );
+
+  if (!mcpUrl) {
+    return (
+      <div className="flex items-start gap-2 p-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+        <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+        <span>
+          The agent config has no <code>endpoints.mcp</code> to inspect.
+        </span>
+      </div>
+    );
+  }
+
+  const buttonClassName =
+    'flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs font-mono text-gray-500 dark:text-gray-400 break-all">{mcpUrl}</p>
+
+      <button
+        onClick={handleRunAll}
+        disabled={busyMethod !== null}
+        className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium text-white bg-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {busyMethod ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {busyMethod}...
+          </>
+        ) : (
+          <>
+            <Plug className="h-4 w-4" />
+            Connect &amp; List All
+          </>
+        )}
+      </button>
+
+      <div className="grid grid-cols-3 gap-2">
+        {LIST_METHODS.map(({ method, key }) => (
+          <button
+            key={method}
+            onClick={() => handleList(method, key)}
+            disabled={busyMethod !== null}
+            className={buttonClassName}
+          >
+            {key}
+            {listings[key] && <span className="text-gray-400">({listings[key]!.length})</span>}
+          </button>
+        ))}
+      </div>
+
+      {serverInfo && (
+        <div className="text-xs text-gray-600 dark:text-gray-400">
+          <span className="font-medium">Server:</span>{' '}
+          {serverInfo.serverInfo?.name || 'unknown'} {serverInfo.serverInfo?.version}
+          {' · '}protocol {serverInfo.protocolVersion}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 p-2 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 rounded-lg">
+          <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+          <span className="break-all">{error}</span>
+        </div>
+      )}
+
+      {/* Drift between MCP and agent-config */}
+      {Object.keys(listings).length > 0 && (
+        drifts.length === 0 ? (
+          <div className="flex items-center gap-1.5 text-xs text-green-600 dark:text-green-400">
+            <CheckCircle className="h-3.5 w-3.5" />
+            MCP matches the advertised agent-config
+          </div>
+        ) : (
+          <div className="p-2 bg-amber-50 dark:bg-amber-900/20 rounded-lg space-y-1">
+            <div className="flex items-center gap-1.5 text-xs font-medium text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              {drifts.length} difference{drifts.length === 1 ? '' : 's'} from agent-config
+            </div>
+            <ul className="text-xs text-amber-700 dark:text-amber-400 space-y-0.5">
+              {drifts.map((drift) => (
+                <li key={`${drift.surface}-${drift.name}-${drift.detail}`}>
+                  <span className="text-amber-500">{drift.surface}</span>{' '}
+                  <span className="font-mono">{drift.name}</span>: {drift.detail}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      )}
+
+      {/* tools/call */}
+      {mcpTools.length > 0 && (
+        <div className="space-y-2 p-3 border dark:border-gray-700 rounded-lg">
+          <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300">tools/call</h4>
+          <select
+            value={selectedTool}
+            onChange={(e) => {
+              const tool = mcpTools.find((t) => t.name === e.target.value);
+              setSelectedTool(e.target.value);
+              setToolArgs(getSchemaDefaultValue(tool?.inputSchema) || {});
+              setCallResult(undefined);
+            }}
+            className="w-full px-2 py-1.5 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="">Select a tool...</option>
+            {mcpTools.map((tool) => (
+              <option key={tool.name} value={tool.name}>
+                {tool.name}
+              </option>
+            ))}
+          </select>
+          {selectedToolDef && (
+            <>
+              <SchemaForm
+                key={selectedTool}
+                schema={selectedToolDef.inputSchema || { type: 'object' }}
+                value={toolArgs}
+                onChange={setToolArgs}
+                disabled={busyMethod !== null}
+              />
+              <button
+                onClick={handleCallTool}
+                disabled={busyMethod !== null}
+                className={`w-full ${buttonClassName}`}
+              >
+                <Play className="h-3.5 w-3.5" />
+                Call {selectedTool}
+              </button>
+            </>
+          )}
+          {callResult !== undefined && (
+            <pre className="max-h-48 overflow-auto p-2 text-xs font-mono bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded-lg">
+              {JSON.stringify(callResult, null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+
+      {/* Raw frames */}
+      {frames.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300">
+              Frames ({frames.length})
+            </h4>
+            <button
+              onClick={handleReset}
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+            >
+              <Trash2 className="h-3 w-3" />
+              Reset
+            </button>
+          </div>
+          <McpFrameList frames={frames} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { FileSearch, Loader2, AlertCircle } from 'lucide-react';
+import type { ComparableMessage } from '@/types/compare';
+import type { TransformFieldStatus, InspectMessageRequest } from '@/types/message-inspect';
+import type { AgentRequestConfig } from '@/utils/agent-headers';
+import { inspectMessageTransform } from '@/utils/message-transform';
+import { fetchChatMessages } from '@/utils/chat-history';
+import { JsonTree, HIGHLIGHT_CLASSES, HIGHLIGHT_LABELS } from '@/components/json-tree';
+
+type InspectView = 'raw' | 'transformed' | 'annotation';
+
+interface MessageInspectorProps {
+  messages: ComparableMessage[];
+  // Messages as loaded from the agent, before the transform
+  persistedMessages: any[];
+  // Message to select, e.g. from an inspect link in the chat
+  inspectRequest?: InspectMessageRequest | null;
+  connection: AgentRequestConfig;
+  chatId: string;
+}
+
+const VIEWS: { id: InspectView; label: string }[] = [
+  { id: 'raw', label: 'Persisted' },
+  { id: 'transformed', label: 'ChatMessage' },
+  { id: 'annotation', label: 'Annotation' },
+];
+
+// Dates and other class instances shown as the JSON chat-ui would see
+const toPlainJson = (value: any) => (value === undefined ? undefined : JSON.parse(JSON.stringify(value)));
+
+// Messages list with an inspect view of what the loader did to each one
+export function MessageInspector({
+  messages,
+  persistedMessages,
+  inspectRequest,
+  connection,
+  chatId,
+}: MessageInspectorProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(inspectRequest?.messageId ?? null);
+  const [view, setView] = useState<InspectView>('raw');
+  // Persisted messages fetched on demand (e.g. for messages streamed this session)
+  const [fetchedMessages, setFetchedMessages] = useState<any[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFetchedMessages([]);
+    setFetchError(null);
+  }, [chatId]);
+
+  useEffect(() => {
+    if (inspectRequest) setSelectedId(inspectRequest.messageId);
+  }, [inspectRequest]);
+
+  const findPersisted = (messageId: string) =>
+    persistedMessages.find((m) => m?.id === messageId) || fetchedMessages.find((m) => m?.id === messageId);
+
+  const reports = useMemo(() => {
+    const byId: Record<string, ReturnType<typeof inspectMessageTransform>> = {};
+    [...persistedMessages, ...fetchedMessages].forEach((raw) => {
+      if (raw?.id) byId[raw.id] = inspectMessageTransform(raw);
+    });
+    return byId;
+  }, [persistedMessages, fetchedMessages]);
+
+  const selected = messages.find((m) => m.id === selectedId) || null;
+  const raw = selected ? findPersisted(selected.id) : undefined;
+  const report = selected ? reports[selected.id] : undefined;
+  const annotation = raw?.annotation ?? (selected as any)?.annotation ?? (selected as any)?.toolData?.output;
+
+  const handleFetchPersisted = async () => {
+    setIsFetching(true);
+    setFetchError(null);
+    try {
+      setFetchedMessages(await fetchChatMessages(connection, chatId));
+    } catch (err) {
+      setFetchError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  if (messages.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-48 text-center p-6">
+        <FileSearch className="w-6 h-6 text-gray-400 mb-3" />
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          No messages yet. Send or load a chat to inspect its messages.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      {/* Message list */}
+      <div className="max-h-64 overflow-y-auto border-b dark:border-gray-700 p-2 space-y-1">
+        {messages.map((message) => {
+          const messageReport = reports[message.id];
+          const flagged = messageReport ? Object.keys(messageReport.highlights).length : 0;
+          return (
+            <button
+              key={message.id}
+              onClick={() => setSelectedId(message.id)}
+              className={`w-full text-left px-2 py-1.5 rounded-lg text-xs transition-colors ${
+                message.id === selectedId
+                  ? 'bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800'
+                  : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-gray-800 dark:text-gray-200">
+                  <span className="text-gray-400">{message.role} · </span>
+                  {message.content.slice(0, 80) || '(empty)'}
+                </span>
+                {flagged > 0 && (
+                  <span className="flex-shrink-0 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                    {flagged} flagged
+                  </span>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {selected ? (
+        <>
+          <div className="p-2 space-y-2 border-b dark:border-gray-700">
+            <div className="flex items-center gap-1">
+              {VIEWS.map((v) => (
+                <button
+                  key={v.id}
+                  onClick={() => setView(v.id)}
+                  className={`px-2 py-1 text-xs rounded ${
+                    view === v.id
+                      ? 'bg-gray-900 text-white dark:bg-white dark:text-gray-900'
+                      : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  {v.label}
+                </button>
+              ))}
+            </div>
+            {report && (
+              <div className="space-y-1 text-xs">
+                {report.ignoredFields.length > 0 && (
+                  <div className="text-red-600 dark:text-red-400">
+                    Ignored fields: <span className="font-mono">{report.ignoredFields.join(', ')}</span>
+                  </div>
+                )}
+                {report.duplicateToolSteps.length > 0 && (
+                  <div className="text-amber-600 dark:text-amber-400">
+                    Duplicate tool steps dropped:{' '}
+                    <span className="font-mono">
+                      {report.duplicateToolSteps.map((d) => `#${d.index} (${d.toolCallId})`).join(', ')}
+                    </span>
+                  </div>
+                )}
+                {report.passthroughAnnotationKeys.length > 0 && (
+                  <div className="text-blue-600 dark:text-blue-400">
+                    Annotation keys only in toolData:{' '}
+                    <span className="font-mono">{report.passthroughAnnotationKeys.join(', ')}</span>
+                  </div>
+                )}
+                {Object.keys(report.highlights).length === 0 && (
+                  <div className="text-green-600 dark:text-green-400">Every persisted field was mapped.</div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-auto min-h-0 p-2">
+            {view === 'raw' &&
+              (raw ? (
+                <JsonTree key={selected.id} value={raw} highlights={report?.highlights} />
+              ) : (
+                <div className="space-y-2 text-xs text-gray-500 dark:text-gray-400">
+                  <p>
+                    This message was not loaded from the agent. Fetch the persisted chat to compare it with what was
+                    rendered (requires Persist).
+                  </p>
+                  <button
+                    onClick={handleFetchPersisted}
+                    disabled={isFetching}
+                    className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+                  >
+                    {isFetching && <Loader2 className="h-3 w-3 animate-spin" />}
+                    Fetch persisted messages
+                  </button>
+                  {fetchError && (
+                    <div className="flex items-start gap-1.5 text-red-600 dark:text-red-400">
+                      <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                      {fetchError}
+                    </div>
+                  )}
+                  {fetchedMessages.length > 0 && (
+                    <p className="text-amber-600 dark:text-amber-400">
+                      Not found in the persisted chat; the agent may store it under a different id.
+                    </p>
+                  )}
+                </div>
+              ))}
+            {view === 'transformed' && <JsonTree key={selected.id} value={toPlainJson(selected)} />}
+            {view === 'annotation' &&
+              (annotation !== undefined ? (
+                <JsonTree
+                  key={selected.id}
+                  value={annotation}
+                  rootPath="$.annotation"
+                  highlights={raw ? report?.highlights : undefined}
+                  defaultExpandDepth={1}
+                />
+              ) : (
+                <p className="text-xs text-gray-500 dark:text-gray-400">This message has no annotation.</p>
+              ))}
+          </div>
+
+          {report && Object.keys(report.highlights).length > 0 && (
+            <div className="flex flex-wrap gap-2 p-2 border-t dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+              {(Object.keys(HIGHLIGHT_LABELS) as TransformFieldStatus[]).map((status) => (
+                <span key={status} className="flex items-center gap-1">
+                  <span className={`inline-block h-2.5 w-2.5 rounded ${HIGHLIGHT_CLASSES[status]} border dark:border-gray-600`} />
+                  {HIGHLIGHT_LABELS[status]}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="p-4 text-xs text-center text-gray-500 dark:text-gray-400">
+          Select a message to inspect it.
+        </div>
+      )}
+    </div>
+  );
+}
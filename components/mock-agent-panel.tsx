@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { Play, Save, RotateCcw, Loader2, AlertCircle } from 'lucide-react';
+
+interface MockAgentPanelProps {
+  isActive: boolean;
+  onUseMockAgent: (serviceUrl: string) => void;
+}
+
+const MOCK_BASE_PATH = '/api/mock';
+
+// Switch to the built-in mock agent and edit its response script
+export function MockAgentPanel({ isActive, onUseMockAgent }: MockAgentPanelProps) {
+  const [scriptText, setScriptText] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+  const request = useCallback(async (path: string, init?: RequestInit) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`${MOCK_BASE_PATH}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Request failed: ${response.status}`);
+      }
+      setScriptText(JSON.stringify(result.script, null, 2));
+      return true;
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Unknown error', type: 'error' });
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const handleSave = async () => {
+    if (scriptText === null) return;
+    let script: any;
+    try {
+      script = JSON.parse(scriptText);
+    } catch (err) {
+      setMessage({ text: `Invalid JSON: ${err instanceof Error ? err.message : 'Unknown error'}`, type: 'error' });
+      return;
+    }
+    if (await request('/_mock/script', { method: 'PUT', body: JSON.stringify({ script }) })) {
+      setMessage({ text: 'Script saved. Rediscover to refresh the advertised tools.', type: 'success' });
+    }
+  };
+
+  const handleReset = async () => {
+    if (await request('/_mock/reset', { method: 'POST' })) {
+      setMessage({ text: 'Mock chats cleared and default script restored', type: 'success' });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        A scripted agent served by the debugger itself at <span className="font-mono">{MOCK_BASE_PATH}</span>. It
+        implements discovery, streaming, chat history and feedback, so no nova-agent-core is needed.
+      </p>
+
+      {!isActive && (
+        <button
+          onClick={() => onUseMockAgent(`${window.location.origin}${MOCK_BASE_PATH}`)}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+        >
+          <Play className="h-4 w-4" />
+          Use Mock Agent
+        </button>
+      )}
+
+      {scriptText === null ? (
+        <button
+          onClick={() => request('/_mock/script')}
+          disabled={isBusy}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 disabled:opacity-50"
+        >
+          {isBusy && <Loader2 className="h-3 w-3 animate-spin" />}
+          Edit script
+        </button>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The first rule whose <span className="font-mono">match</span> appears in the prompt wins (use{' '}
+            <span className="font-mono">/regex/i</span> for patterns). Responses can script{' '}
+            <span className="font-mono">text</span>, <span className="font-mono">toolCalls</span>,{' '}
+            <span className="font-mono">knowledgeSources</span>, <span className="font-mono">annotation</span> and{' '}
+            <span className="font-mono">error</span> (<span className="font-mono">status</span>, or{' '}
+            <span className="font-mono">afterChunks</span> to fail mid-stream).
+          </p>
+          <textarea
+            value={scriptText}
+            onChange={(e) => setScriptText(e.target.value)}
+            rows={16}
+            spellCheck={false}
+            className="w-full px-2 py-1.5 text-xs font-mono border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isBusy}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-white bg-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+            >
+              <Save className="h-3 w-3" />
+              Save Script
+            </button>
+            <button
+              onClick={handleReset}
+              disabled={isBusy}
+              className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <RotateCcw className="h-3 w-3" />
+              Reset Mock
+            </button>
+          </div>
+        </>
+      )}
+
+      {message && (
+        <div
+          className={`flex items-start gap-1.5 text-xs ${
+            message.type === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+          }`}
+        >
+          {message.type === 'error' && <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />}
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
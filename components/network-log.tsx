@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Search, Trash2, Download, Network, Loader2 } from 'lucide-react';
+import type { NetworkLogEntry } from '@/types/network';
+import { useNetworkLog } from '@/hooks/use-network-log';
+import { clearNetworkLog, buildHar } from '@/utils/network-log';
+import { downloadFile, getFileTimestamp } from '@/utils/download';
+
+const getStatusColor = (entry: NetworkLogEntry) => {
+  if (entry.error || (entry.status !== undefined && entry.status >= 400)) return 'text-red-500';
+  if (entry.status === undefined) return 'text-gray-400';
+  return 'text-green-600 dark:text-green-400';
+};
+
+const formatSize = (size?: number) => {
+  if (size === undefined) return '';
+  if (size < 1024) return `${size} B`;
+  return `${(size / 1024).toFixed(1)} KB`;
+};
+
+const formatBody = (body?: string) => {
+  if (!body) return body;
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+const HeaderTable: React.FC<{ headers?: Record<string, string> }> = ({ headers }) => {
+  const rows = Object.entries(headers || {});
+  if (rows.length === 0) return <p className="text-gray-400">None</p>;
+  return (
+    <table className="w-full">
+      <tbody>
+        {rows.map(([name, value]) => (
+          <tr key={name} className="align-top">
+            <td className="pr-2 font-mono text-gray-500 whitespace-nowrap">{name}</td>
+            <td className="font-mono text-gray-800 dark:text-gray-200 break-all">{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const EntryDetails: React.FC<{ entry: NetworkLogEntry }> = ({ entry }) => (
+  <div className="p-2 space-y-3 text-xs bg-gray-50 dark:bg-gray-800/50">
+    <div>
+      <div className="font-mono text-gray-800 dark:text-gray-200 break-all">{entry.url}</div>
+      <div className="text-gray-500">
+        {new Date(entry.startedAt).toLocaleTimeString()}
+        {entry.durationMs !== undefined && ` · ${entry.durationMs}ms`}
+        {entry.status !== undefined && ` · ${entry.status} ${entry.statusText || ''}`}
+      </div>
+      {entry.error && <div className="text-red-500">{entry.error}</div>}
+    </div>
+    <div className="space-y-1">
+      <h5 className="font-semibold text-gray-700 dark:text-gray-300">Request headers</h5>
+      <HeaderTable headers={entry.requestHeaders} />
+    </div>
+    {entry.requestBody && (
+      <div className="space-y-1">
+        <h5 className="font-semibold text-gray-700 dark:text-gray-300">Request body</h5>
+        <pre className="max-h-48 overflow-auto p-2 font-mono bg-white dark:bg-gray-900 rounded whitespace-pre-wrap break-all">
+          {formatBody(entry.requestBody)}
+        </pre>
+      </div>
+    )}
+    <div className="space-y-1">
+      <h5 className="font-semibold text-gray-700 dark:text-gray-300">Response headers</h5>
+      <HeaderTable headers={entry.responseHeaders} />
+    </div>
+    {entry.responseBody !== undefined && (
+      <div className="space-y-1">
+        <h5 className="font-semibold text-gray-700 dark:text-gray-300">
+          Response body {entry.responseTruncated && <span className="font-normal text-amber-500">(truncated)</span>}
+        </h5>
+        <pre className="max-h-64 overflow-auto p-2 font-mono bg-white dark:bg-gray-900 rounded whitespace-pre-wrap break-all">
+          {formatBody(entry.responseBody) || '(empty)'}
+        </pre>
+      </div>
+    )}
+  </div>
+);
+
+export function NetworkLog() {
+  const entries = useNetworkLog();
+  const [filter, setFilter] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const visibleEntries = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return entries
+      .filter(
+        (entry) =>
+          !query ||
+          entry.url.toLowerCase().includes(query) ||
+          entry.method.toLowerCase().includes(query) ||
+          String(entry.status ?? '').includes(query)
+      )
+      .slice()
+      .reverse();
+  }, [entries, filter]);
+
+  const handleExportHar = () => {
+    downloadFile(
+      JSON.stringify(buildHar(entries), null, 2),
+      `nova-debugger-${getFileTimestamp()}.har`
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex items-center gap-2 p-2 border-b dark:border-gray-700">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by URL, method or status..."
+            className="w-full pl-7 pr-2 py-1 text-xs border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <button
+          onClick={handleExportHar}
+          disabled={entries.length === 0}
+          className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg disabled:opacity-50"
+          title="Export as HAR"
+        >
+          <Download className="h-3.5 w-3.5 text-gray-500" />
+        </button>
+        <button
+          onClick={clearNetworkLog}
+          className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+          title="Clear log"
+        >
+          <Trash2 className="h-3.5 w-3.5 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto min-h-0">
+        {entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-48 text-center p-6">
+            <Network className="w-6 h-6 text-gray-400 mb-3" />
+            <div className="text-sm text-gray-600 dark:text-gray-400">No requests recorded yet.</div>
+          </div>
+        ) : (
+          visibleEntries.map((entry) => (
+            <div key={entry.id} className="border-b dark:border-gray-700">
+              <button
+                onClick={() => setSelectedId(selectedId === entry.id ? null : entry.id)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 text-left text-xs hover:bg-gray-50 dark:hover:bg-gray-800"
+              >
+                <span className="w-12 flex-shrink-0 font-mono font-medium text-gray-700 dark:text-gray-300">
+                  {entry.method}
+                </span>
+                <span className={`w-8 flex-shrink-0 font-mono ${getStatusColor(entry)}`}>
+                  {entry.pending && entry.status === undefined ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    entry.status ?? 'ERR'
+                  )}
+                </span>
+                <span className="flex-1 font-mono text-gray-600 dark:text-gray-400 truncate" title={entry.url}>
+                  {entry.url.replace(/^https?:\/\/[^/]+/, '')}
+                </span>
+                <span className="flex-shrink-0 text-gray-400">{formatSize(entry.responseSize)}</span>
+                <span className="w-14 flex-shrink-0 text-right text-gray-400">
+                  {entry.durationMs !== undefined ? `${entry.durationMs}ms` : '...'}
+                </span>
+              </button>
+              {selectedId === entry.id && <EntryDetails entry={entry} />}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,405 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { BookMarked, Search, Send, X, Plus, Pencil, Trash2, Copy, Upload, Download } from 'lucide-react';
+import type { AgentConfig } from '@/types/agent';
+import type { SavedPrompt, LibraryPrompt } from '@/types/prompt-library';
+import {
+  buildPromptLibrary,
+  fillPromptTemplate,
+  getMissingVariables,
+  loadSavedPrompts,
+  saveSavedPrompts,
+  createPromptId,
+  parseTags,
+  exportSavedPrompts,
+  importSavedPrompts,
+} from '@/utils/prompt-library';
+import { downloadFile, getFileTimestamp } from '@/utils/download';
+
+interface PromptLibraryProps {
+  agentInfo: AgentConfig | null;
+  isBusy: boolean;
+  onSend: (content: string) => void;
+  onClose: () => void;
+}
+
+interface PromptDraft {
+  // Set when editing an existing saved prompt
+  id?: string;
+  name: string;
+  description: string;
+  template: string;
+  tags: string;
+}
+
+const inputClassName =
+  'w-full px-2 py-1.5 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const iconButtonClassName = 'p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg disabled:opacity-40';
+
+const PromptEditor: React.FC<{
+  draft: PromptDraft;
+  onChange: (draft: PromptDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}> = ({ draft, onChange, onSave, onCancel }) => (
+  <div className="space-y-2 p-3 border rounded-lg dark:border-gray-700">
+    <input
+      type="text"
+      value={draft.name}
+      onChange={(e) => onChange({ ...draft, name: e.target.value })}
+      placeholder="Name"
+      autoFocus
+      className={inputClassName}
+    />
+    <input
+      type="text"
+      value={draft.description}
+      onChange={(e) => onChange({ ...draft, description: e.target.value })}
+      placeholder="Description (optional)"
+      className={inputClassName}
+    />
+    <textarea
+      value={draft.template}
+      onChange={(e) => onChange({ ...draft, template: e.target.value })}
+      rows={3}
+      placeholder="Prompt text, e.g. Compare {{product}} sales in {{region}}"
+      className={`${inputClassName} font-mono resize-y`}
+    />
+    <input
+      type="text"
+      value={draft.tags}
+      onChange={(e) => onChange({ ...draft, tags: e.target.value })}
+      placeholder="Tags, comma separated"
+      className={inputClassName}
+    />
+    <div className="flex justify-end gap-2">
+      <button
+        onClick={onCancel}
+        className="px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700"
+      >
+        Cancel
+      </button>
+      <button
+        onClick={onSave}
+        disabled={!draft.name.trim() || !draft.template.trim()}
+        className="px-3 py-1.5 text-xs font-medium text-white bg-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        Save prompt
+      </button>
+    </div>
+  </div>
+);
+
+const PromptItem: React.FC<{
+  prompt: LibraryPrompt;
+  isSelected: boolean;
+  isBusy: boolean;
+  values: Record<string, string>;
+  onSelect: () => void;
+  onValuesChange: (values: Record<string, string>) => void;
+  onSend: (content: string) => void;
+  onEdit?: () => void;
+  onDelete?: () => void;
+  onDuplicate: () => void;
+}> = ({ prompt, isSelected, isBusy, values, onSelect, onValuesChange, onSend, onEdit, onDelete, onDuplicate }) => {
+  const missing = getMissingVariables(prompt, values);
+  const hasVariables = prompt.variables.length > 0;
+  const canSend = !isBusy && missing.length === 0;
+
+  return (
+    <div
+      className={`border rounded-lg ${
+        isSelected ? 'border-indigo-300 dark:border-indigo-700' : 'dark:border-gray-700'
+      }`}
+    >
+      <div className="flex items-start gap-2 px-3 py-2">
+        <button onClick={onSelect} className="min-w-0 flex-1 text-left">
+          <div className="flex items-center gap-1.5">
+            <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{prompt.name}</span>
+            <span
+              className={`flex-shrink-0 px-1.5 py-0.5 text-[10px] rounded ${
+                prompt.source === 'agent'
+                  ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300'
+                  : 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400'
+              }`}
+            >
+              {prompt.source === 'agent' ? 'agent' : 'saved'}
+            </span>
+            {prompt.tags.map((tag) => (
+              <span key={tag} className="flex-shrink-0 px-1.5 py-0.5 text-[10px] rounded bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300">
+                {tag}
+              </span>
+            ))}
+          </div>
+          {prompt.description && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-1">{prompt.description}</p>
+          )}
+          <p className="text-xs font-mono text-gray-600 dark:text-gray-400 line-clamp-2">{prompt.template}</p>
+        </button>
+        <div className="flex flex-shrink-0 items-center">
+          {onEdit && (
+            <button onClick={onEdit} className={iconButtonClassName} title="Edit">
+              <Pencil className="h-3.5 w-3.5 text-gray-500" />
+            </button>
+          )}
+          {onDelete && (
+            <button onClick={onDelete} className={iconButtonClassName} title="Delete">
+              <Trash2 className="h-3.5 w-3.5 text-gray-500" />
+            </button>
+          )}
+          <button onClick={onDuplicate} className={iconButtonClassName} title="Save a copy to edit">
+            <Copy className="h-3.5 w-3.5 text-gray-500" />
+          </button>
+          <button
+            onClick={() => (hasVariables && !isSelected ? onSelect() : onSend(fillPromptTemplate(prompt, values)))}
+            disabled={isBusy || (isSelected && !canSend)}
+            className={iconButtonClassName}
+            title={hasVariables && !isSelected ? 'Fill in variables' : 'Send'}
+          >
+            <Send className="h-3.5 w-3.5 text-gray-600 dark:text-gray-300" />
+          </button>
+        </div>
+      </div>
+
+      {isSelected && hasVariables && (
+        <div className="px-3 pb-3 pt-2 space-y-2 border-t dark:border-gray-700">
+          {prompt.variables.map((variable) => (
+            <label key={variable.name} className="block space-y-1">
+              <span className="text-xs text-gray-700 dark:text-gray-300">
+                <span className="font-mono">{variable.name}</span>
+                {variable.required && <span className="text-red-500"> *</span>}
+                {variable.description && <span className="text-gray-400"> — {variable.description}</span>}
+              </span>
+              <input
+                type="text"
+                value={values[variable.name] || ''}
+                onChange={(e) => onValuesChange({ ...values, [variable.name]: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && canSend) onSend(fillPromptTemplate(prompt, values));
+                }}
+                className={inputClassName}
+              />
+            </label>
+          ))}
+          <pre className="p-2 text-xs bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded-lg whitespace-pre-wrap break-words font-sans">
+            {fillPromptTemplate(prompt, values)}
+          </pre>
+          <button
+            onClick={() => onSend(fillPromptTemplate(prompt, values))}
+            disabled={!canSend}
+            className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium text-white bg-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Send className="h-4 w-4" />
+            {missing.length > 0 ? `Fill in ${missing.join(', ')}` : 'Send'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Agent-advertised and saved prompts with {{variable}} templates, shown under the chat
+export function PromptLibrary({ agentInfo, isBusy, onSend, onClose }: PromptLibraryProps) {
+  const [savedPrompts, setSavedPrompts] = useState<SavedPrompt[]>([]);
+  const [search, setSearch] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [valuesById, setValuesById] = useState<Record<string, Record<string, string>>>({});
+  const [draft, setDraft] = useState<PromptDraft | null>(null);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setSavedPrompts(loadSavedPrompts());
+  }, []);
+
+  const updateSavedPrompts = (next: SavedPrompt[]) => {
+    setSavedPrompts(next);
+    saveSavedPrompts(next);
+  };
+
+  const library = useMemo(() => buildPromptLibrary(agentInfo, savedPrompts), [agentInfo, savedPrompts]);
+  const tags = useMemo(() => Array.from(new Set(library.flatMap((prompt) => prompt.tags))).sort(), [library]);
+
+  const visiblePrompts = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return library.filter(
+      (prompt) =>
+        (!activeTag || prompt.tags.includes(activeTag)) &&
+        (!query ||
+          prompt.name.toLowerCase().includes(query) ||
+          prompt.template.toLowerCase().includes(query) ||
+          prompt.description?.toLowerCase().includes(query))
+    );
+  }, [library, search, activeTag]);
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const now = new Date().toISOString();
+    const fields = {
+      name: draft.name.trim(),
+      description: draft.description.trim() || undefined,
+      template: draft.template,
+      tags: parseTags(draft.tags),
+    };
+    if (draft.id) {
+      updateSavedPrompts(savedPrompts.map((p) => (p.id === draft.id ? { ...p, ...fields, updatedAt: now } : p)));
+    } else {
+      updateSavedPrompts([...savedPrompts, { id: createPromptId(), ...fields, createdAt: now, updatedAt: now }]);
+    }
+    setMessage({ text: `Saved "${fields.name}"`, type: 'success' });
+    setDraft(null);
+  };
+
+  const handleEdit = (prompt: LibraryPrompt) => {
+    const saved = savedPrompts.find((p) => p.id === prompt.id);
+    if (!saved) return;
+    setDraft({
+      id: saved.id,
+      name: saved.name,
+      description: saved.description || '',
+      template: saved.template,
+      tags: saved.tags.join(', '),
+    });
+  };
+
+  const handleDuplicate = (prompt: LibraryPrompt) => {
+    setDraft({
+      name: prompt.source === 'agent' ? prompt.name : `${prompt.name} (copy)`,
+      description: prompt.description || '',
+      template: prompt.template,
+      tags: prompt.tags.join(', '),
+    });
+  };
+
+  const handleDelete = (prompt: LibraryPrompt) => {
+    updateSavedPrompts(savedPrompts.filter((p) => p.id !== prompt.id));
+    setMessage({ text: `Deleted "${prompt.name}"`, type: 'success' });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = importSavedPrompts(await file.text(), savedPrompts);
+      updateSavedPrompts(result.prompts);
+      setMessage({ text: `Imported ${result.imported} prompt${result.imported === 1 ? '' : 's'}`, type: 'success' });
+    } catch (err) {
+      setMessage({
+        text: `Import failed: ${err instanceof Error ? err.message : 'Unknown error'}`,
+        type: 'error',
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col max-h-[50vh] min-h-0 border-t dark:border-gray-700 bg-white dark:bg-gray-900">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b dark:border-gray-700">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+          <BookMarked className="h-4 w-4 text-gray-500" />
+          Prompt Library
+          <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+            {library.length - savedPrompts.length} from agent · {savedPrompts.length} saved
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setDraft({ name: '', description: '', template: '', tags: '' })}
+            className={iconButtonClassName}
+            title="New prompt"
+          >
+            <Plus className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={iconButtonClassName} title="Import saved prompts">
+            <Upload className="h-3.5 w-3.5 text-gray-500" />
+          </button>
+          <button
+            onClick={() => downloadFile(exportSavedPrompts(savedPrompts), `nova-debugger-prompts-${getFileTimestamp()}.json`)}
+            disabled={savedPrompts.length === 0}
+            className={iconButtonClassName}
+            title="Export saved prompts"
+          >
+            <Download className="h-3.5 w-3.5 text-gray-500" />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          <button onClick={onClose} className={iconButtonClassName} aria-label="Close prompt library">
+            <X className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto min-h-0 px-4 py-2 space-y-2">
+        {message && (
+          <p
+            className={`text-xs ${
+              message.type === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+            }`}
+          >
+            {message.text}
+          </p>
+        )}
+
+        {draft && (
+          <PromptEditor draft={draft} onChange={setDraft} onSave={handleSaveDraft} onCancel={() => setDraft(null)} />
+        )}
+
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search prompts..."
+            className="w-full pl-7 pr-2 py-1 text-xs border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                className={`px-1.5 py-0.5 text-xs rounded ${
+                  activeTag === tag
+                    ? 'bg-amber-500 text-white'
+                    : 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300'
+                }`}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {visiblePrompts.map((prompt) => (
+          <PromptItem
+            key={prompt.id}
+            prompt={prompt}
+            isSelected={selectedId === prompt.id}
+            isBusy={isBusy}
+            values={valuesById[prompt.id] || {}}
+            onSelect={() => setSelectedId(selectedId === prompt.id ? null : prompt.id)}
+            onValuesChange={(values) => setValuesById((prev) => ({ ...prev, [prompt.id]: values }))}
+            onSend={onSend}
+            onEdit={prompt.source === 'local' ? () => handleEdit(prompt) : undefined}
+            onDelete={prompt.source === 'local' ? () => handleDelete(prompt) : undefined}
+            onDuplicate={() => handleDuplicate(prompt)}
+          />
+        ))}
+        {visiblePrompts.length === 0 && (
+          <p className="py-4 text-xs text-center text-gray-500 dark:text-gray-400">
+            {library.length === 0
+              ? 'The agent advertises no prompts. Add one with {{variables}} to reuse it.'
+              : 'No prompts match.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
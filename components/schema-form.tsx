@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Braces, ListTree } from 'lucide-react';
+import { getSchemaType, getSchemaDefaultValue } from '@/utils/json-schema';
+
+interface SchemaFormProps {
+  schema: any;
+  value: Record<string, any>;
+  onChange: (value: Record<string, any>) => void;
+  disabled?: boolean;
+}
+
+interface SchemaFieldProps {
+  name: string;
+  schema: any;
+  required: boolean;
+  value: any;
+  onChange: (value: any) => void;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  'w-full px-2 py-1.5 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50';
+
+// JSON editor for values that don't map to a simple input (objects, arrays, unions)
+const JsonField: React.FC<{
+  value: any;
+  onChange: (value: any) => void;
+  disabled?: boolean;
+  rows?: number;
+}> = ({ value, onChange, disabled, rows = 3 }) => {
+  const [text, setText] = useState(() => JSON.stringify(value ?? null, null, 2));
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  // Keep the text in sync when the value is replaced from outside
+  useEffect(() => {
+    setText((current) => {
+      try {
+        if (JSON.stringify(JSON.parse(current)) === JSON.stringify(value ?? null)) {
+          return current;
+        }
+      } catch {
+        // Current text is mid-edit and invalid - replace it
+      }
+      return JSON.stringify(value ?? null, null, 2);
+    });
+  }, [value]);
+
+  return (
+    <div className="space-y-1">
+      <textarea
+        value={text}
+        rows={rows}
+        disabled={disabled}
+        spellCheck={false}
+        onChange={(e) => {
+          setText(e.target.value);
+          try {
+            onChange(JSON.parse(e.target.value));
+            setParseError(null);
+          } catch (err) {
+            setParseError(err instanceof Error ? err.message : 'Invalid JSON');
+          }
+        }}
+        className={`${inputClassName} font-mono text-xs`}
+      />
+      {parseError && (
+        <p className="text-xs text-red-500">{parseError}</p>
+      )}
+    </div>
+  );
+};
+
+const SchemaField: React.FC<SchemaFieldProps> = ({
+  name,
+  schema,
+  required,
+  value,
+  onChange,
+  disabled,
+}) => {
+  const type = getSchemaType(schema);
+  const id = `schema-field-${name}`;
+
+  let input: React.ReactNode;
+  if (Array.isArray(schema?.enum)) {
+    input = (
+      <select
+        id={id}
+        value={JSON.stringify(value)}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : JSON.parse(e.target.value))}
+        className={inputClassName}
+      >
+        {!required && <option value="">—</option>}
+        {schema.enum.map((option: any) => (
+          <option key={JSON.stringify(option)} value={JSON.stringify(option)}>
+            {String(option)}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (type === 'boolean') {
+    input = (
+      <input
+        id={id}
+        type="checkbox"
+        checked={Boolean(value)}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.checked)}
+        className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+      />
+    );
+  } else if (type === 'number' || type === 'integer') {
+    input = (
+      <input
+        id={id}
+        type="number"
+        value={value ?? ''}
+        min={schema.minimum}
+        max={schema.maximum}
+        step={type === 'integer' ? 1 : 'any'}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        className={inputClassName}
+      />
+    );
+  } else if (type === 'string') {
+    input = (
+      <input
+        id={id}
+        type="text"
+        value={value ?? ''}
+        placeholder={schema.examples?.[0] ?? ''}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value === '' && !required ? undefined : e.target.value)}
+        className={inputClassName}
+      />
+    );
+  } else {
+    input = <JsonField value={value} onChange={onChange} disabled={disabled} />;
+  }
+
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="flex items-center gap-1.5 text-xs font-medium text-gray-700 dark:text-gray-300">
+        <span className="font-mono">{name}</span>
+        {required && <span className="text-red-500">*</span>}
+        {type && <span className="text-gray-400 font-normal">{type}</span>}
+      </label>
+      {input}
+      {schema?.description && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{schema.description}</p>
+      )}
+    </div>
+  );
+};
+
+// Form generated from a JSON Schema object, with a raw JSON fallback
+export function SchemaForm({ schema, value, onChange, disabled }: SchemaFormProps) {
+  const properties: Record<string, any> = schema?.properties || {};
+  const required: string[] = schema?.required || [];
+  const hasFields = getSchemaType(schema) === 'object' && Object.keys(properties).length > 0;
+  const [mode, setMode] = useState<'form' | 'json'>(hasFields ? 'form' : 'json');
+
+  return (
+    <div className="space-y-3">
+      {hasFields && (
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={() => setMode(mode === 'form' ? 'json' : 'form')}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+          >
+            {mode === 'form' ? <Braces className="h-3 w-3" /> : <ListTree className="h-3 w-3" />}
+            {mode === 'form' ? 'Edit as JSON' : 'Edit as form'}
+          </button>
+        </div>
+      )}
+
+      {mode === 'form' && hasFields ? (
+        Object.entries(properties).map(([name, propSchema]) => (
+          <SchemaField
+            key={name}
+            name={name}
+            schema={propSchema}
+            required={required.includes(name)}
+            value={value[name] ?? (required.includes(name) ? getSchemaDefaultValue(propSchema) : undefined)}
+            disabled={disabled}
+            onChange={(fieldValue) => {
+              const next = { ...value };
+              if (fieldValue === undefined) {
+                delete next[name];
+              } else {
+                next[name] = fieldValue;
+              }
+              onChange(next);
+            }}
+          />
+        ))
+      ) : (
+        <JsonField
+          value={value}
+          rows={6}
+          disabled={disabled}
+          onChange={(next) => onChange(next && typeof next === 'object' ? next : {})}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { Search, Copy, Trash2, Radio, AlertCircle } from 'lucide-react';
+import type { StreamTurn, StreamFrame, InspectableMessage } from '@/types/stream';
+import { clearStreamTurns, pinTurnsToMessages } from '@/utils/stream-capture';
+import { computeTurnMetrics, computeMessageMetrics } from '@/utils/stream-metrics';
+import { TurnMetricsFooter } from '@/components/stream-metrics';
+
+interface StreamInspectorProps {
+  turns: StreamTurn[];
+  messages: InspectableMessage[];
+}
+
+const TYPE_COLORS: Record<string, string> = {
+  text: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  'text-delta': 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  error: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  done: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const getTypeColor = (type: string) => {
+  if (TYPE_COLORS[type]) return TYPE_COLORS[type];
+  if (type.startsWith('tool')) return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300';
+  if (type.includes('error')) return TYPE_COLORS.error;
+  return 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400';
+};
+
+const FrameRow: React.FC<{ frame: StreamFrame }> = ({ frame }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="border-b last:border-b-0 dark:border-gray-700">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-2 py-1 text-left text-xs hover:bg-gray-50 dark:hover:bg-gray-800"
+      >
+        <span className="w-14 flex-shrink-0 text-right font-mono text-gray-400">+{frame.offsetMs}ms</span>
+        <span className={`px-1.5 py-0.5 rounded flex-shrink-0 font-mono ${getTypeColor(frame.type)}`}>
+          {frame.type}
+        </span>
+        {frame.parseError && frame.protocol !== 'text' && (
+          <span title={frame.parseError}>
+            <AlertCircle className="h-3 w-3 flex-shrink-0 text-red-500" />
+          </span>
+        )}
+        <span className="font-mono text-gray-600 dark:text-gray-400 truncate">{frame.raw}</span>
+      </button>
+      {isExpanded && (
+        <div className="px-2 pb-2 space-y-1 text-xs">
+          <div className="text-gray-400">
+            #{frame.index} · {frame.protocol} · {new Date(frame.timestamp).toLocaleTimeString()}
+          </div>
+          <pre className="max-h-64 overflow-auto p-2 font-mono bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded whitespace-pre-wrap break-all">
+            {typeof frame.payload === 'object' ? JSON.stringify(frame.payload, null, 2) : frame.raw}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export function StreamInspector({ turns, messages }: StreamInspectorProps) {
+  const [selectedTurnId, setSelectedTurnId] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [hiddenTypes, setHiddenTypes] = useState<string[]>([]);
+
+  // Which rendered message each turn produced
+  const messageByTurnId = useMemo(() => {
+    const pinned = pinTurnsToMessages(turns, messages);
+    const byTurn: Record<string, InspectableMessage> = {};
+    Object.entries(pinned).forEach(([messageId, turn]) => {
+      const message = messages.find((m) => m.id === messageId);
+      if (message) byTurn[turn.id] = message;
+    });
+    return byTurn;
+  }, [turns, messages]);
+
+  // Follow the newest turn unless the user picked one that still exists
+  useEffect(() => {
+    if (!selectedTurnId || !turns.some((t) => t.id === selectedTurnId)) {
+      setSelectedTurnId(turns.length > 0 ? turns[turns.length - 1].id : null);
+    }
+  }, [turns, selectedTurnId]);
+
+  const selectedTurn = turns.find((t) => t.id === selectedTurnId) || null;
+
+  const typeCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    selectedTurn?.frames.forEach((frame) => {
+      counts[frame.type] = (counts[frame.type] || 0) + 1;
+    });
+    return counts;
+  }, [selectedTurn]);
+
+  const visibleFrames = useMemo(() => {
+    if (!selectedTurn) return [];
+    const query = filter.trim().toLowerCase();
+    return selectedTurn.frames.filter(
+      (frame) =>
+        !hiddenTypes.includes(frame.type) &&
+        (!query || frame.type.toLowerCase().includes(query) || frame.raw.toLowerCase().includes(query))
+    );
+  }, [selectedTurn, filter, hiddenTypes]);
+
+  const handleCopyRaw = () => {
+    if (!selectedTurn) return;
+    navigator.clipboard.writeText(selectedTurn.frames.map((f) => f.raw).join('\n')).catch((err) => {
+      console.error('Failed to copy stream frames:', err);
+    });
+  };
+
+  if (turns.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-48 text-center p-6">
+        <Radio className="w-6 h-6 text-gray-400 mb-3" />
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          No stream traffic captured yet. Send a message to see the raw frames.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      {/* Turn list */}
+      <div className="max-h-64 overflow-y-auto border-b dark:border-gray-700 p-2 space-y-1">
+        {turns
+          .slice()
+          .reverse()
+          .map((turn) => {
+            const message = messageByTurnId[turn.id];
+            return (
+              <button
+                key={turn.id}
+                onClick={() => setSelectedTurnId(turn.id)}
+                className={`w-full text-left px-2 py-1.5 rounded-lg text-xs transition-colors ${
+                  turn.id === selectedTurnId
+                    ? 'bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800'
+                    : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate text-gray-800 dark:text-gray-200">
+                    {message ? message.content.slice(0, 80) || '(empty response)' : 'Unpinned turn'}
+                  </span>
+                  <span
+                    className={`flex-shrink-0 ${
+                      turn.status === 'error' ? 'text-red-500' : turn.status === 'streaming' ? 'text-indigo-500' : 'text-gray-400'
+                    }`}
+                  >
+                    {turn.status}
+                  </span>
+                </div>
+                <div className="text-gray-400 mb-0.5">
+                  {new Date(turn.startedAt).toLocaleTimeString()}
+                  {turn.httpStatus !== undefined && ` · HTTP ${turn.httpStatus}`}
+                </div>
+                <TurnMetricsFooter metrics={message ? computeMessageMetrics(message, turn) : computeTurnMetrics(turn)} />
+              </button>
+            );
+          })}
+      </div>
+
+      {selectedTurn && (
+        <>
+          {/* Filters */}
+          <div className="p-2 space-y-2 border-b dark:border-gray-700">
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+                <input
+                  type="text"
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Search frames..."
+                  className="w-full pl-7 pr-2 py-1 text-xs border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+              <button
+                onClick={handleCopyRaw}
+                className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+                title="Copy raw stream"
+              >
+                <Copy className="h-3.5 w-3.5 text-gray-500" />
+              </button>
+              <button
+                onClick={clearStreamTurns}
+                className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+                title="Clear captured turns"
+              >
+                <Trash2 className="h-3.5 w-3.5 text-gray-500" />
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(typeCounts).map(([type, count]) => (
+                <button
+                  key={type}
+                  onClick={() =>
+                    setHiddenTypes((prev) =>
+                      prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]
+                    )
+                  }
+                  className={`px-1.5 py-0.5 text-xs font-mono rounded ${getTypeColor(type)} ${
+                    hiddenTypes.includes(type) ? 'opacity-40 line-through' : ''
+                  }`}
+                >
+                  {type} {count}
+                </button>
+              ))}
+            </div>
+            {selectedTurn.error && (
+              <div className="text-xs text-red-600 dark:text-red-400">{selectedTurn.error}</div>
+            )}
+          </div>
+
+          {/* Frames */}
+          <div className="flex-1 overflow-y-auto min-h-0">
+            {visibleFrames.map((frame) => (
+              <FrameRow key={frame.index} frame={frame} />
+            ))}
+            {visibleFrames.length === 0 && (
+              <p className="p-4 text-xs text-center text-gray-500 dark:text-gray-400">No frames match.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
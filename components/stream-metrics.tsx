@@ -0,0 +1,84 @@
+'use client';
+
+import { Timer, Wrench } from 'lucide-react';
+import type { TurnMetrics, SessionMetrics } from '@/types/stream';
+import { formatMs } from '@/utils/stream-metrics';
+
+// Compact latency/throughput line shown under each captured turn
+export function TurnMetricsFooter({ metrics }: { metrics: TurnMetrics }) {
+  return (
+    <div className="space-y-1 text-xs text-gray-500 dark:text-gray-400">
+      <div className="flex flex-wrap items-center gap-x-2 gap-y-0.5">
+        <Timer className="h-3 w-3" />
+        <span title="Time to first token">TTFT {formatMs(metrics.timeToFirstTokenMs)}</span>
+        <span>·</span>
+        <span title="Total stream duration">{formatMs(metrics.totalDurationMs)}</span>
+        <span>·</span>
+        <span>{metrics.chunkCount} chunks</span>
+        {metrics.tokensPerSecond !== undefined && (
+          <>
+            <span>·</span>
+            <span title={`~${metrics.approxTokens} tokens`}>~{metrics.tokensPerSecond} tok/s</span>
+          </>
+        )}
+      </div>
+      {metrics.toolSteps.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {metrics.toolSteps.map((step) => (
+            <span
+              key={step.toolCallId}
+              className={`flex items-center gap-1 px-1.5 py-0.5 rounded font-mono ${
+                step.status === 'error'
+                  ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+                  : 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300'
+              }`}
+              title={step.toolCallId}
+            >
+              <Wrench className="h-3 w-3" />
+              {step.toolName || step.toolCallId} {step.status === 'running' ? '…' : formatMs(step.durationMs)}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Session-wide summary for the config panel
+export function SessionMetricsSummary({ metrics }: { metrics: SessionMetrics }) {
+  if (metrics.turnCount === 0) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Metrics appear after the first completed response.
+      </p>
+    );
+  }
+
+  const stats = [
+    { label: 'responses', value: String(metrics.turnCount) },
+    { label: 'avg TTFT', value: formatMs(metrics.avgTimeToFirstTokenMs) },
+    { label: 'p95 TTFT', value: formatMs(metrics.p95TimeToFirstTokenMs) },
+    { label: 'avg duration', value: formatMs(metrics.avgDurationMs) },
+    { label: 'avg tok/s', value: metrics.avgTokensPerSecond !== undefined ? `~${metrics.avgTokensPerSecond}` : '—' },
+    { label: 'tool calls', value: String(metrics.totalToolCalls) },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        {stats.map((stat) => (
+          <div key={stat.label}>
+            <div className="text-gray-400">{stat.label}</div>
+            <div className="text-gray-700 dark:text-gray-300">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+      {metrics.slowestTool?.durationMs !== undefined && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Slowest tool: <span className="font-mono">{metrics.slowestTool.toolName || metrics.slowestTool.toolCallId}</span>{' '}
+          ({formatMs(metrics.slowestTool.durationMs)})
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Plus, X, Save } from 'lucide-react';
+import type { ComparableMessage } from '@/types/compare';
+import type { TestAssertion, TestAssertionType, TestCase } from '@/types/test-case';
+import {
+  createAssertionId,
+  describeAssertion,
+  getRecordedTurns,
+  recordTestCase,
+  suggestAssertions,
+} from '@/utils/test-cases';
+
+interface TestCaseEditorProps {
+  messages: ComparableMessage[];
+  agentName?: string;
+  onSave: (testCase: TestCase) => void;
+  onCancel: () => void;
+}
+
+const ASSERTION_TYPES: { id: TestAssertionType; label: string }[] = [
+  { id: 'text-contains', label: 'Text contains' },
+  { id: 'text-matches', label: 'Text matches regex' },
+  { id: 'tool-called', label: 'Tool called' },
+  { id: 'source-cited', label: 'Source cited' },
+  { id: 'max-latency', label: 'Latency under' },
+];
+
+const inputClassName =
+  'w-full px-2 py-1.5 text-xs border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Build an assertion from the add-assertion form, or an error message
+const buildAssertion = (
+  type: TestAssertionType,
+  turnIndex: number,
+  value: string,
+  extra: string
+): TestAssertion | string => {
+  const id = createAssertionId();
+  switch (type) {
+    case 'text-contains':
+      return value ? { id, turnIndex, type, value } : 'Enter the expected text';
+    case 'text-matches':
+      if (!value) return 'Enter a pattern';
+      try {
+        new RegExp(value, extra);
+      } catch (err) {
+        return `Invalid regex: ${err instanceof Error ? err.message : 'Unknown error'}`;
+      }
+      return { id, turnIndex, type, pattern: value, flags: extra || undefined };
+    case 'tool-called': {
+      if (!value) return 'Enter a tool name';
+      if (!extra.trim()) return { id, turnIndex, type, toolName: value };
+      try {
+        return { id, turnIndex, type, toolName: value, args: JSON.parse(extra) };
+      } catch {
+        return 'Args must be valid JSON';
+      }
+    }
+    case 'source-cited':
+      return value ? { id, turnIndex, type, source: value } : 'Enter a source id, URL or title';
+    case 'max-latency': {
+      const maxMs = Number(value);
+      if (!value || Number.isNaN(maxMs) || maxMs <= 0) return 'Enter a limit in milliseconds';
+      return { id, turnIndex, type, metric: extra === 'ttft' ? 'ttft' : 'total', maxMs };
+    }
+  }
+};
+
+// Save the current conversation as a regression test case with assertions
+export function TestCaseEditor({ messages, agentName, onSave, onCancel }: TestCaseEditorProps) {
+  const recorded = useMemo(() => getRecordedTurns(messages), [messages]);
+  const [name, setName] = useState(() => recorded.prompts[0]?.slice(0, 60) || 'Untitled test');
+  const [assertions, setAssertions] = useState<TestAssertion[]>(() => suggestAssertions(recorded.baseline));
+  const [type, setType] = useState<TestAssertionType>('text-contains');
+  const [turnIndex, setTurnIndex] = useState(Math.max(0, recorded.prompts.length - 1));
+  const [value, setValue] = useState('');
+  const [extra, setExtra] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleAdd = () => {
+    const assertion = buildAssertion(type, turnIndex, value.trim(), extra);
+    if (typeof assertion === 'string') {
+      setFormError(assertion);
+      return;
+    }
+    setAssertions([...assertions, assertion]);
+    setValue('');
+    setExtra('');
+    setFormError(null);
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(recordTestCase(name.trim(), messages, assertions, agentName));
+  };
+
+  if (recorded.prompts.length === 0) {
+    return (
+      <div className="p-3 text-xs text-gray-500 dark:text-gray-400">
+        Send at least one prompt before saving the conversation as a test.
+        <button onClick={onCancel} className="ml-2 underline">
+          Close
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 space-y-3 border-b dark:border-gray-700">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Test case name"
+        className={inputClassName}
+      />
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        {recorded.prompts.length} prompt{recorded.prompts.length === 1 ? '' : 's'} recorded as baseline
+      </div>
+
+      {/* Assertions */}
+      <div className="space-y-1">
+        {assertions.length === 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            No assertions; the run will only be diffed against the baseline.
+          </p>
+        )}
+        {assertions.map((assertion) => (
+          <div key={assertion.id} className="flex items-start gap-2 text-xs">
+            <span className="flex-1 font-mono text-gray-700 dark:text-gray-300 break-all">
+              {describeAssertion(assertion)}
+            </span>
+            <button
+              onClick={() => setAssertions(assertions.filter((a) => a.id !== assertion.id))}
+              className="p-0.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+              aria-label="Remove assertion"
+            >
+              <X className="h-3 w-3 text-gray-400" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Add assertion */}
+      <div className="p-2 space-y-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+        <div className="flex gap-2">
+          <select
+            value={type}
+            onChange={(e) => {
+              setType(e.target.value as TestAssertionType);
+              setExtra(e.target.value === 'max-latency' ? 'total' : '');
+              setFormError(null);
+            }}
+            className={inputClassName}
+          >
+            {ASSERTION_TYPES.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={turnIndex}
+            onChange={(e) => setTurnIndex(Number(e.target.value))}
+            className={`${inputClassName} w-24`}
+          >
+            {recorded.prompts.map((_, index) => (
+              <option key={index} value={index}>
+                Turn {index + 1}
+              </option>
+            ))}
+          </select>
+        </div>
+        <input
+          type={type === 'max-latency' ? 'number' : 'text'}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={
+            type === 'tool-called'
+              ? 'Tool name'
+              : type === 'source-cited'
+                ? 'Source id, URL or title'
+                : type === 'max-latency'
+                  ? 'Limit (ms)'
+                  : type === 'text-matches'
+                    ? 'Pattern'
+                    : 'Expected text'
+          }
+          className={`${inputClassName} font-mono`}
+        />
+        {type === 'text-matches' && (
+          <input
+            type="text"
+            value={extra}
+            onChange={(e) => setExtra(e.target.value)}
+            placeholder="Flags (e.g. i)"
+            className={`${inputClassName} font-mono`}
+          />
+        )}
+        {type === 'tool-called' && (
+          <textarea
+            value={extra}
+            onChange={(e) => setExtra(e.target.value)}
+            placeholder='Expected args (JSON, optional), e.g. {"query": "pricing"}'
+            rows={2}
+            className={`${inputClassName} font-mono`}
+          />
+        )}
+        {type === 'max-latency' && (
+          <select value={extra} onChange={(e) => setExtra(e.target.value)} className={inputClassName}>
+            <option value="total">Total response time</option>
+            <option value="ttft">Time to first token</option>
+          </select>
+        )}
+        {formError && <p className="text-xs text-red-600 dark:text-red-400">{formError}</p>}
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+        >
+          <Plus className="h-3 w-3" />
+          Add assertion
+        </button>
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-white bg-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+        >
+          <Save className="h-3 w-3" />
+          Save Test
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  FlaskConical,
+  Play,
+  Plus,
+  Trash2,
+  Loader2,
+  CheckCircle,
+  XCircle,
+  AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  Square,
+} from 'lucide-react';
+import type { AgentConfig } from '@/types/agent';
+import type { ComparableMessage } from '@/types/compare';
+import type { TurnMetrics } from '@/types/stream';
+import type { TestCase, TestCaseResult } from '@/types/test-case';
+import { usePromptReplay } from '@/hooks/use-prompt-replay';
+import { getTranscriptTurns } from '@/utils/agent-compare';
+import { getStreamTurns, pinTurnsToMessages } from '@/utils/stream-capture';
+import { computeTurnMetrics, formatMs } from '@/utils/stream-metrics';
+import { loadTestCases, saveTestCases, evaluateTestCase, describeAssertion } from '@/utils/test-cases';
+import { TestCaseEditor } from '@/components/test-case-editor';
+import { CompareDiff } from '@/components/compare-diff';
+
+interface TestRunnerProps {
+  serviceUrl: string;
+  authToken: string;
+  agentInfo: AgentConfig | null;
+  messages: ComparableMessage[];
+}
+
+// Wait for the stream capture store to flush before reading turn metrics
+const METRICS_SETTLE_MS = 300;
+
+const createRunChatId = () => `test-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+interface CaseReplayProps {
+  testCase: TestCase;
+  serviceUrl: string;
+  authToken: string;
+  agentId: string;
+  chatId: string;
+  onFinish: (messages: ComparableMessage[], error: string | null) => void;
+}
+
+// Headless replay of one test case; renders its progress
+const CaseReplay: React.FC<CaseReplayProps> = ({ testCase, serviceUrl, authToken, agentId, chatId, onFinish }) => {
+  const replay = usePromptReplay({ serviceUrl, authToken, agentId, chatId, prompts: testCase.prompts });
+  const hasFinished = useRef(false);
+
+  useEffect(() => {
+    if (replay.status === 'running' || hasFinished.current) return;
+    hasFinished.current = true;
+    onFinish(replay.messages, replay.error);
+  }, [replay.status, replay.messages, replay.error, onFinish]);
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 text-xs text-indigo-600 dark:text-indigo-400 border-b dark:border-gray-700">
+      <Loader2 className="h-3 w-3 animate-spin" />
+      Running &quot;{testCase.name}&quot; · prompt {replay.sentCount}/{testCase.prompts.length}
+    </div>
+  );
+};
+
+const StatusIcon: React.FC<{ result?: TestCaseResult }> = ({ result }) => {
+  switch (result?.status) {
+    case 'running':
+      return <Loader2 className="h-3.5 w-3.5 text-indigo-500 animate-spin" />;
+    case 'passed':
+      return <CheckCircle className="h-3.5 w-3.5 text-green-500" />;
+    case 'failed':
+      return <XCircle className="h-3.5 w-3.5 text-red-500" />;
+    case 'error':
+      return <AlertCircle className="h-3.5 w-3.5 text-red-500" />;
+    case 'pending':
+      return <span className="h-3.5 w-3.5 rounded-full border-2 border-gray-300 dark:border-gray-600" />;
+    default:
+      return <span className="h-3.5 w-3.5 rounded-full bg-gray-200 dark:bg-gray-700" />;
+  }
+};
+
+const TestCaseRow: React.FC<{
+  testCase: TestCase;
+  result?: TestCaseResult;
+  canRun: boolean;
+  isRunning: boolean;
+  onRun: () => void;
+  onDelete: () => void;
+}> = ({ testCase, result, canRun, isRunning, onRun, onDelete }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const passedCount = result?.assertionResults.filter((r) => r.passed).length ?? 0;
+
+  return (
+    <div className="border-b last:border-b-0 dark:border-gray-700">
+      <div className="flex items-center gap-2 px-3 py-2 group">
+        <button onClick={() => setIsExpanded(!isExpanded)} className="flex-1 flex items-center gap-2 min-w-0 text-left">
+          {isExpanded ? <ChevronDown className="h-3 w-3 text-gray-400" /> : <ChevronRight className="h-3 w-3 text-gray-400" />}
+          <StatusIcon result={result} />
+          <span className="text-xs text-gray-800 dark:text-gray-200 truncate">{testCase.name}</span>
+        </button>
+        {result && result.status !== 'running' && result.status !== 'pending' && (
+          <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+            {testCase.assertions.length > 0 && `${passedCount}/${testCase.assertions.length} · `}
+            {formatMs(result.durationMs)}
+          </span>
+        )}
+        <button
+          onClick={onRun}
+          disabled={!canRun || isRunning}
+          className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded disabled:opacity-50"
+          title="Run this test"
+        >
+          <Play className="h-3 w-3 text-gray-500" />
+        </button>
+        <button
+          onClick={onDelete}
+          disabled={isRunning}
+          className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded disabled:opacity-50 opacity-0 group-hover:opacity-100"
+          title="Delete test"
+        >
+          <Trash2 className="h-3 w-3 text-gray-500" />
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="pb-2 space-y-2">
+          <div className="px-3 text-xs text-gray-500 dark:text-gray-400">
+            {testCase.prompts.length} prompt{testCase.prompts.length === 1 ? '' : 's'}
+            {testCase.agentName && ` · recorded against ${testCase.agentName}`} ·{' '}
+            {new Date(testCase.createdAt).toLocaleDateString()}
+          </div>
+
+          {result?.error && (
+            <div className="mx-3 p-2 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 rounded">
+              {result.error}
+            </div>
+          )}
+
+          <div className="px-3 space-y-1">
+            {testCase.assertions.map((assertion) => {
+              const assertionResult = result?.assertionResults.find((r) => r.assertionId === assertion.id);
+              return (
+                <div key={assertion.id} className="flex items-start gap-1.5 text-xs">
+                  {assertionResult ? (
+                    assertionResult.passed ? (
+                      <CheckCircle className="h-3 w-3 mt-0.5 flex-shrink-0 text-green-500" />
+                    ) : (
+                      <XCircle className="h-3 w-3 mt-0.5 flex-shrink-0 text-red-500" />
+                    )
+                  ) : (
+                    <span className="h-3 w-3 mt-0.5 flex-shrink-0 rounded-full bg-gray-200 dark:bg-gray-700" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="font-mono text-gray-700 dark:text-gray-300 break-all">{describeAssertion(assertion)}</div>
+                    {assertionResult && !assertionResult.passed && (
+                      <div className="text-red-600 dark:text-red-400 break-all">{assertionResult.message}</div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {result && result.comparisons.length > 0 && (
+            <CompareDiff comparisons={result.comparisons} leftLabel="Baseline" rightLabel="This run" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Saved regression test cases, replayed against the connected agent
+export function TestRunner({ serviceUrl, authToken, agentInfo, messages }: TestRunnerProps) {
+  const [testCases, setTestCases] = useState<TestCase[]>([]);
+  const [results, setResults] = useState<Record<string, TestCaseResult>>({});
+  const [queue, setQueue] = useState<string[]>([]);
+  const [currentRun, setCurrentRun] = useState<{ caseId: string; chatId: string; startedAt: number } | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+
+  useEffect(() => {
+    setTestCases(loadTestCases());
+  }, []);
+
+  const updateTestCases = (next: TestCase[]) => {
+    setTestCases(next);
+    saveTestCases(next);
+  };
+
+  // Start the next queued case once the previous one has finished
+  useEffect(() => {
+    if (currentRun || queue.length === 0) return;
+    const [caseId, ...rest] = queue;
+    const startedAt = Date.now();
+    setQueue(rest);
+    setCurrentRun({ caseId, chatId: createRunChatId(), startedAt });
+    setResults((prev) => ({
+      ...prev,
+      [caseId]: { caseId, status: 'running', startedAt, assertionResults: [], comparisons: [] },
+    }));
+  }, [currentRun, queue]);
+
+  const runCases = (caseIds: string[]) => {
+    setResults((prev) => {
+      const next = { ...prev };
+      caseIds.forEach((caseId) => {
+        next[caseId] = { caseId, status: 'pending', startedAt: Date.now(), assertionResults: [], comparisons: [] };
+      });
+      return next;
+    });
+    setQueue(caseIds);
+  };
+
+  const handleStop = () => {
+    setResults((prev) => {
+      const next = { ...prev };
+      queue.forEach((caseId) => delete next[caseId]);
+      return next;
+    });
+    setQueue([]);
+  };
+
+  const handleFinish = useCallback(
+    (runMessages: ComparableMessage[], error: string | null) => {
+      if (!currentRun) return;
+      const run = currentRun;
+      const testCase = testCases.find((c) => c.id === run.caseId);
+
+      setTimeout(() => {
+        if (testCase) {
+          const pinned = pinTurnsToMessages(
+            getStreamTurns().filter((turn) => turn.chatId === run.chatId),
+            runMessages
+          );
+          const responses = getTranscriptTurns(runMessages).map((turn) => turn.response);
+          const metrics: (TurnMetrics | undefined)[] = responses.map((response) =>
+            response && pinned[response.id] ? computeTurnMetrics(pinned[response.id]) : undefined
+          );
+          const evaluation = evaluateTestCase(testCase, responses, metrics);
+          const failed = evaluation.assertionResults.some((r) => !r.passed);
+
+          console.log('[TestRunner] Finished', testCase.name, error || (failed ? 'failed' : 'passed'));
+          setResults((prev) => ({
+            ...prev,
+            [run.caseId]: {
+              caseId: run.caseId,
+              status: error ? 'error' : failed ? 'failed' : 'passed',
+              startedAt: run.startedAt,
+              durationMs: Date.now() - run.startedAt - METRICS_SETTLE_MS,
+              ...evaluation,
+              error: error || undefined,
+            },
+          }));
+        }
+        setCurrentRun(null);
+      }, METRICS_SETTLE_MS);
+    },
+    [currentRun, testCases]
+  );
+
+  const summary = Object.values(results).reduce(
+    (counts, result) => ({ ...counts, [result.status]: (counts[result.status] || 0) + 1 }),
+    {} as Record<string, number>
+  );
+  const runningCase = currentRun && testCases.find((c) => c.id === currentRun.caseId);
+  const isRunning = currentRun !== null || queue.length > 0;
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 p-2 border-b dark:border-gray-700">
+        <button
+          onClick={() => runCases(testCases.map((c) => c.id))}
+          disabled={!agentInfo || isRunning || testCases.length === 0}
+          className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-semibold text-white bg-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+        >
+          <Play className="h-3 w-3" />
+          Run All
+        </button>
+        {isRunning && (
+          <button
+            onClick={handleStop}
+            className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700"
+            title="Skip the remaining queued tests"
+          >
+            <Square className="h-3 w-3" />
+            Stop
+          </button>
+        )}
+        <button
+          onClick={() => setIsEditing(true)}
+          disabled={isEditing || messages.length === 0}
+          className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+          title="Save the current conversation as a test case"
+        >
+          <Plus className="h-3 w-3" />
+          Save Conversation
+        </button>
+        <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">
+          {summary.passed ? <span className="text-green-600 dark:text-green-400">{summary.passed} passed </span> : null}
+          {summary.failed || summary.error ? (
+            <span className="text-red-600 dark:text-red-400">{(summary.failed || 0) + (summary.error || 0)} failed</span>
+          ) : null}
+        </span>
+      </div>
+
+      {isEditing && (
+        <TestCaseEditor
+          messages={messages}
+          agentName={agentInfo?.name}
+          onSave={(testCase) => {
+            updateTestCases([...testCases, testCase]);
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      )}
+
+      {currentRun && runningCase && agentInfo && (
+        <CaseReplay
+          key={currentRun.chatId}
+          testCase={runningCase}
+          serviceUrl={serviceUrl}
+          authToken={authToken}
+          agentId={agentInfo.agent_id || agentInfo.name}
+          chatId={currentRun.chatId}
+          onFinish={handleFinish}
+        />
+      )}
+
+      {!agentInfo && (
+        <p className="px-3 py-2 text-xs text-amber-600 dark:text-amber-400 border-b dark:border-gray-700">
+          Connect to an agent to run tests.
+        </p>
+      )}
+
+      <div className="flex-1 overflow-y-auto min-h-0">
+        {testCases.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-48 text-center p-6">
+            <FlaskConical className="w-6 h-6 text-gray-400 mb-3" />
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              No test cases yet. Have a conversation, then save it as a test to replay it later.
+            </div>
+          </div>
+        ) : (
+          testCases.map((testCase) => (
+            <TestCaseRow
+              key={testCase.id}
+              testCase={testCase}
+              result={results[testCase.id]}
+              canRun={agentInfo !== null}
+              isRunning={isRunning}
+              onRun={() => runCases([testCase.id])}
+              onDelete={() => updateTestCases(testCases.filter((c) => c.id !== testCase.id))}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Search, Send, X, Wrench, AlertTriangle, RotateCcw, Code } from 'lucide-react';
+import type { ChatMessage } from '@newhomestar/chat-ui';
+import type { AgentConfigTool, ToolChoiceMode } from '@/types/agent';
+import { SchemaForm } from '@/components/schema-form';
+import { getSchemaDefaultValue, validateAgainstSchema } from '@/utils/json-schema';
+import { buildToolRoutingMessage } from '@/utils/tool-routing';
+
+interface ToolComposerProps {
+  tools: AgentConfigTool[];
+  isBusy: boolean;
+  onSend: (message: ChatMessage) => void;
+  onClose: () => void;
+}
+
+const MODES: { id: ToolChoiceMode; label: string; activeClassName: string }[] = [
+  { id: 'auto', label: 'Auto', activeClassName: 'bg-gray-900 text-white dark:bg-white dark:text-gray-900' },
+  { id: 'force', label: 'Force', activeClassName: 'bg-indigo-600 text-white' },
+  { id: 'disable', label: 'Disable', activeClassName: 'bg-red-600 text-white' },
+];
+
+const getDefaultArgs = (tool: AgentConfigTool): Record<string, any> => {
+  const value = getSchemaDefaultValue(tool.inputSchema || { type: 'object' });
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+};
+
+const ComposerToolItem: React.FC<{
+  tool: AgentConfigTool;
+  mode: ToolChoiceMode;
+  args: Record<string, any>;
+  onModeChange: (mode: ToolChoiceMode) => void;
+  onArgsChange: (args: Record<string, any>) => void;
+}> = ({ tool, mode, args, onModeChange, onArgsChange }) => {
+  const inputErrors = useMemo(
+    () => (mode === 'force' && tool.inputSchema ? validateAgainstSchema(args, tool.inputSchema) : []),
+    [mode, args, tool.inputSchema]
+  );
+
+  return (
+    <div
+      className={`border rounded-lg ${
+        mode === 'force'
+          ? 'border-indigo-300 dark:border-indigo-700'
+          : mode === 'disable'
+            ? 'border-red-200 dark:border-red-900'
+            : 'dark:border-gray-700'
+      }`}
+    >
+      <div className="flex items-start gap-2 px-3 py-2">
+        <div className="min-w-0 flex-1">
+          <div
+            className={`text-sm font-mono truncate ${
+              mode === 'disable' ? 'text-gray-400 line-through' : 'text-gray-900 dark:text-white'
+            }`}
+          >
+            {tool.name}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-1">{tool.description}</p>
+        </div>
+        <div className="flex flex-shrink-0 rounded-lg border dark:border-gray-700 overflow-hidden">
+          {MODES.map((m) => (
+            <button
+              key={m.id}
+              onClick={() => onModeChange(m.id)}
+              className={`px-2 py-1 text-xs ${
+                mode === m.id ? m.activeClassName : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'force' && (
+        <div className="px-3 pb-3 space-y-2 border-t dark:border-gray-700 pt-3">
+          <SchemaForm schema={tool.inputSchema || { type: 'object' }} value={args} onChange={onArgsChange} />
+          {inputErrors.length > 0 && (
+            <div className="flex items-start gap-2 p-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+              <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+              <ul className="space-y-0.5">
+                {inputErrors.map((err) => (
+                  <li key={`${err.path}-${err.message}`}>
+                    <span className="font-mono">{err.path}</span>: {err.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Composer for messages that force or disable specific tools, shown under the chat
+export function ToolComposer({ tools, isBusy, onSend, onClose }: ToolComposerProps) {
+  const [content, setContent] = useState('');
+  const [search, setSearch] = useState('');
+  const [modes, setModes] = useState<Record<string, ToolChoiceMode>>({});
+  const [argsByTool, setArgsByTool] = useState<Record<string, Record<string, any>>>({});
+  const [showPreview, setShowPreview] = useState(false);
+
+  const visibleTools = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return tools;
+    return tools.filter(
+      (tool) => tool.name.toLowerCase().includes(query) || tool.description?.toLowerCase().includes(query)
+    );
+  }, [tools, search]);
+
+  const forcedTools = tools
+    .filter((tool) => modes[tool.name] === 'force')
+    .map((tool) => ({ name: tool.name, args: argsByTool[tool.name] ?? getDefaultArgs(tool) }));
+  const disabledTools = tools.filter((tool) => modes[tool.name] === 'disable').map((tool) => tool.name);
+  const message = buildToolRoutingMessage(content, forcedTools, disabledTools);
+
+  const handleModeChange = (tool: AgentConfigTool, mode: ToolChoiceMode) => {
+    setModes((prev) => ({ ...prev, [tool.name]: mode }));
+    if (mode === 'force' && !argsByTool[tool.name]) {
+      setArgsByTool((prev) => ({ ...prev, [tool.name]: getDefaultArgs(tool) }));
+    }
+  };
+
+  const handleReset = () => {
+    setModes({});
+    setArgsByTool({});
+  };
+
+  const handleSend = () => {
+    if (!content.trim() || isBusy) return;
+    onSend(message);
+    // Keep the tool selection so the same routing can be sent again
+    setContent('');
+  };
+
+  return (
+    <div className="flex flex-col max-h-[50vh] min-h-0 border-t dark:border-gray-700 bg-white dark:bg-gray-900">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b dark:border-gray-700">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-white">
+          <Wrench className="h-4 w-4 text-gray-500" />
+          Tool Composer
+          <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+            {forcedTools.length} forced · {disabledTools.length} disabled
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleReset}
+            disabled={forcedTools.length === 0 && disabledTools.length === 0}
+            className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg disabled:opacity-40"
+            title="Reset all tools to Auto"
+          >
+            <RotateCcw className="h-3.5 w-3.5 text-gray-500" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+            aria-label="Close tool composer"
+          >
+            <X className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+          </button>
+        </div>
+      </div>
+
+      {/* Tools */}
+      <div className="flex-1 overflow-y-auto min-h-0 px-4 py-2 space-y-2">
+        {tools.length > 5 && (
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search tools..."
+              className="w-full pl-7 pr-2 py-1 text-xs border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+        )}
+        {visibleTools.map((tool) => (
+          <ComposerToolItem
+            key={tool.name}
+            tool={tool}
+            mode={modes[tool.name] || 'auto'}
+            args={argsByTool[tool.name] ?? {}}
+            onModeChange={(mode) => handleModeChange(tool, mode)}
+            onArgsChange={(args) => setArgsByTool((prev) => ({ ...prev, [tool.name]: args }))}
+          />
+        ))}
+        {visibleTools.length === 0 && (
+          <p className="py-4 text-xs text-center text-gray-500 dark:text-gray-400">
+            {tools.length === 0 ? 'The agent does not advertise any tools.' : 'No tools match.'}
+          </p>
+        )}
+        {showPreview && (
+          <pre className="p-2 text-xs font-mono bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded-lg whitespace-pre-wrap break-all">
+            {JSON.stringify(message, null, 2)}
+          </pre>
+        )}
+      </div>
+
+      {/* Message */}
+      <div className="flex items-end gap-2 px-4 py-2 border-t dark:border-gray-700">
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          rows={2}
+          placeholder="Message to send with these tool settings... (Ctrl+Enter to send)"
+          className="flex-1 px-3 py-2 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+        />
+        <div className="flex flex-col gap-1">
+          <button
+            onClick={() => setShowPreview(!showPreview)}
+            className={`p-2 rounded-lg border dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 ${
+              showPreview ? 'bg-indigo-50 dark:bg-indigo-900/30' : ''
+            }`}
+            title="Preview the message JSON"
+          >
+            <Code className="h-4 w-4 text-gray-600 dark:text-gray-300" />
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={!content.trim() || isBusy}
+            className="p-2 text-white bg-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Send"
+          >
+            <Send className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
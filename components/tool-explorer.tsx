@@ -0,0 +1,311 @@
+'use client';
+
+import { useState, useMemo, useCallback } from 'react';
+import {
+  Search,
+  Play,
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import type { AgentConfig, AgentConfigTool } from '@/types/agent';
+import type { McpFrame } from '@/types/mcp';
+import { SchemaForm } from '@/components/schema-form';
+import { McpFrameList } from '@/components/mcp-frame-list';
+import { getSchemaDefaultValue, validateAgainstSchema, type SchemaValidationError } from '@/utils/json-schema';
+import { callMcpTool, getToolResultValue } from '@/utils/mcp-client';
+import { getAgentEndpointUrl } from '@/utils/chat-api';
+import { buildAgentHeaders } from '@/utils/agent-headers';
+
+interface ToolExplorerProps {
+  serviceUrl: string;
+  agentInfo: AgentConfig;
+}
+
+interface ToolRunState {
+  isRunning: boolean;
+  result?: any;
+  error?: string;
+  durationMs?: number;
+  outputErrors?: SchemaValidationError[];
+  frames?: McpFrame[];
+}
+
+interface ToolItemProps {
+  tool: AgentConfigTool;
+  isExpanded: boolean;
+  args: Record<string, any>;
+  runState?: ToolRunState;
+  canRun: boolean;
+  onToggle: () => void;
+  onArgsChange: (args: Record<string, any>) => void;
+  onRun: () => void;
+}
+
+const ToolItem: React.FC<ToolItemProps> = ({
+  tool,
+  isExpanded,
+  args,
+  runState,
+  canRun,
+  onToggle,
+  onArgsChange,
+  onRun,
+}) => {
+  const inputErrors = useMemo(
+    () => (tool.inputSchema ? validateAgainstSchema(args, tool.inputSchema) : []),
+    [args, tool.inputSchema]
+  );
+
+  return (
+    <div className="border dark:border-gray-700 rounded-lg">
+      <button
+        onClick={onToggle}
+        className="w-full flex items-start gap-2 px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-800 rounded-lg"
+      >
+        {isExpanded ? (
+          <ChevronDown className="h-4 w-4 mt-0.5 flex-shrink-0 text-gray-400" />
+        ) : (
+          <ChevronRight className="h-4 w-4 mt-0.5 flex-shrink-0 text-gray-400" />
+        )}
+        <div className="min-w-0 flex-1">
+          <div className="text-sm font-mono text-gray-900 dark:text-white truncate">{tool.name}</div>
+          <p className={`text-xs text-gray-500 dark:text-gray-400 ${isExpanded ? '' : 'line-clamp-1'}`}>
+            {tool.description}
+          </p>
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3 border-t dark:border-gray-700 pt-3">
+          <SchemaForm
+            schema={tool.inputSchema || { type: 'object' }}
+            value={args}
+            onChange={onArgsChange}
+            disabled={runState?.isRunning}
+          />
+
+          {inputErrors.length > 0 && (
+            <div className="flex items-start gap-2 p-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+              <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+              <ul className="space-y-0.5">
+                {inputErrors.map((err) => (
+                  <li key={`${err.path}-${err.message}`}>
+                    <span className="font-mono">{err.path}</span>: {err.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <button
+            onClick={onRun}
+            disabled={!canRun || runState?.isRunning}
+            className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium text-white bg-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {runState?.isRunning ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Running...
+              </>
+            ) : (
+              <>
+                <Play className="h-4 w-4" />
+                Run Tool
+              </>
+            )}
+          </button>
+
+          {runState?.error && (
+            <div className="flex items-start gap-2 p-2 text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 rounded-lg">
+              <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+              <span className="break-all">{runState.error}</span>
+            </div>
+          )}
+
+          {runState?.result !== undefined && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                {!tool.outputSchema ? (
+                  <span className="text-gray-500 dark:text-gray-400">No output schema declared</span>
+                ) : runState.outputErrors && runState.outputErrors.length > 0 ? (
+                  <span className="flex items-center gap-1 text-red-600 dark:text-red-400">
+                    <AlertCircle className="h-3.5 w-3.5" />
+                    Output does not match schema
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-1 text-green-600 dark:text-green-400">
+                    <CheckCircle className="h-3.5 w-3.5" />
+                    Output matches schema
+                  </span>
+                )}
+                <span className="text-gray-400">{runState.durationMs}ms</span>
+              </div>
+
+              {runState.outputErrors && runState.outputErrors.length > 0 && (
+                <ul className="text-xs text-red-600 dark:text-red-400 space-y-0.5">
+                  {runState.outputErrors.map((err) => (
+                    <li key={`${err.path}-${err.message}`}>
+                      <span className="font-mono">{err.path}</span>: {err.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <pre className="max-h-64 overflow-auto p-2 text-xs font-mono bg-gray-50 dark:bg-gray-800 text-gray-800 dark:text-gray-200 rounded-lg">
+                {JSON.stringify(runState.result, null, 2)}
+              </pre>
+            </div>
+          )}
+
+          {runState?.frames && runState.frames.length > 0 && (
+            <div className="space-y-1">
+              <h5 className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                Frames ({runState.frames.length})
+              </h5>
+              <McpFrameList frames={runState.frames} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export function ToolExplorer({ serviceUrl, agentInfo }: ToolExplorerProps) {
+  const [filter, setFilter] = useState('');
+  const [expandedTool, setExpandedTool] = useState<string | null>(null);
+  const [toolArgs, setToolArgs] = useState<Record<string, Record<string, any>>>({});
+  const [runStates, setRunStates] = useState<Record<string, ToolRunState>>({});
+
+  const tools = useMemo(() => agentInfo.tools || [], [agentInfo.tools]);
+  const mcpEndpoint = agentInfo.endpoints?.mcp;
+
+  // Group filtered tools by category
+  const groupedTools = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const groups: Record<string, AgentConfigTool[]> = {};
+
+    tools
+      .filter(
+        (tool) =>
+          !query ||
+          tool.name.toLowerCase().includes(query) ||
+          tool.description?.toLowerCase().includes(query) ||
+          tool.category?.toLowerCase().includes(query)
+      )
+      .forEach((tool) => {
+        const category = tool.category || 'Uncategorized';
+        (groups[category] = groups[category] || []).push(tool);
+      });
+
+    return groups;
+  }, [tools, filter]);
+
+  const getArgs = (tool: AgentConfigTool) =>
+    toolArgs[tool.name] ?? (getSchemaDefaultValue(tool.inputSchema) || {});
+
+  const handleRun = useCallback(
+    async (tool: AgentConfigTool, args: Record<string, any>) => {
+      if (!mcpEndpoint) return;
+
+      setRunStates((prev) => ({ ...prev, [tool.name]: { isRunning: true } }));
+      const startedAt = performance.now();
+
+      try {
+        const mcpUrl = getAgentEndpointUrl(serviceUrl, mcpEndpoint);
+        console.log(`[ToolExplorer] Calling ${tool.name} via ${mcpUrl}`, args);
+
+        // Credentials are added by agentHeadersMiddleware when the endpoint may receive them
+        const { result, error, frames } = await callMcpTool(mcpUrl, buildAgentHeaders(), tool.name, args);
+        const durationMs = Math.round(performance.now() - startedAt);
+
+        setRunStates((prev) => ({
+          ...prev,
+          [tool.name]: {
+            isRunning: false,
+            result,
+            durationMs,
+            frames,
+            error: error ?? (result?.isError ? 'Tool reported an error (isError: true)' : undefined),
+            outputErrors:
+              result && tool.outputSchema
+                ? validateAgainstSchema(getToolResultValue(result), tool.outputSchema)
+                : undefined,
+          },
+        }));
+      } catch (error) {
+        console.error(`[ToolExplorer] Error calling ${tool.name}:`, error);
+        setRunStates((prev) => ({
+          ...prev,
+          [tool.name]: {
+            isRunning: false,
+            durationMs: Math.round(performance.now() - startedAt),
+            error: error instanceof Error ? error.message : 'Unknown error',
+          },
+        }));
+      }
+    },
+    [serviceUrl, mcpEndpoint]
+  );
+
+  if (tools.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        This agent does not advertise any tools.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {!mcpEndpoint && (
+        <div className="flex items-start gap-2 p-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+          <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0 mt-0.5" />
+          <span>
+            The agent config has no <code>endpoints.mcp</code>, so tools can be browsed but not invoked directly.
+          </span>
+        </div>
+      )}
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter tools..."
+          className="w-full pl-10 pr-3 py-2 text-sm border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </div>
+
+      {Object.keys(groupedTools).length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No tools match &quot;{filter}&quot;.</p>
+      )}
+
+      {Object.entries(groupedTools).map(([category, categoryTools]) => (
+        <div key={category} className="space-y-2">
+          <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400">
+            {category} ({categoryTools.length})
+          </h4>
+          {categoryTools.map((tool) => (
+            <ToolItem
+              key={tool.name}
+              tool={tool}
+              isExpanded={expandedTool === tool.name}
+              args={getArgs(tool)}
+              runState={runStates[tool.name]}
+              canRun={Boolean(mcpEndpoint)}
+              onToggle={() => setExpandedTool(expandedTool === tool.name ? null : tool.name)}
+              onArgsChange={(args) => setToolArgs((prev) => ({ ...prev, [tool.name]: args }))}
+              onRun={() => handleRun(tool, getArgs(tool))}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
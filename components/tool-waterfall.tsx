@@ -0,0 +1,349 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { GanttChart, AlertCircle, Zap } from 'lucide-react';
+import type { StreamTurn } from '@/types/stream';
+import type { ComparableMessage } from '@/types/compare';
+import type { ToolWaterfallRow, ToolWaterfallTurn, ParallelHint, ToolRowStatus } from '@/types/tool-timeline';
+import { buildConversationWaterfall } from '@/utils/tool-timeline';
+import { formatMs } from '@/utils/stream-metrics';
+import { JsonTree } from '@/components/json-tree';
+
+type WaterfallView = 'turn' | 'conversation';
+
+interface ToolWaterfallProps {
+  turns: StreamTurn[];
+  messages: ComparableMessage[];
+}
+
+const BAR_COLORS: Record<ToolRowStatus, string> = {
+  complete: 'bg-amber-400 dark:bg-amber-500',
+  running: 'bg-indigo-400 animate-pulse',
+  error: 'bg-red-500',
+  unknown: 'bg-gray-300 dark:bg-gray-600',
+};
+
+const TIMING_LABELS: Record<ToolWaterfallTurn['timingSource'], string> = {
+  agent: 'agent timestamps',
+  stream: 'stream frames',
+  none: 'no timing recorded',
+};
+
+const formatSize = (size?: number) => {
+  if (size === undefined) return '—';
+  if (size < 1024) return `${size} B`;
+  return `${(size / 1024).toFixed(1)} KB`;
+};
+
+const HintList: React.FC<{ hints: ParallelHint[] }> = ({ hints }) => (
+  <div className="space-y-1">
+    {hints.map((hint) => (
+      <div
+        key={hint.toolCallIds.join()}
+        className="flex items-start gap-1.5 px-2 py-1.5 rounded-lg text-xs bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200"
+      >
+        <Zap className="h-3 w-3 mt-0.5 flex-shrink-0" />
+        <span>
+          <span className="font-mono">{hint.toolNames.join(' → ')}</span> ran one after another without using each
+          other&apos;s output; in parallel they could save ~{formatMs(hint.savingsMs)} of {formatMs(hint.serialMs)}.
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+const WaterfallRow: React.FC<{ row: ToolWaterfallRow; spanMs: number }> = ({ row, spanMs }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const hasTiming = row.startMs !== undefined;
+  const left = hasTiming ? (row.startMs! / spanMs) * 100 : 0;
+  const width = hasTiming ? (((row.endMs ?? spanMs) - row.startMs!) / spanMs) * 100 : 0;
+
+  return (
+    <div className={`border-b last:border-b-0 dark:border-gray-700 ${row.status === 'error' ? 'bg-red-50 dark:bg-red-900/20' : ''}`}>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-2 py-1.5 text-left text-xs hover:bg-gray-50 dark:hover:bg-gray-800"
+        title={row.toolCallId}
+      >
+        <span
+          className={`w-28 flex-shrink-0 truncate font-mono ${
+            row.status === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          {row.toolName}
+        </span>
+        <span className="relative flex-1 h-3 rounded bg-gray-100 dark:bg-gray-800">
+          {hasTiming ? (
+            <span
+              className={`absolute top-0 h-3 rounded ${BAR_COLORS[row.status]}`}
+              style={{ left: `${left}%`, width: `${width}%`, minWidth: '2px' }}
+            />
+          ) : (
+            <span className="absolute inset-0 flex items-center justify-center text-[10px] text-gray-400">
+              no timing
+            </span>
+          )}
+        </span>
+        <span className="w-12 flex-shrink-0 text-right font-mono text-gray-500 dark:text-gray-400">
+          {row.status === 'running' ? '…' : formatMs(row.durationMs)}
+        </span>
+      </button>
+      {isExpanded && (
+        <div className="px-2 pb-2 space-y-2 text-xs">
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <div className="text-gray-400">start</div>
+              <div className="text-gray-700 dark:text-gray-300">
+                {row.startMs !== undefined ? `+${formatMs(row.startMs)}` : '—'}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-400">end</div>
+              <div className="text-gray-700 dark:text-gray-300">
+                {row.endMs !== undefined ? `+${formatMs(row.endMs)}` : '—'}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-400">status</div>
+              <div className={row.status === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'}>
+                {row.status}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-400">parallel with</div>
+              <div className="text-gray-700 dark:text-gray-300">
+                {row.concurrentCount === 0 ? 'none' : `${row.concurrentCount} call${row.concurrentCount === 1 ? '' : 's'}`}
+              </div>
+            </div>
+            <div>
+              <div className="text-gray-400">args</div>
+              <div className="text-gray-700 dark:text-gray-300">{formatSize(row.argsSize)}</div>
+            </div>
+            <div>
+              <div className="text-gray-400">output</div>
+              <div className="text-gray-700 dark:text-gray-300">{formatSize(row.outputSize)}</div>
+            </div>
+          </div>
+          {row.error && (
+            <div className="flex items-start gap-1.5 text-red-600 dark:text-red-400">
+              <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              {row.error}
+            </div>
+          )}
+          <div className="font-mono text-gray-400 truncate">{row.toolCallId}</div>
+          {row.args !== undefined && (
+            <div className="p-2 rounded bg-gray-50 dark:bg-gray-800">
+              <JsonTree value={row.args} defaultExpandDepth={1} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TurnWaterfall: React.FC<{ turn: ToolWaterfallTurn }> = ({ turn }) => {
+  const spanMs = Math.max(1, ...turn.rows.map((row) => row.endMs ?? row.startMs ?? 0));
+  const failed = turn.rows.filter((row) => row.status === 'error').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-x-2 gap-y-0.5 text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {turn.rows.length} call{turn.rows.length === 1 ? '' : 's'}
+        </span>
+        {failed > 0 && <span className="text-red-600 dark:text-red-400">· {failed} failed</span>}
+        <span title="First call start to last call end">· wall {formatMs(turn.wallMs)}</span>
+        <span title="Sum of call durations">· tool time {formatMs(turn.serialMs)}</span>
+        <span>· max {turn.maxConcurrency} at once</span>
+        <span>· {TIMING_LABELS[turn.timingSource]}</span>
+      </div>
+      {turn.hints.length > 0 && <HintList hints={turn.hints} />}
+      <div className="border rounded-lg dark:border-gray-700">
+        {turn.rows.map((row) => (
+          <WaterfallRow key={row.toolCallId} row={row} spanMs={spanMs} />
+        ))}
+        {turn.timingSource !== 'none' && (
+          <div className="flex justify-between pl-32 pr-16 py-1 text-[10px] font-mono text-gray-400 border-t dark:border-gray-700">
+            <span>0</span>
+            <span>{formatMs(spanMs)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Waterfall of tool calls per assistant turn, with a conversation-wide summary
+export function ToolWaterfall({ turns, messages }: ToolWaterfallProps) {
+  const [view, setView] = useState<WaterfallView>('turn');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const summary = useMemo(() => buildConversationWaterfall(messages, turns), [messages, turns]);
+
+  // Follow the newest turn unless the user picked one that still exists
+  useEffect(() => {
+    if (!selectedId || !summary.turns.some((t) => t.messageId === selectedId)) {
+      setSelectedId(summary.turns.length > 0 ? summary.turns[summary.turns.length - 1].messageId : null);
+    }
+  }, [summary, selectedId]);
+
+  if (summary.turns.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-48 text-center p-6">
+        <GanttChart className="w-6 h-6 text-gray-400 mb-3" />
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          No tool calls yet. Responses that call tools show up here as a waterfall.
+        </div>
+      </div>
+    );
+  }
+
+  const selectedTurn = summary.turns.find((t) => t.messageId === selectedId) || null;
+  const maxWallMs = Math.max(1, ...summary.turns.map((t) => t.wallMs ?? t.serialMs));
+  const stats = [
+    { label: 'turns', value: String(summary.turns.length) },
+    { label: 'tool calls', value: String(summary.totalCalls) },
+    { label: 'failed', value: String(summary.totalErrors) },
+    { label: 'tool time', value: formatMs(summary.totalToolMs) },
+    { label: 'wall time', value: formatMs(summary.totalWallMs) },
+    { label: 'could save', value: summary.potentialSavingsMs > 0 ? `~${formatMs(summary.potentialSavingsMs)}` : '—' },
+  ];
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex items-center gap-1 p-2 border-b dark:border-gray-700">
+        {(['turn', 'conversation'] as WaterfallView[]).map((v) => (
+          <button
+            key={v}
+            onClick={() => setView(v)}
+            className={`px-2 py-1 text-xs rounded capitalize ${
+              view === v
+                ? 'bg-gray-900 text-white dark:bg-white dark:text-gray-900'
+                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+            }`}
+          >
+            {v}
+          </button>
+        ))}
+      </div>
+
+      {view === 'turn' ? (
+        <>
+          {/* Turn list */}
+          <div className="max-h-48 overflow-y-auto border-b dark:border-gray-700 p-2 space-y-1">
+            {summary.turns
+              .slice()
+              .reverse()
+              .map((turn) => (
+                <button
+                  key={turn.messageId}
+                  onClick={() => setSelectedId(turn.messageId)}
+                  className={`w-full text-left px-2 py-1.5 rounded-lg text-xs transition-colors ${
+                    turn.messageId === selectedId
+                      ? 'bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800'
+                      : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate text-gray-800 dark:text-gray-200">{turn.preview || '(empty response)'}</span>
+                    <span className="flex-shrink-0 text-gray-400">
+                      {turn.rows.length} · {formatMs(turn.wallMs)}
+                    </span>
+                  </div>
+                  {turn.hints.length > 0 && (
+                    <div className="text-amber-600 dark:text-amber-400">
+                      could save ~{formatMs(turn.hints.reduce((sum, hint) => sum + hint.savingsMs, 0))}
+                    </div>
+                  )}
+                </button>
+              ))}
+          </div>
+          <div className="flex-1 overflow-y-auto min-h-0 p-2">
+            {selectedTurn && <TurnWaterfall key={selectedTurn.messageId} turn={selectedTurn} />}
+          </div>
+        </>
+      ) : (
+        <div className="flex-1 overflow-y-auto min-h-0 p-2 space-y-3">
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            {stats.map((stat) => (
+              <div key={stat.label}>
+                <div className="text-gray-400">{stat.label}</div>
+                <div className="text-gray-700 dark:text-gray-300">{stat.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Where the time goes, per tool */}
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-400">
+                <th className="font-normal pb-1">tool</th>
+                <th className="font-normal pb-1 text-right">calls</th>
+                <th className="font-normal pb-1 text-right">total</th>
+                <th className="font-normal pb-1 text-right">avg</th>
+                <th className="font-normal pb-1 text-right">max</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.tools.map((tool) => (
+                <tr key={tool.toolName} className="border-t dark:border-gray-700">
+                  <td className="py-1 pr-2 max-w-0 w-1/2">
+                    <div className="truncate font-mono text-gray-700 dark:text-gray-300">{tool.toolName}</div>
+                    <div className="h-1 mt-0.5 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                      <div
+                        className="h-full bg-amber-400 dark:bg-amber-500"
+                        style={{ width: `${summary.totalToolMs > 0 ? (tool.totalMs / summary.totalToolMs) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </td>
+                  <td className="py-1 text-right text-gray-600 dark:text-gray-400">
+                    {tool.calls}
+                    {tool.errors > 0 && <span className="text-red-600 dark:text-red-400"> ({tool.errors} failed)</span>}
+                  </td>
+                  <td className="py-1 text-right text-gray-600 dark:text-gray-400">{formatMs(tool.totalMs)}</td>
+                  <td className="py-1 text-right text-gray-600 dark:text-gray-400">{formatMs(tool.avgMs)}</td>
+                  <td className="py-1 text-right text-gray-600 dark:text-gray-400">{formatMs(tool.maxMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Tool wall time per turn */}
+          <div className="space-y-1">
+            {summary.turns.map((turn) => (
+              <button
+                key={turn.messageId}
+                onClick={() => {
+                  setSelectedId(turn.messageId);
+                  setView('turn');
+                }}
+                className="w-full flex items-center gap-2 text-left text-xs hover:bg-gray-50 dark:hover:bg-gray-800 rounded"
+                title="Show this turn"
+              >
+                <span className="w-28 flex-shrink-0 truncate text-gray-700 dark:text-gray-300">
+                  {turn.preview || '(empty response)'}
+                </span>
+                <span className="relative flex-1 h-3 rounded bg-gray-100 dark:bg-gray-800">
+                  <span
+                    className={`absolute left-0 top-0 h-3 rounded ${
+                      turn.rows.some((row) => row.status === 'error') ? 'bg-red-500' : 'bg-amber-400 dark:bg-amber-500'
+                    }`}
+                    style={{ width: `${((turn.wallMs ?? turn.serialMs) / maxWallMs) * 100}%`, minWidth: '2px' }}
+                  />
+                </span>
+                <span className="w-12 flex-shrink-0 text-right font-mono text-gray-500 dark:text-gray-400">
+                  {formatMs(turn.wallMs)}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {summary.turns.some((turn) => turn.hints.length > 0) && (
+            <HintList hints={summary.turns.flatMap((turn) => turn.hints)} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Download, Upload, AlertCircle } from 'lucide-react';
+import type { ImportedTranscript, TranscriptExportOptions, TranscriptFormat } from '@/types/transcript';
+import { DEFAULT_EXPORT_OPTIONS, TRANSCRIPT_FORMATS, parseTranscript } from '@/utils/transcript';
+
+interface TranscriptMenuProps {
+  hasMessages: boolean;
+  onExport: (format: TranscriptFormat, options: TranscriptExportOptions) => void;
+  onImport: (transcript: ImportedTranscript) => void;
+}
+
+const OPTION_LABELS: { id: keyof TranscriptExportOptions; label: string }[] = [
+  { id: 'includeToolSteps', label: 'Tool steps' },
+  { id: 'includeKnowledgeSources', label: 'Knowledge sources' },
+  { id: 'includeAnnotations', label: 'Annotations' },
+];
+
+// Export the chat as a transcript, or open an exported transcript for viewing
+export function TranscriptMenu({ hasMessages, onExport, onImport }: TranscriptMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<TranscriptFormat>('markdown');
+  const [options, setOptions] = useState<TranscriptExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportFile = async (file: File) => {
+    setImportError(null);
+    try {
+      onImport(parseTranscript(await file.text(), file.name));
+      setIsOpen(false);
+    } catch (err) {
+      setImportError(`Import failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 rounded-lg border bg-white dark:bg-gray-800 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        aria-label="Export or import transcript"
+        title="Export or import transcript"
+      >
+        <Download className="h-5 w-5 text-gray-600 dark:text-gray-300" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-11 z-20 w-64 p-3 space-y-3 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg shadow-lg">
+            <div className="space-y-2">
+              <div className="text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">
+                Export
+              </div>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as TranscriptFormat)}
+                className="w-full px-2 py-1.5 text-xs border rounded-lg bg-white dark:bg-gray-800 dark:border-gray-600 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {TRANSCRIPT_FORMATS.map((f) => (
+                  <option key={f.id} value={f.id}>
+                    {f.label}
+                  </option>
+                ))}
+              </select>
+              {OPTION_LABELS.map((option) => (
+                <label
+                  key={option.id}
+                  className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={options[option.id]}
+                    onChange={(e) => setOptions({ ...options, [option.id]: e.target.checked })}
+                  />
+                  {option.label}
+                </label>
+              ))}
+              <button
+                onClick={() => {
+                  onExport(format, options);
+                  setIsOpen(false);
+                }}
+                disabled={!hasMessages}
+                className="w-full flex items-center justify-center gap-1 px-3 py-1.5 text-xs font-semibold text-white bg-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+              >
+                <Download className="h-3 w-3" />
+                {hasMessages ? 'Download' : 'No messages to export'}
+              </button>
+            </div>
+
+            <div className="pt-3 space-y-2 border-t dark:border-gray-700">
+              <div className="text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wider">
+                Import
+              </div>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full flex items-center justify-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700"
+              >
+                <Upload className="h-3 w-3" />
+                Open transcript...
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,.jsonl,.md,.markdown,.html,.htm"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportFile(file);
+                  e.target.value = '';
+                }}
+              />
+              {importError && (
+                <div className="flex items-start gap-1.5 text-xs text-red-600 dark:text-red-400">
+                  <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                  {importError}
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import type { AgentConfig } from '@/types/agent';
+import type { Transcript } from '@/types/transcript';
+import { usePromptReplay } from '@/hooks/use-prompt-replay';
+import { compareTranscripts, getTranscriptTurns } from '@/utils/agent-compare';
+import { CompareDiff } from '@/components/compare-diff';
+
+interface TranscriptReplayProps {
+  transcript: Transcript;
+  serviceUrl: string;
+  authToken: string;
+  agentInfo: AgentConfig;
+  chatId: string;
+}
+
+// Re-send a transcript's user turns to the connected agent and diff the new responses against the originals
+export function TranscriptReplay({ transcript, serviceUrl, authToken, agentInfo, chatId }: TranscriptReplayProps) {
+  const prompts = useMemo(
+    () => getTranscriptTurns(transcript.messages).map((turn) => turn.prompt),
+    [transcript.messages]
+  );
+  const replay = usePromptReplay({
+    serviceUrl,
+    authToken,
+    agentId: agentInfo.agent_id || agentInfo.name,
+    chatId,
+    prompts,
+  });
+  const comparisons = useMemo(
+    () => compareTranscripts(transcript.messages, replay.messages),
+    [transcript.messages, replay.messages]
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="flex items-center gap-2 px-3 pt-3 text-xs">
+        {replay.status === 'running' && (
+          <span className="flex items-center gap-1.5 text-indigo-600 dark:text-indigo-400">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Replaying prompt {replay.sentCount}/{prompts.length} against {agentInfo.name}
+          </span>
+        )}
+        {replay.status === 'complete' && (
+          <span className="flex items-center gap-1.5 text-green-600 dark:text-green-400">
+            <CheckCircle className="h-3 w-3" />
+            Replayed {prompts.length} prompt{prompts.length === 1 ? '' : 's'} against {agentInfo.name}
+          </span>
+        )}
+        {replay.status === 'error' && (
+          <span className="flex items-center gap-1.5 text-red-600 dark:text-red-400">
+            <AlertCircle className="h-3 w-3" />
+            Replay stopped after prompt {replay.sentCount}: {replay.error}
+          </span>
+        )}
+      </div>
+      <CompareDiff
+        comparisons={comparisons}
+        leftLabel={transcript.agentName ? `Original (${transcript.agentName})` : 'Original'}
+        rightLabel={agentInfo.name}
+        emptyText="This transcript has no user messages to replay."
+        showResponses
+      />
+    </div>
+  );
+}
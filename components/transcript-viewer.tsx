@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, FileText, Wrench, BookOpen, X, Play, RotateCcw, ArrowLeft } from 'lucide-react';
+import type { AgentConfig } from '@/types/agent';
+import type { ImportedTranscript, TranscriptMessage } from '@/types/transcript';
+import { getKnowledgeSourceKey, getToolStepArgs, getToolStepName, getToolStepResult } from '@/utils/agent-compare';
+import { TranscriptReplay } from '@/components/transcript-replay';
+
+interface TranscriptViewerProps {
+  transcript: ImportedTranscript;
+  onClose: () => void;
+  // Connected agent the transcript can be replayed against
+  agent?: {
+    serviceUrl: string;
+    authToken: string;
+    agentInfo: AgentConfig;
+  } | null;
+}
+
+const createReplayChatId = () => `replay-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const headerButtonClassName =
+  'flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50';
+
+const Collapsible: React.FC<{ label: React.ReactNode; children: React.ReactNode }> = ({ label, children }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  return (
+    <div className="border dark:border-gray-700 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-1.5 px-2 py-1.5 text-xs text-left text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 rounded-lg"
+      >
+        {isOpen ? <ChevronDown className="h-3 w-3 text-gray-400" /> : <ChevronRight className="h-3 w-3 text-gray-400" />}
+        {label}
+      </button>
+      {isOpen && <div className="px-2 pb-2 space-y-1">{children}</div>}
+    </div>
+  );
+};
+
+const JsonBlock: React.FC<{ label: string; value: any }> = ({ label, value }) => (
+  <div>
+    <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+    <pre className="p-2 text-xs font-mono text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-800 rounded overflow-x-auto">
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  </div>
+);
+
+/**
+ * Tool steps, sources and annotation of a transcript message
+ */
+export const TranscriptMessageDetails: React.FC<{ message: TranscriptMessage }> = ({ message }) => (
+  <>
+    {message.toolSteps?.map((step, index) => {
+      const args = getToolStepArgs(step);
+      const result = getToolStepResult(step);
+      return (
+        <Collapsible
+          key={step.toolCallId || index}
+          label={
+            <>
+              <Wrench className="h-3 w-3 text-gray-400" />
+              <span className="font-mono">{getToolStepName(step)}</span>
+            </>
+          }
+        >
+          {args !== undefined && <JsonBlock label="Arguments" value={args} />}
+          {result !== undefined && <JsonBlock label="Result" value={result} />}
+        </Collapsible>
+      );
+    })}
+    {message.knowledgeSources && message.knowledgeSources.length > 0 && (
+      <div className="flex flex-wrap items-center gap-1">
+        <BookOpen className="h-3 w-3 text-gray-400" />
+        {message.knowledgeSources.map((source, index) => (
+          <span
+            key={index}
+            className="px-1.5 py-0.5 text-xs text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 rounded"
+          >
+            {source?.title || getKnowledgeSourceKey(source)}
+          </span>
+        ))}
+      </div>
+    )}
+    {message.annotation && (
+      <Collapsible label="Annotation">
+        <JsonBlock label="annotation" value={message.annotation} />
+      </Collapsible>
+    )}
+  </>
+);
+
+// Read-only view of an imported transcript, with replay against the connected agent
+export function TranscriptViewer({ transcript, onClose, agent }: TranscriptViewerProps) {
+  const [replayChatId, setReplayChatId] = useState<string | null>(null);
+  const hasPrompts = transcript.messages.some((message) => message.role === 'user');
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center justify-between gap-3 px-6 py-3 border-b dark:border-gray-700">
+        <div className="flex items-center gap-2 min-w-0">
+          <FileText className="h-4 w-4 flex-shrink-0 text-gray-400" />
+          <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{transcript.fileName}</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+            {transcript.agentName && `${transcript.agentName} · `}
+            {transcript.messages.length} messages
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {replayChatId ? (
+            <>
+              <button onClick={() => setReplayChatId(null)} className={headerButtonClassName}>
+                <ArrowLeft className="h-3 w-3" />
+                Transcript
+              </button>
+              <button
+                onClick={() => setReplayChatId(createReplayChatId())}
+                disabled={!agent}
+                className={headerButtonClassName}
+              >
+                <RotateCcw className="h-3 w-3" />
+                Replay Again
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setReplayChatId(createReplayChatId())}
+              disabled={!agent || !hasPrompts}
+              className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-semibold text-white bg-gray-600 rounded-lg hover:bg-gray-700 disabled:opacity-50"
+              title={agent ? `Re-send the user messages to ${agent.agentInfo.name}` : 'Connect to an agent to replay'}
+            >
+              <Play className="h-3 w-3" />
+              Replay
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+            aria-label="Close transcript"
+            title="Close transcript"
+          >
+            <X className="h-4 w-4 text-gray-500" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {replayChatId && agent ? (
+          <TranscriptReplay
+            key={replayChatId}
+            transcript={transcript}
+            serviceUrl={agent.serviceUrl}
+            authToken={agent.authToken}
+            agentInfo={agent.agentInfo}
+            chatId={replayChatId}
+          />
+        ) : (
+          <div className="max-w-3xl mx-auto px-6 py-6 space-y-5">
+            {transcript.messages.map((message) => (
+              <div key={message.id} className="space-y-1.5">
+                <div className="flex items-baseline gap-2">
+                  <span className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                    {message.role}
+                  </span>
+                  {message.createdAt && (
+                    <span className="text-xs text-gray-400">{new Date(message.createdAt).toLocaleString()}</span>
+                  )}
+                </div>
+                {message.content && (
+                  <div
+                    className={`px-4 py-3 text-sm whitespace-pre-wrap break-words rounded-lg text-gray-900 dark:text-gray-100 ${
+                      message.role === 'user' ? 'bg-indigo-50 dark:bg-indigo-900/20' : 'bg-gray-50 dark:bg-gray-800'
+                    }`}
+                  >
+                    {message.content}
+                  </div>
+                )}
+                <TranscriptMessageDetails message={message} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
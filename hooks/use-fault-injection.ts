@@ -0,0 +1,22 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { FaultConfig, FaultEvent } from '@/types/fault-injection';
+import {
+  DEFAULT_FAULT_CONFIG,
+  getFaultConfig,
+  getFaultEvents,
+  subscribeFaultInjection,
+} from '@/utils/fault-injection';
+
+const getServerConfig = (): FaultConfig => DEFAULT_FAULT_CONFIG;
+const getServerEvents = (): FaultEvent[] => [];
+
+/**
+ * Subscribe to the active fault config and the faults applied so far
+ */
+export function useFaultInjection(): { config: FaultConfig; events: FaultEvent[] } {
+  const config = useSyncExternalStore(subscribeFaultInjection, getFaultConfig, getServerConfig);
+  const events = useSyncExternalStore(subscribeFaultInjection, getFaultEvents, getServerEvents);
+  return { config, events };
+}
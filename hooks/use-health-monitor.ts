@@ -0,0 +1,132 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { AgentHealthSample, AgentHealthStatus } from '@/types/agent';
+import { buildAgentHeaders } from '@/utils/agent-headers';
+
+const HEALTH_POLL_INTERVAL_MS = 10000;
+const HEALTH_TIMEOUT_MS = 5000;
+const DEGRADED_LATENCY_MS = 2000;
+const MAX_SAMPLES = 60;
+
+interface UseHealthMonitorOptions {
+  healthUrl: string | null;
+  enabled: boolean;
+}
+
+interface UseHealthMonitorResult {
+  samples: AgentHealthSample[];
+  current: AgentHealthSample | null;
+}
+
+// Map the many shapes of health responses onto AgentHealthStatus
+const readHealthStatus = (body: any): AgentHealthStatus | null => {
+  const raw = typeof body === 'string' ? body : body?.status ?? body?.state;
+  if (typeof raw !== 'string') return null;
+
+  const value = raw.toLowerCase();
+  if (value === 'healthy' || value === 'degraded' || value === 'unhealthy') return value;
+  if (['ok', 'up', 'pass', 'running'].includes(value)) return 'healthy';
+  if (['warn', 'warning'].includes(value)) return 'degraded';
+  if (['down', 'fail', 'error'].includes(value)) return 'unhealthy';
+  return null;
+};
+
+// Credentials are added by agentHeadersMiddleware when the health URL may receive them
+const pollHealth = async (healthUrl: string): Promise<AgentHealthSample> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+  const startedAt = performance.now();
+
+  try {
+    const response = await fetch(healthUrl, {
+      headers: buildAgentHeaders(),
+      signal: controller.signal,
+      cache: 'no-store',
+    });
+    const latencyMs = Math.round(performance.now() - startedAt);
+
+    const text = await response.text();
+    let body: any = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Plain-text health responses are fine
+    }
+
+    let status: AgentHealthStatus = readHealthStatus(body) ?? (response.ok ? 'healthy' : 'unhealthy');
+    if (!response.ok) status = 'unhealthy';
+    if (status === 'healthy' && latencyMs > DEGRADED_LATENCY_MS) status = 'degraded';
+
+    return {
+      timestamp: Date.now(),
+      status,
+      latencyMs,
+      httpStatus: response.status,
+      error: response.ok ? undefined : `HTTP ${response.status}`,
+    };
+  } catch (err) {
+    return {
+      timestamp: Date.now(),
+      status: 'unhealthy',
+      latencyMs: Math.round(performance.now() - startedAt),
+      error: controller.signal.aborted
+        ? `Timed out after ${HEALTH_TIMEOUT_MS}ms`
+        : err instanceof Error ? err.message : 'Unknown error',
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Poll the agent's health endpoint in the background and keep a rolling
+ * history of status and latency.
+ */
+export function useHealthMonitor({
+  healthUrl,
+  enabled,
+}: UseHealthMonitorOptions): UseHealthMonitorResult {
+  const [samples, setSamples] = useState<AgentHealthSample[]>([]);
+  // URL of the probe currently awaiting a response, so a pending probe of a previous agent blocks nothing
+  const inFlight = useRef<string | null>(null);
+
+  // Start a fresh history whenever the target changes
+  useEffect(() => {
+    setSamples([]);
+  }, [healthUrl]);
+
+  useEffect(() => {
+    if (!enabled || !healthUrl) return;
+
+    let cancelled = false;
+
+    const tick = async () => {
+      if (inFlight.current === healthUrl) return;
+      inFlight.current = healthUrl;
+      const sample = await pollHealth(healthUrl);
+
+      // A late response from an earlier target must not land in this target's history
+      if (cancelled || inFlight.current !== healthUrl) return;
+      inFlight.current = null;
+      if (sample.status !== 'healthy') {
+        console.warn(`[HealthMonitor] ${healthUrl} is ${sample.status}:`, sample.error || `${sample.latencyMs}ms`);
+      }
+      setSamples((prev) => [...prev, sample].slice(-MAX_SAMPLES));
+    };
+
+    tick();
+    const intervalId = setInterval(tick, HEALTH_POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      inFlight.current = null;
+      clearInterval(intervalId);
+    };
+  }, [healthUrl, enabled]);
+
+  return {
+    samples,
+    current: samples.length > 0 ? samples[samples.length - 1] : null,
+  };
+}
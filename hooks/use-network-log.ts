@@ -0,0 +1,14 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { NetworkLogEntry } from '@/types/network';
+import { subscribeNetworkLog, getNetworkLog } from '@/utils/network-log';
+
+const getServerSnapshot = (): NetworkLogEntry[] => [];
+
+/**
+ * Subscribe to requests recorded by the network log middleware
+ */
+export function useNetworkLog(): NetworkLogEntry[] {
+  return useSyncExternalStore(subscribeNetworkLog, getNetworkLog, getServerSnapshot);
+}
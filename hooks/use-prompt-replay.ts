@@ -0,0 +1,108 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useChatStream } from '@newhomestar/chat-ui';
+import type { ComparableMessage } from '@/types/compare';
+
+// Give up on a prompt if the agent hasn't finished responding by then
+const PROMPT_TIMEOUT_MS = 120_000;
+
+export type PromptReplayStatus = 'running' | 'complete' | 'error';
+
+interface UsePromptReplayOptions {
+  serviceUrl: string;
+  authToken: string;
+  agentId: string;
+  chatId: string;
+  prompts: string[];
+}
+
+interface UsePromptReplayResult {
+  messages: ComparableMessage[];
+  status: PromptReplayStatus;
+  error: string | null;
+  // Number of prompts sent so far
+  sentCount: number;
+  isStreaming: boolean;
+}
+
+/**
+ * Send prompts to the agent one at a time through useChatStream, waiting for
+ * each response to finish before sending the next. Starts on mount; mount
+ * with a new key (and chat id) to replay again.
+ */
+export function usePromptReplay({
+  serviceUrl,
+  authToken,
+  agentId,
+  chatId,
+  prompts,
+}: UsePromptReplayOptions): UsePromptReplayResult {
+  const [sentCount, setSentCount] = useState(0);
+  const [status, setStatus] = useState<PromptReplayStatus>('running');
+  const [error, setError] = useState<string | null>(null);
+  // Message count when the pending prompt was sent, null when no prompt is pending
+  const sentAtMessageCount = useRef<number | null>(null);
+  const sawActivity = useRef(false);
+
+  const { messages, isLoading, isStreaming, sendMessage } = useChatStream({
+    apiUrl: serviceUrl,
+    agentId,
+    chatId,
+    authToken: authToken || 'demo-token',
+    settings: {
+      // Replays never write to the agent's chat history
+      persist: false,
+    },
+    onError: (errorMessage) => {
+      setError(errorMessage);
+      setStatus('error');
+    },
+  });
+
+  const isBusy = isLoading || isStreaming;
+
+  useEffect(() => {
+    if (isBusy) sawActivity.current = true;
+  }, [isBusy]);
+
+  useEffect(() => {
+    if (status !== 'running' || isBusy) return;
+
+    // The previous prompt is done once its response message has arrived, or the stream has
+    // started and stopped again; a fast stream can start and finish between two renders
+    if (sentAtMessageCount.current !== null) {
+      const hasResponse = messages.length >= sentAtMessageCount.current + 2;
+      if (!hasResponse && !sawActivity.current) return;
+      sentAtMessageCount.current = null;
+    }
+
+    if (sentCount >= prompts.length) {
+      setStatus('complete');
+      return;
+    }
+
+    sentAtMessageCount.current = messages.length;
+    sawActivity.current = false;
+    sendMessage(prompts[sentCount]);
+    setSentCount(sentCount + 1);
+  }, [status, isBusy, sentCount, prompts, sendMessage, messages.length]);
+
+  // Per-prompt timeout
+  useEffect(() => {
+    if (status !== 'running') return;
+    const timeoutId = setTimeout(() => {
+      setError(`Timed out waiting for a response to prompt ${sentCount}`);
+      setStatus('error');
+    }, PROMPT_TIMEOUT_MS);
+    return () => clearTimeout(timeoutId);
+  }, [status, sentCount]);
+
+  return {
+    messages: messages as ComparableMessage[],
+    status,
+    error,
+    sentCount,
+    isStreaming,
+  };
+}
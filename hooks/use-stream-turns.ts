@@ -0,0 +1,14 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { StreamTurn } from '@/types/stream';
+import { subscribeStreamTurns, getStreamTurns } from '@/utils/stream-capture';
+
+const getServerSnapshot = (): StreamTurn[] => [];
+
+/**
+ * Subscribe to chat stream turns captured by the stream capture middleware
+ */
+export function useStreamTurns(): StreamTurn[] {
+  return useSyncExternalStore(subscribeStreamTurns, getStreamTurns, getServerSnapshot);
+}
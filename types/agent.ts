@@ -4,6 +4,15 @@ export type AgentStatus = 'connected' | 'disconnected' | 'error';
 
 export type AgentHealthStatus = 'healthy' | 'degraded' | 'unhealthy';
 
+// A single health endpoint poll result
+export interface AgentHealthSample {
+  timestamp: number;
+  status: AgentHealthStatus;
+  latencyMs: number;
+  httpStatus?: number;
+  error?: string;
+}
+
 export interface AgentConfigEndpoints {
   discovery?: string;
   info?: string;
@@ -22,6 +31,19 @@ export interface AgentConfigTool {
   outputSchema?: any;
 }
 
+// A prompt advertised by the agent; the text field name varies between agents
+export interface AgentConfigPrompt {
+  name: string;
+  description?: string;
+  text?: string;
+  prompt?: string;
+  template?: string;
+  // MCP-style declared arguments
+  arguments?: { name: string; description?: string; required?: boolean }[];
+  tags?: string[];
+  [key: string]: any;
+}
+
 export interface AgentConfig {
   agent_id?: string;
   name: string;
@@ -34,16 +56,61 @@ export interface AgentConfig {
   endpoints?: AgentConfigEndpoints;
   tools?: AgentConfigTool[];
   resources?: any[];
-  prompts?: any[];
+  prompts?: AgentConfigPrompt[];
   models?: any[];
   config?: any;
   protocols?: any;
   metadata?: any;
 }
 
+// One config path tried by /api/discover, kept so failed discoveries can be diagnosed
+export interface DiscoveryAttempt {
+  url: string;
+  ok: boolean;
+  durationMs: number;
+  status?: number;
+  statusText?: string;
+  contentType?: string;
+  bodyPreview?: string;
+  // Why the response was not accepted as an agent config
+  reason?: string;
+}
+
+export type ConformanceSeverity = 'error' | 'warning';
+
+// A single problem found while validating a discovered agent-config
+export interface ConformanceIssue {
+  severity: ConformanceSeverity;
+  path: string;
+  message: string;
+}
+
+export interface ConformanceReport {
+  valid: boolean;
+  errors: ConformanceIssue[];
+  warnings: ConformanceIssue[];
+  checkedAt: string;
+}
+
+// How authToken is sent to the agent: as a bearer token, as an API key header,
+// or as the password half of HTTP Basic credentials
+export type AuthScheme =
+  | { type: 'bearer' }
+  | { type: 'api-key'; headerName: string }
+  | { type: 'basic'; username: string };
+
 export interface DebuggerConfig {
   serviceUrl: string;
   authToken: string;
+  authScheme: AuthScheme;
+  persist: boolean;
+  customHeaders: Record<string, string>;
+}
+
+// A named, saved DebuggerConfig (e.g. local, staging, prod)
+export interface ConnectionProfile extends DebuggerConfig {
+  id: string;
+  name: string;
 }
 
 export interface DebuggerState {
@@ -58,9 +125,16 @@ export interface DebuggerState {
 export const STORAGE_KEYS = {
   SERVICE_URL: 'nova-debugger-service-url',
   AUTH_TOKEN: 'nova-debugger-auth-token',
+  AUTH_SCHEME: 'nova-debugger-auth-scheme',
   PANEL_OPEN: 'nova-debugger-panel-open',
   PERSIST: 'nova-debugger-persist',
   CHAT_SIDEBAR_OPEN: 'nova-debugger-chat-sidebar-open',
+  INSPECTOR_OPEN: 'nova-debugger-inspector-open',
+  CUSTOM_HEADERS: 'nova-debugger-custom-headers',
+  PROFILES: 'nova-debugger-profiles',
+  ACTIVE_PROFILE: 'nova-debugger-active-profile',
+  TEST_CASES: 'nova-debugger-test-cases',
+  SAVED_PROMPTS: 'nova-debugger-saved-prompts',
 } as const;
 
 // Chat types for persistence
@@ -82,12 +156,66 @@ export interface ChatMessage {
   liked?: boolean;
   disliked?: boolean;
   hasComment?: boolean;
+  comment?: string;
+}
+
+// How the tool composer treats a tool for one message
+export type ToolChoiceMode = 'auto' | 'force' | 'disable';
+
+// A tool the agent must call for a message, with its arguments
+export interface ForcedToolCall {
+  name: string;
+  args: Record<string, any>;
+}
+
+// Tool routing overrides sent in a user message's annotation
+export interface ToolRoutingAnnotation {
+  forced_tools?: ForcedToolCall[];
+  disabled_tools?: string[];
+}
+
+export type MessageFeedbackType = 'like' | 'dislike';
+
+// Feedback state of a message as stored by the agent
+export interface MessageFeedback {
+  liked: boolean;
+  disliked: boolean;
+  hasComment: boolean;
+  comment?: string;
 }
 
 export interface ChatListResponse {
   success: boolean;
   chats: Chat[];
   error?: string;
+  // Set by agents that page the list; null on the last page
+  nextCursor?: string | null;
+}
+
+// Chat history filters, sent to the agent as list query parameters
+export interface ChatListFilter {
+  // Matched against titles and message content
+  search?: string;
+  // ISO timestamps bounding the chat's last update
+  from?: string;
+  to?: string;
+  userId?: string;
+}
+
+// Outcome of a bulk operation (delete, export) for one chat
+export interface ChatBulkResult {
+  chatId: string;
+  title: string | null;
+  ok: boolean;
+  error?: string;
+}
+
+// Chats with their messages, as saved by a bulk export
+export interface ChatArchive {
+  version: number;
+  exportedAt: string;
+  serviceUrl: string;
+  chats: (Chat & { messages: ChatMessage[] })[];
 }
 
 export interface ChatMessagesResponse {
@@ -0,0 +1,44 @@
+// Types for inspecting retrieved knowledge sources and how responses cite them
+
+// How a sentence was linked to a source
+// marker: explicit citation such as [1], [^2] or [doc-id]; overlap: shares most of its words with the chunk
+export type CitationMethod = 'marker' | 'overlap';
+
+// One retrieved knowledge source of a turn
+export interface RetrievedSource {
+  // 1-based position, as used by numeric citation markers
+  index: number;
+  key: string;
+  title?: string;
+  documentId?: string;
+  url?: string;
+  score?: number;
+  chunk?: string;
+  // Everything else the agent sent with the source
+  metadata: Record<string, any>;
+  // Sentence indexes citing this source
+  citedBy: number[];
+}
+
+export interface SentenceCitation {
+  sourceIndex: number;
+  method: CitationMethod;
+}
+
+// One sentence of the response text
+export interface CitedSentence {
+  index: number;
+  text: string;
+  citations: SentenceCitation[];
+}
+
+// Sources and citations of one assistant turn
+export interface TurnCitationReport {
+  messageId: string;
+  preview: string;
+  sources: RetrievedSource[];
+  sentences: CitedSentence[];
+  // Sources were retrieved but no sentence cites any of them
+  citesNothing: boolean;
+  unusedSourceIndexes: number[];
+}
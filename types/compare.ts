@@ -0,0 +1,52 @@
+// Types for side-by-side agent comparison
+
+import type { AgentConfig, DebuggerConfig } from '@/types/agent';
+import type { InspectableMessage } from '@/types/stream';
+
+// The second agent connected in comparison mode
+export interface CompareTarget extends DebuggerConfig {
+  label: string;
+  agentInfo: AgentConfig;
+}
+
+// Rendered message fields the comparison reads (toolSteps and sources are agent-defined)
+export interface ComparableMessage extends InspectableMessage {
+  toolSteps?: any[];
+  knowledgeSources?: any[];
+}
+
+export type TextDiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface TextDiffSegment {
+  type: TextDiffSegmentType;
+  text: string;
+}
+
+export type CompareSide = 'left' | 'right';
+
+// One tool name occurrence matched across both responses
+export interface ToolCallDiff {
+  toolName: string;
+  status: 'both' | 'left-only' | 'right-only';
+  argsEqual?: boolean;
+  leftArgs?: any;
+  rightArgs?: any;
+}
+
+export interface KnowledgeSourceDiff {
+  shared: string[];
+  leftOnly: string[];
+  rightOnly: string[];
+}
+
+// One prompt and the two assistant responses it produced
+export interface TurnComparison {
+  index: number;
+  prompt: string;
+  left?: ComparableMessage;
+  right?: ComparableMessage;
+  textDiff: TextDiffSegment[];
+  textSimilarity: number;
+  toolDiff: ToolCallDiff[];
+  sourceDiff: KnowledgeSourceDiff;
+}
@@ -0,0 +1,32 @@
+// Types for injecting failures into agent traffic
+
+export type FaultScope = 'stream' | 'all';
+
+export type FaultErrorStatus = 429 | 500 | 502;
+
+export interface FaultConfig {
+  enabled: boolean;
+  // Chat stream requests only, or every request to the connected agent
+  scope: FaultScope;
+  // Added before the request is sent
+  latencyMs: number;
+  // Delay between stream frames
+  chunkDelayMs: number;
+  // Drop the connection after this many frames (0 = never)
+  dropAfterFrames: number;
+  // Replace the response with this status...
+  errorStatus: FaultErrorStatus | null;
+  // ...for this percentage of requests
+  errorRate: number;
+  // Percentage of stream frames that are truncated mid-payload
+  corruptRate: number;
+}
+
+// A fault that was applied, shown in the control UI
+export interface FaultEvent {
+  id: string;
+  timestamp: number;
+  url: string;
+  fault: 'latency' | 'error' | 'drop' | 'corrupt';
+  detail: string;
+}
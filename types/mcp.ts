@@ -0,0 +1,36 @@
+// Types for the Model Context Protocol (JSON-RPC over streamable HTTP)
+
+export interface McpJsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: number;
+  method: string;
+  params?: any;
+}
+
+export interface McpJsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export interface McpJsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | null;
+  result?: any;
+  error?: McpJsonRpcError;
+}
+
+// A single frame exchanged with the MCP endpoint, kept for inspection
+export interface McpFrame {
+  direction: 'outgoing' | 'incoming';
+  timestamp: number;
+  method?: string;
+  status?: number;
+  payload: McpJsonRpcRequest | McpJsonRpcResponse | string;
+}
+
+export interface McpToolCallResult {
+  content?: Array<{ type: string; text?: string; [key: string]: any }>;
+  structuredContent?: any;
+  isError?: boolean;
+}
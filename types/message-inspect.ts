@@ -0,0 +1,23 @@
+// Types for inspecting how persisted messages are transformed for chat-ui
+
+// Why a field of the persisted message is highlighted
+export type TransformFieldStatus = 'ignored' | 'deduplicated' | 'passthrough';
+
+// What the message loader did with a persisted message
+export interface MessageTransformReport {
+  // Top-level fields the loader never reads
+  ignoredFields: string[];
+  // Indexes of annotation.toolSteps dropped as duplicates of an earlier toolCallId
+  duplicateToolSteps: { index: number; toolCallId: string }[];
+  // Annotation keys only handed to chat-ui inside toolData.output
+  passthroughAnnotationKeys: string[];
+  // Status per JSON path of the persisted message, e.g. `$.annotation.toolSteps[2]`
+  highlights: Record<string, TransformFieldStatus>;
+}
+
+// Request to open the message inspector on one message
+export interface InspectMessageRequest {
+  messageId: string;
+  // When it was made, so inspecting the same message again re-selects it
+  requestedAt: number;
+}
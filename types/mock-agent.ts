@@ -0,0 +1,67 @@
+// Types for the built-in mock agent backend (/api/mock)
+
+export type MockStreamProtocol = 'ui-message-stream' | 'data-stream';
+
+export interface MockToolCall {
+  toolName: string;
+  args?: Record<string, any>;
+  output?: any;
+  // Time the tool "runs" before its output is sent
+  delayMs?: number;
+  // Send a tool error instead of the output
+  error?: string;
+}
+
+export interface MockErrorScript {
+  // HTTP status returned instead of a stream (e.g. 401, 429, 500)
+  status?: number;
+  message: string;
+  // Fail after this many text chunks instead of before streaming
+  afterChunks?: number;
+}
+
+export interface MockResponseScript {
+  text?: string;
+  toolCalls?: MockToolCall[];
+  knowledgeSources?: any[];
+  // Extra fields merged into the persisted message annotation
+  annotation?: Record<string, any>;
+  error?: MockErrorScript;
+  chunkDelayMs?: number;
+}
+
+// First rule whose `match` appears in the prompt wins; `/.../flags` is treated as a regex
+export interface MockRule {
+  match: string;
+  response: MockResponseScript;
+}
+
+export interface MockScript {
+  protocol: MockStreamProtocol;
+  requireAuth: boolean;
+  chunkDelayMs: number;
+  rules: MockRule[];
+  // Used when no rule matches; `{{prompt}}` is replaced with the user prompt
+  fallback: MockResponseScript;
+}
+
+export interface MockStoredMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  annotation?: Record<string, any>;
+  liked?: boolean;
+  disliked?: boolean;
+  hasComment?: boolean;
+  comment?: string;
+}
+
+export interface MockStoredChat {
+  id: string;
+  title: string | null;
+  created_at: string;
+  updated_at: string;
+  user_id?: string;
+  messages: MockStoredMessage[];
+}
@@ -0,0 +1,19 @@
+// Types for the debugger's network activity log
+
+export interface NetworkLogEntry {
+  id: string;
+  startedAt: number;
+  durationMs?: number;
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  responseBody?: string;
+  responseSize?: number;
+  responseTruncated?: boolean;
+  error?: string;
+  pending: boolean;
+}
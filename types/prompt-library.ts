@@ -0,0 +1,38 @@
+// Types for the prompt library
+
+// A prompt saved locally by the team
+export interface SavedPrompt {
+  id: string;
+  name: string;
+  description?: string;
+  // Text with {{variable}} placeholders
+  template: string;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptVariable {
+  name: string;
+  description?: string;
+  required: boolean;
+  // Declared by the agent but missing from the template; appended as "name: value"
+  isExtra?: boolean;
+}
+
+// Agent-advertised and saved prompts in one list
+export interface LibraryPrompt {
+  id: string;
+  source: 'agent' | 'local';
+  name: string;
+  description?: string;
+  template: string;
+  tags: string[];
+  variables: PromptVariable[];
+}
+
+export interface PromptExport {
+  version: number;
+  exportedAt: string;
+  prompts: Omit<SavedPrompt, 'id'>[];
+}
@@ -0,0 +1,71 @@
+// Types for captured chat stream traffic
+
+export type StreamProtocol = 'sse' | 'data-stream' | 'ndjson' | 'text';
+
+// A single frame/event received from /api/chat/stream
+export interface StreamFrame {
+  index: number;
+  timestamp: number;
+  offsetMs: number;
+  protocol: StreamProtocol;
+  type: string;
+  raw: string;
+  payload?: any;
+  parseError?: string;
+}
+
+export type StreamTurnStatus = 'streaming' | 'complete' | 'error' | 'aborted';
+
+// One request to the stream endpoint, i.e. one assistant turn
+export interface StreamTurn {
+  id: string;
+  url: string;
+  chatId?: string;
+  messageId?: string;
+  requestBody?: any;
+  httpStatus?: number;
+  status: StreamTurnStatus;
+  startedAt: number;
+  completedAt?: number;
+  error?: string;
+  frames: StreamFrame[];
+}
+
+// Minimal message shape needed to pin turns to rendered messages
+export interface InspectableMessage {
+  id: string;
+  role: string;
+  content: string;
+}
+
+// Timing of a single tool step within a turn
+export interface ToolStepTiming {
+  toolCallId: string;
+  toolName?: string;
+  startOffsetMs: number;
+  endOffsetMs?: number;
+  durationMs?: number;
+  status: 'running' | 'complete' | 'error';
+}
+
+// Latency and throughput of one assistant turn
+export interface TurnMetrics {
+  timeToFirstTokenMs?: number;
+  totalDurationMs?: number;
+  chunkCount: number;
+  textLength: number;
+  approxTokens: number;
+  tokensPerSecond?: number;
+  toolSteps: ToolStepTiming[];
+}
+
+// Aggregate over the completed turns of a session
+export interface SessionMetrics {
+  turnCount: number;
+  avgTimeToFirstTokenMs?: number;
+  p95TimeToFirstTokenMs?: number;
+  avgDurationMs?: number;
+  avgTokensPerSecond?: number;
+  totalToolCalls: number;
+  slowestTool?: ToolStepTiming;
+}
@@ -0,0 +1,51 @@
+// Types for recorded regression test cases
+
+import type { ComparableMessage, TurnComparison } from '@/types/compare';
+
+export type TestAssertionType = 'text-contains' | 'text-matches' | 'tool-called' | 'source-cited' | 'max-latency';
+
+interface TestAssertionBase {
+  id: string;
+  // Which assistant response (0-based) the assertion applies to
+  turnIndex: number;
+}
+
+export type TestAssertion = TestAssertionBase &
+  (
+    | { type: 'text-contains'; value: string; caseSensitive?: boolean }
+    | { type: 'text-matches'; pattern: string; flags?: string }
+    | { type: 'tool-called'; toolName: string; args?: Record<string, any> }
+    | { type: 'source-cited'; source: string }
+    | { type: 'max-latency'; metric: 'ttft' | 'total'; maxMs: number }
+  );
+
+// Response fields recorded as the baseline for one turn
+export type RecordedResponse = Pick<ComparableMessage, 'content' | 'toolSteps' | 'knowledgeSources'>;
+
+export interface TestCase {
+  id: string;
+  name: string;
+  createdAt: string;
+  agentName?: string;
+  prompts: string[];
+  baseline: RecordedResponse[];
+  assertions: TestAssertion[];
+}
+
+export interface TestAssertionResult {
+  assertionId: string;
+  passed: boolean;
+  message: string;
+}
+
+export type TestCaseStatus = 'pending' | 'running' | 'passed' | 'failed' | 'error';
+
+export interface TestCaseResult {
+  caseId: string;
+  status: TestCaseStatus;
+  startedAt: number;
+  durationMs?: number;
+  assertionResults: TestAssertionResult[];
+  comparisons: TurnComparison[];
+  error?: string;
+}
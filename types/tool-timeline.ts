@@ -0,0 +1,67 @@
+// Types for the tool execution waterfall
+
+export type ToolRowStatus = 'running' | 'complete' | 'error' | 'unknown';
+
+// Where the start/end times of a turn's tool calls came from
+export type ToolTimingSource = 'agent' | 'stream' | 'none';
+
+// One tool call (toolCallId) in a turn
+export interface ToolWaterfallRow {
+  toolCallId: string;
+  toolName: string;
+  status: ToolRowStatus;
+  // Milliseconds from the start of the turn (or the first call for agent timestamps)
+  startMs?: number;
+  endMs?: number;
+  durationMs?: number;
+  // Other calls of the turn that were running at the same time
+  concurrentCount: number;
+  args?: any;
+  argsSize?: number;
+  outputSize?: number;
+  error?: string;
+}
+
+// Consecutive calls that ran one after another without using each other's output
+export interface ParallelHint {
+  toolCallIds: string[];
+  toolNames: string[];
+  serialMs: number;
+  // Time saved if the calls had run side by side
+  savingsMs: number;
+}
+
+// Tool calls of one assistant turn
+export interface ToolWaterfallTurn {
+  messageId: string;
+  preview: string;
+  turnId?: string;
+  timingSource: ToolTimingSource;
+  rows: ToolWaterfallRow[];
+  // From the first call starting to the last one ending
+  wallMs?: number;
+  // Sum of all call durations
+  serialMs: number;
+  maxConcurrency: number;
+  hints: ParallelHint[];
+}
+
+// Per-tool totals across the conversation
+export interface ToolAggregate {
+  toolName: string;
+  calls: number;
+  errors: number;
+  totalMs: number;
+  avgMs?: number;
+  maxMs?: number;
+}
+
+export interface ToolWaterfallSummary {
+  turns: ToolWaterfallTurn[];
+  tools: ToolAggregate[];
+  totalCalls: number;
+  totalErrors: number;
+  totalToolMs: number;
+  totalWallMs: number;
+  potentialSavingsMs: number;
+}
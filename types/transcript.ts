@@ -0,0 +1,32 @@
+// Types for exporting and importing chat transcripts
+
+export type TranscriptFormat = 'json' | 'markdown' | 'html' | 'jsonl' | 'openai';
+
+export interface TranscriptExportOptions {
+  includeAnnotations: boolean;
+  includeToolSteps: boolean;
+  includeKnowledgeSources: boolean;
+}
+
+export interface TranscriptMessage {
+  id: string;
+  role: string;
+  content: string;
+  createdAt?: string;
+  toolSteps?: any[];
+  knowledgeSources?: any[];
+  annotation?: any;
+}
+
+export interface Transcript {
+  version: number;
+  chatId: string;
+  agentName?: string;
+  exportedAt: string;
+  messages: TranscriptMessage[];
+}
+
+// A transcript opened from a file for read-only viewing
+export interface ImportedTranscript extends Transcript {
+  fileName: string;
+}
@@ -0,0 +1,188 @@
+/**
+ * Agent Comparison
+ *
+ * Pairs two transcripts turn by turn (one user prompt plus the assistant
+ * response it produced) and diffs the response text, tool calls (toolSteps)
+ * and knowledge sources.
+ */
+
+import type {
+  ComparableMessage,
+  ToolCallDiff,
+  KnowledgeSourceDiff,
+  TurnComparison,
+} from '@/types/compare';
+import { diffWords, getDiffSimilarity } from '@/utils/text-diff';
+
+interface TranscriptTurn {
+  prompt: string;
+  response?: ComparableMessage;
+}
+
+/**
+ * Split a transcript into prompt/response turns
+ * @param messages - Rendered messages in order
+ * @returns One entry per user message with the assistant reply that followed it
+ */
+export const getTranscriptTurns = (messages: ComparableMessage[]): TranscriptTurn[] => {
+  const turns: TranscriptTurn[] = [];
+  messages.forEach((message) => {
+    if (message.role === 'user') {
+      turns.push({ prompt: message.content });
+    } else if (message.role === 'assistant' && turns.length > 0 && !turns[turns.length - 1].response) {
+      turns[turns.length - 1].response = message;
+    }
+  });
+  return turns;
+};
+
+/**
+ * Get the tool name of a toolStep, whichever field the agent used
+ * @param step - Tool step from a message
+ * @returns Tool name or 'unknown'
+ */
+export const getToolStepName = (step: any): string =>
+  step?.toolName || step?.tool_name || step?.name || step?.tool || 'unknown';
+
+/**
+ * Get the arguments of a toolStep, whichever field the agent used
+ * @param step - Tool step from a message
+ * @returns Tool arguments, if recorded
+ */
+export const getToolStepArgs = (step: any): any => step?.args ?? step?.input ?? step?.arguments ?? step?.parameters;
+
+/**
+ * Get the result of a toolStep, whichever field the agent used
+ * @param step - Tool step from a message
+ * @returns Tool output, if recorded
+ */
+export const getToolStepResult = (step: any): any => step?.result ?? step?.output ?? step?.response;
+
+/**
+ * Get a stable label for a knowledge source so the same document matches across agents
+ * @param source - Knowledge source from a message
+ * @returns Document id, URL or title
+ */
+export const getKnowledgeSourceKey = (source: any): string => {
+  if (typeof source === 'string') return source;
+  return (
+    source?.document_id ||
+    source?.documentId ||
+    source?.doc_id ||
+    source?.id ||
+    source?.url ||
+    source?.source ||
+    source?.title ||
+    source?.name ||
+    JSON.stringify(source)
+  );
+};
+
+/**
+ * Match tool calls by name, in call order, and compare their arguments
+ * @param left - Tool steps from the left response
+ * @param right - Tool steps from the right response
+ * @returns One entry per matched or unmatched tool call
+ */
+export const compareToolSteps = (left: any[] = [], right: any[] = []): ToolCallDiff[] => {
+  const diffs: ToolCallDiff[] = [];
+  const unmatchedRight = right.slice();
+
+  left.forEach((step) => {
+    const toolName = getToolStepName(step);
+    const matchIndex = unmatchedRight.findIndex((s) => getToolStepName(s) === toolName);
+    if (matchIndex === -1) {
+      diffs.push({ toolName, status: 'left-only', leftArgs: getToolStepArgs(step) });
+      return;
+    }
+    const [match] = unmatchedRight.splice(matchIndex, 1);
+    const leftArgs = getToolStepArgs(step);
+    const rightArgs = getToolStepArgs(match);
+    diffs.push({
+      toolName,
+      status: 'both',
+      argsEqual: JSON.stringify(leftArgs) === JSON.stringify(rightArgs),
+      leftArgs,
+      rightArgs,
+    });
+  });
+
+  unmatchedRight.forEach((step) => {
+    diffs.push({ toolName: getToolStepName(step), status: 'right-only', rightArgs: getToolStepArgs(step) });
+  });
+
+  return diffs;
+};
+
+/**
+ * Compare the knowledge sources cited by two responses
+ * @param left - Sources from the left response
+ * @param right - Sources from the right response
+ * @returns Shared and one-sided source keys
+ */
+export const compareKnowledgeSources = (left: any[] = [], right: any[] = []): KnowledgeSourceDiff => {
+  const leftKeys = Array.from(new Set(left.map(getKnowledgeSourceKey)));
+  const rightKeys = Array.from(new Set(right.map(getKnowledgeSourceKey)));
+  return {
+    shared: leftKeys.filter((key) => rightKeys.includes(key)),
+    leftOnly: leftKeys.filter((key) => !rightKeys.includes(key)),
+    rightOnly: rightKeys.filter((key) => !leftKeys.includes(key)),
+  };
+};
+
+/**
+ * Compare two responses to the same prompt
+ * @param index - Turn index
+ * @param prompt - The user prompt
+ * @param left - Left response, if any yet
+ * @param right - Right response, if any yet
+ * @returns Text, tool and knowledge source comparison
+ */
+export const compareResponses = (
+  index: number,
+  prompt: string,
+  left?: ComparableMessage,
+  right?: ComparableMessage
+): TurnComparison => {
+  const textDiff = diffWords(left?.content || '', right?.content || '');
+  return {
+    index,
+    prompt,
+    left,
+    right,
+    textDiff,
+    textSimilarity: getDiffSimilarity(textDiff),
+    toolDiff: compareToolSteps(left?.toolSteps, right?.toolSteps),
+    sourceDiff: compareKnowledgeSources(left?.knowledgeSources, right?.knowledgeSources),
+  };
+};
+
+/**
+ * Compare two transcripts turn by turn
+ * @param left - Messages from the left agent
+ * @param right - Messages from the right agent
+ * @returns One comparison per prompt, paired by position
+ */
+export const compareTranscripts = (left: ComparableMessage[], right: ComparableMessage[]): TurnComparison[] => {
+  const leftTurns = getTranscriptTurns(left);
+  const rightTurns = getTranscriptTurns(right);
+  return Array.from({ length: Math.max(leftTurns.length, rightTurns.length) }, (_, index) =>
+    compareResponses(
+      index,
+      leftTurns[index]?.prompt ?? rightTurns[index]?.prompt ?? '',
+      leftTurns[index]?.response,
+      rightTurns[index]?.response
+    )
+  );
+};
+
+/**
+ * Whether a comparison found any difference worth flagging
+ * @param comparison - Turn comparison
+ * @returns True if text, tools or sources differ
+ */
+export const hasDifferences = (comparison: TurnComparison): boolean =>
+  comparison.textSimilarity < 1 ||
+  comparison.toolDiff.some((d) => d.status !== 'both' || !d.argsEqual) ||
+  comparison.sourceDiff.leftOnly.length > 0 ||
+  comparison.sourceDiff.rightOnly.length > 0;
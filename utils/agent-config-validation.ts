@@ -0,0 +1,274 @@
+/**
+ * Agent Config Validation
+ *
+ * Strict checks for a discovered `/.well-known/agent-config` document. The
+ * raw document is validated against the AgentConfig schema, then checked for
+ * problems a schema cannot express (duplicate tools, malformed tool schemas,
+ * endpoint paths that do not resolve). Results are grouped into a conformance
+ * report of errors and warnings.
+ */
+
+import type {
+  AgentConfigEndpoints,
+  ConformanceIssue,
+  ConformanceReport,
+  ConformanceSeverity,
+} from '@/types/agent';
+import { checkSchemaDefinition, validateAgainstSchema } from '@/utils/json-schema';
+import { getAgentEndpointUrl, isServiceOrigin } from '@/utils/chat-api';
+
+const ENDPOINT_KEYS: (keyof AgentConfigEndpoints)[] = [
+  'discovery',
+  'info',
+  'health',
+  'stream',
+  'query',
+  'collaborate',
+  'mcp',
+];
+
+// Endpoints that answer GET; the rest only accept POST, so they are probed with OPTIONS
+const GET_ENDPOINTS: (keyof AgentConfigEndpoints)[] = ['discovery', 'info', 'health'];
+
+const ENDPOINT_CHECK_TIMEOUT_MS = 5000;
+
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+export const AGENT_CONFIG_SCHEMA = {
+  type: 'object',
+  required: ['name', 'version'],
+  properties: {
+    agent_id: { type: 'string', minLength: 1 },
+    name: { type: 'string', minLength: 1 },
+    version: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    theme_color: { type: 'string' },
+    avatar_url: { type: 'string' },
+    logo_url: { type: 'string' },
+    capabilities: { type: 'array', items: { type: 'string', minLength: 1 } },
+    endpoints: {
+      type: 'object',
+      properties: Object.fromEntries(ENDPOINT_KEYS.map((key) => [key, { type: 'string', minLength: 1 }])),
+    },
+    tools: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'description'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          description: { type: 'string' },
+          category: { type: 'string' },
+          inputSchema: { type: 'object' },
+          outputSchema: { type: 'object' },
+        },
+      },
+    },
+    resources: { type: 'array' },
+    prompts: { type: 'array' },
+    models: {
+      type: 'array',
+      items: { type: ['string', 'object'] },
+    },
+    config: { type: 'object' },
+    protocols: { type: ['object', 'array'] },
+    metadata: { type: 'object' },
+  },
+};
+
+const KNOWN_FIELDS = Object.keys(AGENT_CONFIG_SCHEMA.properties);
+
+const issue = (severity: ConformanceSeverity, path: string, message: string): ConformanceIssue => ({
+  severity,
+  path,
+  message,
+});
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const findDuplicates = (values: string[]): string[] =>
+  Array.from(new Set(values.filter((value, index) => values.indexOf(value) !== index)));
+
+const checkTools = (tools: any[]): ConformanceIssue[] => {
+  const issues: ConformanceIssue[] = [];
+  const names = tools.filter((tool) => typeof tool?.name === 'string').map((tool) => tool.name);
+
+  findDuplicates(names).forEach((name) =>
+    issues.push(issue('error', '$.tools', `Tool "${name}" is declared more than once`))
+  );
+
+  tools.forEach((tool, index) => {
+    if (!isObject(tool)) return;
+    const path = `$.tools[${index}]`;
+
+    if (typeof tool.name === 'string' && !/^[A-Za-z0-9_.-]+$/.test(tool.name)) {
+      issues.push(issue('warning', `${path}.name`, `Tool name "${tool.name}" contains characters most model APIs reject`));
+    }
+    if (tool.description === '') {
+      issues.push(issue('warning', `${path}.description`, 'Tool description is empty'));
+    }
+
+    if (tool.inputSchema === undefined) {
+      issues.push(issue('warning', path, 'Tool has no inputSchema'));
+    } else if (isObject(tool.inputSchema)) {
+      checkSchemaDefinition(tool.inputSchema, `${path}.inputSchema`).forEach((error) =>
+        issues.push(issue('error', error.path, error.message))
+      );
+      if (tool.inputSchema.type !== undefined && tool.inputSchema.type !== 'object') {
+        issues.push(issue('error', `${path}.inputSchema.type`, 'Tool inputSchema must describe an object'));
+      }
+    }
+
+    if (isObject(tool.outputSchema)) {
+      checkSchemaDefinition(tool.outputSchema, `${path}.outputSchema`).forEach((error) =>
+        issues.push(issue('error', error.path, error.message))
+      );
+    }
+  });
+
+  return issues;
+};
+
+const checkEndpoints = (endpoints: Record<string, any>): ConformanceIssue[] => {
+  const issues: ConformanceIssue[] = [];
+
+  Object.entries(endpoints).forEach(([key, value]) => {
+    const path = `$.endpoints.${key}`;
+    if (!ENDPOINT_KEYS.includes(key as keyof AgentConfigEndpoints)) {
+      issues.push(issue('warning', path, `Unknown endpoint "${key}"`));
+    }
+    if (typeof value === 'string' && !value.startsWith('/') && !/^https?:\/\//i.test(value)) {
+      issues.push(issue('error', path, 'Endpoint must be an absolute URL or a path starting with "/"'));
+    }
+  });
+
+  if (!endpoints.stream) {
+    issues.push(issue('warning', '$.endpoints.stream', 'No stream endpoint declared; the default /api/chat/stream is used'));
+  }
+
+  return issues;
+};
+
+const checkModels = (models: any[]): ConformanceIssue[] => {
+  const issues: ConformanceIssue[] = [];
+  const ids: string[] = [];
+
+  models.forEach((model, index) => {
+    if (typeof model === 'string') {
+      ids.push(model);
+    } else if (isObject(model)) {
+      const id = model.id || model.name;
+      if (typeof id !== 'string' || !id) {
+        issues.push(issue('error', `$.models[${index}]`, 'Model must have an id or name'));
+      } else {
+        ids.push(id);
+      }
+    }
+  });
+
+  findDuplicates(ids).forEach((id) =>
+    issues.push(issue('warning', '$.models', `Model "${id}" is listed more than once`))
+  );
+
+  return issues;
+};
+
+/**
+ * Validate a raw agent-config document (before normalization)
+ * @param config - The document returned by the discovery endpoint
+ * @returns Errors and warnings found in the document
+ */
+export const validateAgentConfig = (config: unknown): ConformanceIssue[] => {
+  const issues: ConformanceIssue[] = validateAgainstSchema(config, AGENT_CONFIG_SCHEMA).map((error) =>
+    issue('error', error.path, error.message)
+  );
+  if (!isObject(config)) return issues;
+
+  if (typeof config.version === 'string' && config.version && !SEMVER_PATTERN.test(config.version)) {
+    issues.push(issue('warning', '$.version', `Version "${config.version}" is not semver (e.g. 1.2.0)`));
+  }
+  if (!config.agent_id) {
+    issues.push(issue('warning', '$.agent_id', 'No agent_id; chats cannot be scoped to this agent'));
+  }
+
+  Object.keys(config)
+    .filter((key) => !KNOWN_FIELDS.includes(key))
+    .forEach((key) => issues.push(issue('warning', `$.${key}`, `Unknown field "${key}"`)));
+
+  if (Array.isArray(config.capabilities)) {
+    findDuplicates(config.capabilities.filter((c: unknown) => typeof c === 'string')).forEach((capability) =>
+      issues.push(issue('warning', '$.capabilities', `Capability "${capability}" is listed more than once`))
+    );
+  }
+  if (isObject(config.endpoints)) issues.push(...checkEndpoints(config.endpoints));
+  if (Array.isArray(config.tools)) issues.push(...checkTools(config.tools));
+  if (Array.isArray(config.models)) issues.push(...checkModels(config.models));
+
+  return issues;
+};
+
+/**
+ * Probe each declared endpoint and report the ones that do not exist.
+ * Only a 404 to a GET counts as an error; other statuses (401, 405, ...)
+ * show the path is routed. Non-GET endpoints are probed with OPTIONS, which
+ * many servers answer with 404 even when the route exists, so that only
+ * gives a warning. Network failures are reported as warnings. Endpoints on
+ * another origin are not probed, so a config cannot point the debugger
+ * server (and the user's credentials) at arbitrary hosts.
+ * @param baseUrl - The agent service URL
+ * @param endpoints - The endpoints declared in the agent config
+ * @param headers - Credentials and custom headers for the agent
+ * @returns Issues for unreachable endpoints
+ */
+export const checkEndpointReachability = async (
+  baseUrl: string,
+  endpoints: unknown,
+  headers: Record<string, string> = {}
+): Promise<ConformanceIssue[]> => {
+  if (!isObject(endpoints)) return [];
+
+  const checks = ENDPOINT_KEYS.filter((key) => typeof endpoints[key] === 'string' && endpoints[key]).map(
+    async (key): Promise<ConformanceIssue | null> => {
+      const path = `$.endpoints.${key}`;
+      const url = getAgentEndpointUrl(baseUrl, endpoints[key]);
+      if (!isServiceOrigin(baseUrl, url)) {
+        return issue('warning', path, `${url} is not on the service origin, so it was not checked`);
+      }
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), ENDPOINT_CHECK_TIMEOUT_MS);
+
+      try {
+        const method = GET_ENDPOINTS.includes(key) ? 'GET' : 'OPTIONS';
+        const response = await fetch(url, { method, headers, signal: controller.signal });
+        await response.body?.cancel().catch(() => undefined);
+        if (response.status !== 404) return null;
+        return method === 'GET'
+          ? issue('error', path, `${url} returned 404 Not Found`)
+          : issue('warning', path, `${url} returned 404 to OPTIONS; the route may still exist for other methods`);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        return issue('warning', path, `${url} could not be reached: ${message}`);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+  );
+
+  return (await Promise.all(checks)).filter((result): result is ConformanceIssue => result !== null);
+};
+
+/**
+ * Build a conformance report from a list of issues
+ * @param issues - Issues from validation and endpoint checks
+ * @returns The report, valid when there are no errors
+ */
+export const buildConformanceReport = (issues: ConformanceIssue[]): ConformanceReport => {
+  const errors = issues.filter((i) => i.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter((i) => i.severity === 'warning'),
+    checkedAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,365 @@
+/**
+ * Agent Request Headers
+ *
+ * Builds the headers sent with every direct request to the agent service,
+ * and applies the active connection's credentials and custom headers to
+ * agent-bound requests made by components we don't control (e.g. useChatStream).
+ */
+
+import type { AuthScheme, DebuggerConfig } from '@/types/agent';
+import { getHeaderRecord, type FetchMiddleware } from '@/utils/fetch-interceptor';
+
+// Request header carrying a connection's headers to the debugger's own routes (discovery)
+export const FORWARDED_AGENT_HEADERS = 'X-Nova-Debugger-Agent-Headers';
+
+const SENSITIVE_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'api-key',
+  FORWARDED_AGENT_HEADERS.toLowerCase(),
+];
+
+// Header names that usually carry credentials, whatever the agent calls them
+const SENSITIVE_HEADER_PATTERN = /token|secret|key|auth/i;
+
+interface TargetHeaders {
+  // Service URL and declared endpoint URLs, without query or trailing slash
+  urlPrefixes: string[];
+  headers: Record<string, string>;
+  authHeaders: Record<string, string>;
+  // Custom credential header of an api-key scheme, lower-cased
+  apiKeyHeader?: string;
+}
+
+// Headers per connected target (the primary agent, a comparison agent...)
+let targetHeaders: Record<string, TargetHeaders> = {};
+
+/**
+ * Check whether a header carries credentials and must not be logged or shared.
+ * Covers the api-key header names of every connected target.
+ * @param name - Header name
+ * @param authScheme - Auth scheme whose api-key header name also counts, e.g. a profile being exported
+ * @returns True for auth/cookie/API key headers
+ */
+export const isSensitiveHeader = (name: string, authScheme?: AuthScheme): boolean => {
+  const lowerName = name.toLowerCase();
+  return (
+    SENSITIVE_HEADERS.includes(lowerName) ||
+    SENSITIVE_HEADER_PATTERN.test(name) ||
+    (authScheme?.type === 'api-key' && authScheme.headerName.toLowerCase() === lowerName) ||
+    Object.values(targetHeaders).some((target) => target.apiKeyHeader === lowerName)
+  );
+};
+
+// Cookie the icon proxy reads the active connection's headers from
+export const AGENT_HEADERS_COOKIE = 'nova-debugger-agent-headers';
+
+// Only the icon proxy receives that cookie
+const AGENT_HEADERS_COOKIE_PATH = '/api/icons';
+
+export const DEFAULT_AUTH_SCHEME: AuthScheme = { type: 'bearer' };
+
+export const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+
+// Connection fields that decide which headers reach the agent
+export type AgentRequestConfig = Pick<DebuggerConfig, 'serviceUrl' | 'authToken' | 'authScheme' | 'customHeaders'>;
+
+/**
+ * Parse a stored auth scheme, falling back to bearer for anything unrecognized
+ * @param value - Parsed JSON from storage or an imported profile
+ * @returns A valid auth scheme
+ */
+export const normalizeAuthScheme = (value: any): AuthScheme => {
+  if (value?.type === 'api-key') {
+    return { type: 'api-key', headerName: typeof value.headerName === 'string' ? value.headerName : DEFAULT_API_KEY_HEADER };
+  }
+  if (value?.type === 'basic') {
+    return { type: 'basic', username: typeof value.username === 'string' ? value.username : '' };
+  }
+  return DEFAULT_AUTH_SCHEME;
+};
+
+const encodeBase64 = (value: string): string => {
+  const bytes = new TextEncoder().encode(value);
+  return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+};
+
+/**
+ * Build the credential header for an auth scheme
+ * @param authToken - Bearer token, API key or Basic password
+ * @param authScheme - How the token is sent
+ * @returns The auth header, or no headers when there are no credentials
+ */
+export const buildAuthHeaders = (
+  authToken: string,
+  authScheme: AuthScheme = DEFAULT_AUTH_SCHEME
+): Record<string, string> => {
+  switch (authScheme.type) {
+    case 'api-key':
+      return authToken && authScheme.headerName ? { [authScheme.headerName]: authToken } : {};
+    case 'basic':
+      return authToken || authScheme.username
+        ? { Authorization: `Basic ${encodeBase64(`${authScheme.username}:${authToken}`)}` }
+        : {};
+    default:
+      return authToken ? { Authorization: `Bearer ${authToken}` } : {};
+  }
+};
+
+/**
+ * Build request headers for the agent service
+ * @param authToken - Optional bearer token
+ * @returns Headers including JSON content type and authorization
+ */
+export const buildAgentHeaders = (authToken?: string): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...buildAuthHeaders(authToken || ''),
+});
+
+/**
+ * Build every header a connection sends to the agent: custom headers plus
+ * credentials. Used for server-side requests (discovery, the icon proxy),
+ * which the fetch middleware cannot reach.
+ * @param config - The connection
+ * @returns Custom and auth headers
+ */
+export const getAgentRequestHeaders = (config: AgentRequestConfig): Record<string, string> => ({
+  ...config.customHeaders,
+  ...buildAuthHeaders(config.authToken, config.authScheme),
+});
+
+/**
+ * Encode a connection's headers for the FORWARDED_AGENT_HEADERS request header.
+ * Sent as a header rather than in the body so the network log masks it.
+ * @param headers - Custom and auth headers of the connection
+ * @returns Header value
+ */
+export const encodeForwardedHeaders = (headers: Record<string, string>): string =>
+  encodeURIComponent(JSON.stringify(headers));
+
+/**
+ * Decode the FORWARDED_AGENT_HEADERS request header on a server route
+ * @param value - Header value, if sent
+ * @returns Headers to forward to the agent (empty when missing or malformed)
+ */
+export const decodeForwardedHeaders = (value: string | null): Record<string, string> => {
+  if (!value) return {};
+  try {
+    return parseForwardedHeaders(JSON.parse(decodeURIComponent(value)));
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Build request headers for a direct JSON request to the agent (chat list,
+ * feedback...): content type plus the connection's custom headers and
+ * credentials, so it works whether or not agentHeadersMiddleware matches
+ * @param config - The connection
+ * @returns JSON content type, custom and auth headers
+ */
+export const buildConnectionHeaders = (config: AgentRequestConfig): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...getAgentRequestHeaders(config),
+});
+
+/**
+ * Read a header record sent to a server route (forwarded header, icon cookie),
+ * dropping anything that is not a string
+ * @param value - Untrusted parsed JSON
+ * @returns Headers to forward to the agent
+ */
+export const parseForwardedHeaders = (value: unknown): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return headers;
+  Object.entries(value).forEach(([name, headerValue]) => {
+    if (name && typeof headerValue === 'string') headers[name] = headerValue;
+  });
+  return headers;
+};
+
+/**
+ * Build the cookie handing the connection's headers to the icon proxy: a
+ * session cookie scoped to the icon route, tied to the service origin
+ * @param config - The connection, or null once disconnected
+ * @returns Value for document.cookie; an expired cookie when there is nothing to send
+ */
+export const buildAgentHeadersCookie = (config: AgentRequestConfig | null): string => {
+  const headers = config ? getAgentRequestHeaders(config) : {};
+  let origin: string | null = null;
+  try {
+    origin = config ? new URL(config.serviceUrl).origin : null;
+  } catch {
+    // Invalid service URL: nothing to send
+  }
+
+  const attributes = `path=${AGENT_HEADERS_COOKIE_PATH}; SameSite=Strict`;
+  if (!origin || Object.keys(headers).length === 0) {
+    return `${AGENT_HEADERS_COOKIE}=; ${attributes}; max-age=0`;
+  }
+  return `${AGENT_HEADERS_COOKIE}=${encodeURIComponent(JSON.stringify({ origin, headers }))}; ${attributes}`;
+};
+
+/**
+ * Read the icon proxy cookie
+ * @param value - Cookie value
+ * @returns The service origin and the headers meant for it, or null when absent or invalid
+ */
+export const parseAgentHeadersCookie = (
+  value: string | undefined
+): { origin: string; headers: Record<string, string> } | null => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed?.origin === 'string' ? { origin: parsed.origin, headers: parseForwardedHeaders(parsed.headers) } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Service or endpoint URL as a request prefix: origin and path, without query or trailing slash
+const getUrlPrefix = (url: string): string | null => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Check whether two service URLs address the same agent, so requests to them
+ * cannot be told apart (and would get the same target's headers)
+ * @param a - Service URL
+ * @param b - Service URL
+ * @returns True when origin and path match
+ */
+export const isSameAgentUrl = (a: string, b: string): boolean => {
+  const prefix = getUrlPrefix(a);
+  return prefix !== null && prefix === getUrlPrefix(b);
+};
+
+/**
+ * Set the agent connection that agentHeadersMiddleware applies headers for
+ * @param config - The connection, or null to stop applying headers for the target
+ * @param target - Connection slot, so several agents can be connected at once
+ * @param endpointUrls - Declared endpoints that may live on another origin (e.g. MCP)
+ */
+export const setAgentRequestHeaders = (
+  config: AgentRequestConfig | null,
+  target: string = 'primary',
+  endpointUrls: string[] = []
+): void => {
+  targetHeaders = { ...targetHeaders };
+  delete targetHeaders[target];
+  if (!config) return;
+
+  // Invalid URLs get no headers
+  const urlPrefixes = [config.serviceUrl, ...endpointUrls]
+    .map(getUrlPrefix)
+    .filter((prefix): prefix is string => prefix !== null);
+  if (urlPrefixes.length === 0) return;
+
+  targetHeaders[target] = {
+    urlPrefixes: Array.from(new Set(urlPrefixes)),
+    headers: config.customHeaders,
+    authHeaders: buildAuthHeaders(config.authToken, config.authScheme),
+    apiKeyHeader: config.authScheme?.type === 'api-key' ? config.authScheme.headerName.toLowerCase() : undefined,
+  };
+};
+
+// Length of the target's longest URL prefix covering the URL, or -1 when none does
+const getPrefixMatchLength = (href: string, target: TargetHeaders): number =>
+  target.urlPrefixes.reduce(
+    (longest, prefix) =>
+      href.startsWith(prefix) && /^([/?#]|$)/.test(href.slice(prefix.length)) ? Math.max(longest, prefix.length) : longest,
+    -1
+  );
+
+/**
+ * Find the connected target a request belongs to: the one with the longest
+ * service or endpoint URL covering it, so agents sharing an origin (two
+ * paths on one host, the mock next to a proxied agent) never get each
+ * other's credentials. On a tie the primary connection wins; compare-setup
+ * refuses a comparison agent at the primary's URL.
+ * @param url - Absolute or page-relative URL
+ * @returns The target's headers, or undefined for non-agent requests
+ */
+const findRequestTarget = (url: string): TargetHeaders | undefined => {
+  let href: string;
+  try {
+    href = new URL(url, window.location.href).href;
+  } catch {
+    return undefined;
+  }
+
+  let match: TargetHeaders | undefined;
+  let matchLength = -1;
+  Object.entries(targetHeaders).forEach(([name, target]) => {
+    const length = getPrefixMatchLength(href, target);
+    if (length > matchLength || (length >= 0 && length === matchLength && name === 'primary')) {
+      match = target;
+      matchLength = length;
+    }
+  });
+  return match;
+};
+
+/**
+ * Check whether a URL belongs to a connected agent (any target)
+ * @param url - Absolute or page-relative URL
+ * @returns True if the URL is under a registered service or endpoint URL
+ */
+export const isAgentRequestUrl = (url: string): boolean => findRequestTarget(url) !== undefined;
+
+/**
+ * Get the origins of every connected target's service and endpoint URLs
+ * @returns Unique origins, e.g. for the proxy's allow-list
+ */
+export const getAgentRequestOrigins = (): string[] =>
+  Array.from(
+    new Set(Object.values(targetHeaders).flatMap((target) => target.urlPrefixes.map((prefix) => new URL(prefix).origin)))
+  );
+
+/**
+ * Fetch middleware that adds the active custom headers and credentials to
+ * requests bound for a connected agent service. Custom headers set explicitly
+ * by the caller win; configured credentials replace the caller's
+ * Authorization header (e.g. the bearer token useChatStream always sends).
+ */
+export const agentHeadersMiddleware: FetchMiddleware = (request, next) => {
+  const target = findRequestTarget(request.url);
+  if (!target) return next(request);
+
+  const { headers: customHeaders, authHeaders } = target;
+  if (Object.keys(customHeaders).length === 0 && Object.keys(authHeaders).length === 0) {
+    return next(request);
+  }
+
+  const existing = getHeaderRecord(request.init.headers);
+  const headers: Record<string, string> = {};
+  const hasAuth = Object.keys(authHeaders).length > 0;
+  Object.entries(existing).forEach(([name, value]) => {
+    if (hasAuth && name.toLowerCase() === 'authorization') return;
+    headers[name] = value;
+  });
+
+  const existingNames = Object.keys(headers).map((name) => name.toLowerCase());
+  Object.entries(customHeaders).forEach(([name, value]) => {
+    if (name && !existingNames.includes(name.toLowerCase())) headers[name] = value;
+  });
+  Object.entries(authHeaders).forEach(([name, value]) => {
+    Object.keys(headers)
+      .filter((existingName) => existingName.toLowerCase() === name.toLowerCase())
+      .forEach((existingName) => delete headers[existingName]);
+    headers[name] = value;
+  });
+
+  return next({
+    ...request,
+    init: { ...request.init, headers },
+  });
+};
@@ -0,0 +1,79 @@
+/**
+ * Agent Proxy
+ *
+ * Optional proxy mode: fetch middleware that reroutes agent-bound requests
+ * (chat streaming, history, feedback, health, MCP) through `/api/proxy`, so
+ * agents without CORS headers can be reached from the browser. It runs
+ * innermost, after credentials are applied, so the inspector still shows the
+ * real agent URL.
+ *
+ * The proxy only forwards to the origins of connected agents, which the
+ * middleware lists in a SameSite=Strict session cookie, and only for
+ * requests carrying AGENT_PROXY_HEADER. Cross-site pages can neither set or
+ * send the cookie nor add the header without a preflight the route rejects.
+ */
+
+import { getHeaderRecord, type FetchMiddleware } from '@/utils/fetch-interceptor';
+import { getAgentRequestOrigins, isAgentRequestUrl } from '@/utils/agent-headers';
+
+export const AGENT_PROXY_PATH = '/api/proxy';
+
+// Marks requests sent by the proxy middleware; not forwarded to the agent
+export const AGENT_PROXY_HEADER = 'X-Nova-Debugger-Proxy';
+
+// Origins the proxy may forward to, as a JSON array
+export const AGENT_PROXY_TARGETS_COOKIE = 'nova-debugger-proxy-targets';
+
+let isProxyEnabled = false;
+
+/**
+ * Turn proxy mode on or off
+ * @param enabled - Route agent requests through the debugger server
+ */
+export const setAgentProxyEnabled = (enabled: boolean): void => {
+  isProxyEnabled = enabled;
+};
+
+/**
+ * Get the proxy URL for an agent request
+ * @param url - Absolute agent URL
+ * @returns Same-origin URL served by the proxy route
+ */
+export const getAgentProxyUrl = (url: string): string =>
+  `${AGENT_PROXY_PATH}?url=${encodeURIComponent(url)}`;
+
+/**
+ * Fetch middleware that sends requests for connected agents via the proxy
+ * route. Same-origin requests (e.g. the built-in mock agent) are left alone.
+ */
+export const agentProxyMiddleware: FetchMiddleware = (request, next) => {
+  if (!isProxyEnabled || !isAgentRequestUrl(request.url)) return next(request);
+
+  const url = new URL(request.url, window.location.href);
+  if (url.origin === window.location.origin) return next(request);
+
+  document.cookie = `${AGENT_PROXY_TARGETS_COOKIE}=${encodeURIComponent(
+    JSON.stringify(getAgentRequestOrigins())
+  )}; path=${AGENT_PROXY_PATH}; SameSite=Strict`;
+
+  return next({
+    ...request,
+    url: getAgentProxyUrl(url.toString()),
+    init: { ...request.init, headers: { ...getHeaderRecord(request.init.headers), [AGENT_PROXY_HEADER]: '1' } },
+  });
+};
+
+/**
+ * Read the proxy's allowed origins from its cookie
+ * @param value - Cookie value, if set
+ * @returns Allowed origins (empty when missing or malformed)
+ */
+export const parseAgentProxyTargets = (value: string | undefined): string[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((origin): origin is string => typeof origin === 'string') : [];
+  } catch {
+    return [];
+  }
+};
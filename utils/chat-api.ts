@@ -68,3 +68,29 @@ export const getMessageFeedbackUrl = (serviceUrl: string, messageId: string): st
   const baseUrl = serviceUrl.replace(/\/$/, "");
   return `${baseUrl}/api/chat/messages/${messageId}/feedback`;
 };
+
+/**
+ * Resolve an endpoint declared in the agent config against the service URL
+ * @param serviceUrl - The base service URL
+ * @param endpoint - Absolute URL or path from `AgentConfig.endpoints`
+ * @returns Absolute URL for the endpoint
+ */
+export const getAgentEndpointUrl = (serviceUrl: string, endpoint: string): string => {
+  if (/^https?:\/\//i.test(endpoint)) return endpoint;
+  const baseUrl = serviceUrl.replace(/\/$/, "");
+  return `${baseUrl}${endpoint.startsWith("/") ? "" : "/"}${endpoint}`;
+};
+
+/**
+ * Check whether a URL is on the agent service's origin
+ * @param serviceUrl - The base service URL
+ * @param url - Absolute URL, e.g. a resolved endpoint
+ * @returns True when scheme, host and port match
+ */
+export const isServiceOrigin = (serviceUrl: string, url: string): boolean => {
+  try {
+    return new URL(url).origin === new URL(serviceUrl).origin;
+  } catch {
+    return false;
+  }
+};
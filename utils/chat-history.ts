@@ -0,0 +1,262 @@
+/**
+ * Chat History
+ *
+ * Loads the chat list page by page with search, date and user filters. The
+ * filters and cursor are sent to the agent as query parameters; agents that
+ * ignore them return the whole list, which is then filtered and paged locally.
+ * Also runs bulk deletes and exports over many chats.
+ */
+
+import type { Chat, ChatArchive, ChatBulkResult, ChatListFilter, ChatMessage } from '@/types/agent';
+import { getChatDeleteUrl, getChatListUrl, getChatMessagesUrl } from '@/utils/chat-api';
+import { buildConnectionHeaders, type AgentRequestConfig } from '@/utils/agent-headers';
+
+export const CHAT_PAGE_SIZE = 50;
+
+// Requests in flight at once during bulk operations
+const BULK_CONCURRENCY = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ChatListPage {
+  chats: Chat[];
+  nextCursor: string | null;
+  // Whether the agent paged (and filtered) the list itself
+  isPaged: boolean;
+}
+
+/**
+ * Build the chat list URL with filter and paging query parameters
+ * @param serviceUrl - The base service URL
+ * @param filter - Search, date range and user filters
+ * @param cursor - Cursor of the page to load, null for the first page
+ * @returns URL like `/api/chats/list?q=refund&limit=50`
+ */
+export const buildChatListUrl = (serviceUrl: string, filter: ChatListFilter, cursor: string | null): string => {
+  const params = new URLSearchParams();
+  if (filter.search) params.set('q', filter.search);
+  if (filter.from) params.set('from', filter.from);
+  if (filter.to) params.set('to', filter.to);
+  if (filter.userId) params.set('user_id', filter.userId);
+  if (cursor) params.set('cursor', cursor);
+  params.set('limit', String(CHAT_PAGE_SIZE));
+  return `${getChatListUrl(serviceUrl)}?${params.toString()}`;
+};
+
+/**
+ * Fetch one page of the chat list
+ * @param connection - The agent connection (service URL, credentials, custom headers)
+ * @param filter - Filters to send to the agent
+ * @param cursor - Cursor from the previous page, null for the first page
+ * @returns Chats and the next cursor
+ */
+export const fetchChatListPage = async (
+  connection: AgentRequestConfig,
+  filter: ChatListFilter,
+  cursor: string | null
+): Promise<ChatListPage> => {
+  const url = buildChatListUrl(connection.serviceUrl, filter, cursor);
+  console.log('[ChatHistory] Fetching chats from:', url);
+
+  const response = await fetch(url, { method: 'GET', headers: buildConnectionHeaders(connection) });
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('[ChatHistory] Error response:', response.status, errorText);
+    throw new Error(`Failed to load chats: ${response.status}`);
+  }
+
+  const data = await response.json();
+
+  // Handle different response formats
+  let chats: Chat[] = [];
+  if (data.success && data.chats) {
+    chats = data.chats;
+  } else if (Array.isArray(data)) {
+    chats = data;
+  } else if (data.data && Array.isArray(data.data)) {
+    chats = data.data;
+  } else {
+    console.warn('[ChatHistory] Unexpected response format:', data);
+  }
+
+  const pagination = data?.pagination || data;
+  const isPaged = !Array.isArray(data) && ('nextCursor' in pagination || 'next_cursor' in pagination);
+  const nextCursor = pagination?.nextCursor ?? pagination?.next_cursor ?? null;
+  return { chats, nextCursor: nextCursor === null ? null : String(nextCursor), isPaged };
+};
+
+/**
+ * Fetch every chat matching the filters, following cursors until the last page.
+ * Stops early on an empty page or a cursor the agent already returned, so an
+ * agent that ignores `cursor` cannot loop forever.
+ * @param connection - The agent connection (service URL, credentials, custom headers)
+ * @param filter - Filters, applied locally too for agents that ignore them
+ * @returns All matching chats
+ */
+export const fetchAllChats = async (connection: AgentRequestConfig, filter: ChatListFilter): Promise<Chat[]> => {
+  const chats: Chat[] = [];
+  const seenCursors = new Set<string>();
+  let cursor: string | null = null;
+  do {
+    const page: ChatListPage = await fetchChatListPage(connection, filter, cursor);
+    // An agent that ignores the cursor returns the same chats again
+    chats.push(...page.chats.filter((chat) => !chats.some((c) => c.id === chat.id)));
+    cursor = page.isPaged && page.chats.length > 0 ? page.nextCursor : null;
+    if (cursor && seenCursors.has(cursor)) break;
+    if (cursor) seenCursors.add(cursor);
+  } while (cursor);
+  return chats.filter((chat) => matchesChatFilter(chat, { ...filter, search: undefined }));
+};
+
+/**
+ * Fetch a chat's stored messages
+ * @param connection - The agent connection (service URL, credentials, custom headers)
+ * @param chatId - The chat ID
+ * @returns Messages as returned by the agent
+ */
+export const fetchChatMessages = async (connection: AgentRequestConfig, chatId: string): Promise<ChatMessage[]> => {
+  const response = await fetch(getChatMessagesUrl(connection.serviceUrl, chatId), {
+    method: 'GET',
+    headers: buildConnectionHeaders(connection),
+  });
+  if (!response.ok) throw new Error(`Failed to load messages: ${response.status}`);
+  const data = await response.json();
+  return data.messages || (Array.isArray(data) ? data : data.data) || [];
+};
+
+/**
+ * Fetch a chat's messages as lowercase text for content search
+ * @param connection - The agent connection (service URL, credentials, custom headers)
+ * @param chatId - The chat ID
+ * @returns All message contents joined
+ */
+export const fetchChatSearchText = async (connection: AgentRequestConfig, chatId: string): Promise<string> =>
+  getMessageSearchText(await fetchChatMessages(connection, chatId));
+
+/**
+ * Delete a chat
+ * @param connection - The agent connection (service URL, credentials, custom headers)
+ * @param chatId - The chat ID
+ */
+export const deleteChat = async (connection: AgentRequestConfig, chatId: string): Promise<void> => {
+  const response = await fetch(getChatDeleteUrl(connection.serviceUrl, chatId), {
+    method: 'DELETE',
+    headers: buildConnectionHeaders(connection),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(`${response.status}${data?.error ? ` ${data.error}` : ''}`);
+  }
+};
+
+/**
+ * Run an operation on many chats, a few at a time, collecting per-chat errors
+ * @param chats - Chats to process
+ * @param operation - Work for one chat; throw to report an error
+ * @param onProgress - Called with the results so far after each chat
+ * @returns One result per chat, in completion order
+ */
+export const runChatBulkOperation = async (
+  chats: Chat[],
+  operation: (chat: Chat) => Promise<void>,
+  onProgress: (results: ChatBulkResult[]) => void
+): Promise<ChatBulkResult[]> => {
+  const results: ChatBulkResult[] = [];
+  const queue = [...chats];
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const chat = queue.shift()!;
+      try {
+        await operation(chat);
+        results.push({ chatId: chat.id, title: chat.title, ok: true });
+      } catch (error) {
+        console.error('[ChatHistory] Bulk operation failed for', chat.id, error);
+        results.push({
+          chatId: chat.id,
+          title: chat.title,
+          ok: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      onProgress([...results]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, chats.length) }, worker));
+  return results;
+};
+
+/**
+ * Build the filter for chats last updated more than N days ago
+ * @param days - Age in days
+ * @returns Filter with only `to` set
+ */
+export const getOlderThanFilter = (days: number): ChatListFilter => ({
+  to: new Date(Date.now() - days * DAY_MS).toISOString(),
+});
+
+/**
+ * Build a chat archive for download
+ * @param serviceUrl - The service the chats came from
+ * @param chats - Chats with their messages
+ * @returns Archive as formatted JSON
+ */
+export const buildChatArchive = (serviceUrl: string, chats: ChatArchive['chats']): string => {
+  const archive: ChatArchive = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    serviceUrl,
+    chats,
+  };
+  return JSON.stringify(archive, null, 2);
+};
+
+/**
+ * Join message contents into searchable text
+ * @param messages - Stored messages
+ * @returns Lowercase text
+ */
+export const getMessageSearchText = (messages: { content?: string }[]): string =>
+  messages
+    .map((message) => (typeof message.content === 'string' ? message.content : ''))
+    .join('\n')
+    .toLowerCase();
+
+/**
+ * Get the date a chat is filtered and sorted by
+ * @param chat - Chat from the list
+ * @returns Last update time
+ */
+export const getChatDate = (chat: Chat): Date => new Date(chat.updated_at || chat.created_at);
+
+/**
+ * Whether a chat passes the filters. With a date filter set, chats whose
+ * date does not parse never match (they must not be swept up by a cleanup).
+ * @param chat - Chat from the list
+ * @param filter - Search, date range and user filters
+ * @param messageText - Lowercase message text, when it has been loaded
+ * @returns True if the chat matches every filter that is set
+ */
+export const matchesChatFilter = (chat: Chat, filter: ChatListFilter, messageText?: string): boolean => {
+  if (filter.userId && chat.user_id !== filter.userId) return false;
+
+  const date = getChatDate(chat).getTime();
+  if ((filter.from || filter.to) && Number.isNaN(date)) return false;
+  if (filter.from && date < new Date(filter.from).getTime()) return false;
+  if (filter.to && date > new Date(filter.to).getTime()) return false;
+
+  if (filter.search) {
+    const search = filter.search.toLowerCase();
+    const inTitle = (chat.title || '').toLowerCase().includes(search);
+    if (!inTitle && !messageText?.includes(search)) return false;
+  }
+  return true;
+};
+
+/**
+ * Whether any filter is set
+ * @param filter - Chat list filters
+ */
+export const hasChatFilter = (filter: ChatListFilter): boolean =>
+  Boolean(filter.search || filter.from || filter.to || filter.userId);
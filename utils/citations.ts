@@ -0,0 +1,175 @@
+/**
+ * Citations
+ *
+ * Normalizes the knowledge sources an agent retrieved for a turn (score,
+ * document id, chunk text, metadata) and maps the sentences of the response
+ * to the sources they cite: explicit markers like `[1]`, `[^2]`, `【3†source】`
+ * or `[doc-id]` first, otherwise sentences sharing most of their words with
+ * a source's chunk. Flags responses citing nothing and unused sources.
+ */
+
+import type { ComparableMessage } from '@/types/compare';
+import type { RetrievedSource, CitedSentence, SentenceCitation, TurnCitationReport } from '@/types/citation';
+import { getKnowledgeSourceKey } from '@/utils/agent-compare';
+
+// Fields read into RetrievedSource; anything else is shown as metadata
+const SOURCE_FIELDS = [
+  'id', 'document_id', 'documentId', 'doc_id', 'title', 'name', 'url', 'source',
+  'score', 'relevance_score', 'relevanceScore', 'similarity', 'relevance',
+  'content', 'text', 'chunk', 'chunk_text', 'snippet', 'pageContent', 'page_content', 'metadata',
+];
+
+// Share of a sentence's words that must appear in a chunk to count as citing it
+const OVERLAP_THRESHOLD = 0.5;
+const MIN_SHARED_WORDS = 3;
+const MIN_WORD_LENGTH = 4;
+
+const STOP_WORDS = [
+  'that', 'this', 'with', 'from', 'have', 'will', 'your', 'they', 'their', 'there', 'what', 'which', 'when',
+  'were', 'been', 'also', 'into', 'than', 'then', 'them', 'these', 'those', 'about', 'would', 'could',
+  'should', 'such', 'only', 'other', 'some', 'more', 'most', 'very', 'just', 'over', 'each', 'here',
+];
+
+const MARKER_PATTERN = /\[\^?([^\]\n]+)\](?!\()|【(\d+)[^】]*】/g;
+
+const isObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const firstString = (...values: any[]): string | undefined =>
+  values.find((value) => typeof value === 'string' && value.trim() !== '');
+
+const firstNumber = (...values: any[]): number | undefined =>
+  values.find((value) => typeof value === 'number' && Number.isFinite(value));
+
+/**
+ * Normalize a knowledge source, whichever field names the agent used
+ * @param source - Knowledge source from a message
+ * @param index - Position in the message's sources, 0-based
+ * @returns Source with score, document id, chunk and remaining metadata
+ */
+export const normalizeKnowledgeSource = (source: any, index: number): RetrievedSource => {
+  if (!isObject(source)) {
+    return { index: index + 1, key: getKnowledgeSourceKey(source), title: String(source), metadata: {}, citedBy: [] };
+  }
+
+  const metadata: Record<string, any> = { ...(isObject(source.metadata) ? source.metadata : {}) };
+  Object.keys(source).forEach((key) => {
+    if (!SOURCE_FIELDS.includes(key)) metadata[key] = source[key];
+  });
+
+  return {
+    index: index + 1,
+    key: getKnowledgeSourceKey(source),
+    title: firstString(source.title, source.name, metadata.title),
+    documentId: firstString(source.document_id, source.documentId, source.doc_id, source.id, metadata.document_id),
+    // Only http(s) URLs, since the inspector renders them as links
+    url: [source.url, source.source, metadata.url].find((value) => typeof value === 'string' && /^https?:\/\//i.test(value)),
+    score: firstNumber(source.score, source.relevance_score, source.relevanceScore, source.similarity, source.relevance, metadata.score),
+    chunk: firstString(
+      source.content, source.text, source.chunk, source.chunk_text, source.snippet, source.pageContent, source.page_content
+    ),
+    metadata,
+    citedBy: [],
+  };
+};
+
+/**
+ * Split response text into sentences, keeping trailing citation markers with their sentence
+ * @param text - Response text
+ * @returns Non-empty sentences in order
+ */
+export const splitSentences = (text: string): string[] => {
+  const sentences: string[] = [];
+  text.split(/\n+/).forEach((line) => {
+    let rest = line.trim();
+    while (rest) {
+      // Ends at . ! or ? followed by whitespace, so decimals like 18.5 stay inside
+      const match = rest.match(/^.*?[.!?]+(?:\s*\[\^?[^\]\s]+\])*(?=\s|$)/);
+      const sentence = match ? match[0] : rest;
+      sentences.push(sentence.trim());
+      rest = rest.slice(sentence.length).trim();
+    }
+  });
+  return sentences.filter((sentence) => /\w/.test(sentence));
+};
+
+const getWords = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= MIN_WORD_LENGTH && !STOP_WORDS.includes(word))
+  );
+
+// Source a marker like "2", "doc-faq" or "source: FAQ" refers to
+const resolveMarker = (marker: string, sources: RetrievedSource[]): RetrievedSource | undefined => {
+  const label = marker.replace(/^(source|doc|ref)\s*:?\s*/i, '').trim().toLowerCase();
+  if (/^\d+$/.test(label)) return sources.find((source) => source.index === Number(label));
+  return sources.find((source) =>
+    [source.key, source.documentId, source.title, source.url].some((value) => value?.toLowerCase() === label)
+  );
+};
+
+const findCitations = (
+  sentence: string,
+  sources: RetrievedSource[],
+  chunkWords: Set<string>[]
+): SentenceCitation[] => {
+  const cited: SentenceCitation[] = [];
+  const addCitation = (source: RetrievedSource | undefined, method: SentenceCitation['method']) => {
+    if (source && !cited.some((c) => c.sourceIndex === source.index)) cited.push({ sourceIndex: source.index, method });
+  };
+
+  let match: RegExpExecArray | null;
+  MARKER_PATTERN.lastIndex = 0;
+  while ((match = MARKER_PATTERN.exec(sentence))) {
+    if (match[2]) addCitation(resolveMarker(match[2], sources), 'marker');
+    else match[1].split(/[,;]\s*/).forEach((part) => addCitation(resolveMarker(part, sources), 'marker'));
+  }
+  if (cited.length > 0) return cited;
+
+  const words = getWords(sentence.replace(MARKER_PATTERN, ' '));
+  if (words.size < MIN_SHARED_WORDS) return cited;
+  sources.forEach((source, i) => {
+    const shared = Array.from(words).filter((word) => chunkWords[i].has(word)).length;
+    if (shared >= MIN_SHARED_WORDS && shared / words.size >= OVERLAP_THRESHOLD) addCitation(source, 'overlap');
+  });
+  return cited;
+};
+
+/**
+ * Map the sentences of an assistant message to the knowledge sources they cite
+ * @param message - Rendered assistant message
+ * @returns Sources, sentences with their citations, and quality flags
+ */
+export const buildCitationReport = (message: ComparableMessage): TurnCitationReport => {
+  const sources = (message.knowledgeSources || []).map(normalizeKnowledgeSource);
+  const chunkWords = sources.map((source) => getWords(source.chunk || ''));
+
+  const sentences: CitedSentence[] = splitSentences(message.content || '').map((text, index) => ({
+    index,
+    text,
+    citations: findCitations(text, sources, chunkWords),
+  }));
+  sentences.forEach((sentence) =>
+    sentence.citations.forEach((citation) => sources[citation.sourceIndex - 1].citedBy.push(sentence.index))
+  );
+
+  return {
+    messageId: message.id,
+    preview: (message.content || '').slice(0, 80),
+    sources,
+    sentences,
+    citesNothing: sources.length > 0 && sentences.every((sentence) => sentence.citations.length === 0),
+    unusedSourceIndexes: sources.filter((source) => source.citedBy.length === 0).map((source) => source.index),
+  };
+};
+
+/**
+ * Build citation reports for every assistant turn that retrieved sources
+ * @param messages - Rendered messages
+ * @returns Reports, oldest first
+ */
+export const buildConversationCitations = (messages: ComparableMessage[]): TurnCitationReport[] =>
+  messages
+    .filter((message) => message.role === 'assistant' && (message.knowledgeSources?.length ?? 0) > 0)
+    .map(buildCitationReport);
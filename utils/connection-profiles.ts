@@ -0,0 +1,154 @@
+/**
+ * Connection Profiles
+ *
+ * Named DebuggerConfig presets (local, staging, prod...) persisted in
+ * localStorage. Profiles can be exported and imported so a team can share
+ * environment definitions; exports never include tokens or credential headers.
+ */
+
+import { STORAGE_KEYS, type ConnectionProfile, type DebuggerConfig } from '@/types/agent';
+import { isSensitiveHeader, normalizeAuthScheme } from '@/utils/agent-headers';
+
+const EXPORT_VERSION = 1;
+
+export interface ProfileExport {
+  version: number;
+  exportedAt: string;
+  profiles: Omit<ConnectionProfile, 'id'>[];
+}
+
+/**
+ * Create a new profile id
+ * @returns Unique profile id
+ */
+export const createProfileId = (): string =>
+  `profile-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const normalizeProfile = (value: any): ConnectionProfile | null => {
+  if (!value || typeof value !== 'object' || typeof value.name !== 'string' || typeof value.serviceUrl !== 'string') {
+    return null;
+  }
+  const customHeaders: Record<string, string> = {};
+  if (value.customHeaders && typeof value.customHeaders === 'object') {
+    Object.entries(value.customHeaders).forEach(([name, headerValue]) => {
+      if (typeof headerValue === 'string') customHeaders[name] = headerValue;
+    });
+  }
+  return {
+    id: typeof value.id === 'string' ? value.id : createProfileId(),
+    name: value.name.trim() || 'Untitled',
+    serviceUrl: value.serviceUrl,
+    authToken: typeof value.authToken === 'string' ? value.authToken : '',
+    authScheme: normalizeAuthScheme(value.authScheme),
+    persist: value.persist === true,
+    customHeaders,
+  };
+};
+
+/**
+ * Load saved profiles from localStorage
+ * @returns Saved profiles (empty when none or unreadable)
+ */
+export const loadProfiles = (): ConnectionProfile[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEYS.PROFILES) || '[]');
+    return Array.isArray(parsed)
+      ? parsed.map(normalizeProfile).filter((p): p is ConnectionProfile => p !== null)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Persist profiles to localStorage
+ * @param profiles - Profiles to save
+ */
+export const saveProfiles = (profiles: ConnectionProfile[]): void => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEYS.PROFILES, JSON.stringify(profiles));
+};
+
+/**
+ * Check whether the live config differs from a saved profile
+ * @param profile - Saved profile
+ * @param config - Current config
+ * @returns True if any field differs
+ */
+export const isProfileModified = (profile: ConnectionProfile, config: DebuggerConfig): boolean =>
+  profile.serviceUrl !== config.serviceUrl ||
+  profile.authToken !== config.authToken ||
+  JSON.stringify(profile.authScheme) !== JSON.stringify(config.authScheme) ||
+  profile.persist !== config.persist ||
+  JSON.stringify(profile.customHeaders) !== JSON.stringify(config.customHeaders);
+
+/**
+ * Serialize profiles for sharing, stripping tokens and credential headers
+ * @param profiles - Profiles to export
+ * @returns JSON string safe to share with the team
+ */
+export const exportProfiles = (profiles: ConnectionProfile[]): string => {
+  const data: ProfileExport = {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles: profiles.map(({ id, authToken, customHeaders, ...rest }) => ({
+      ...rest,
+      authToken: '',
+      customHeaders: Object.fromEntries(
+        Object.entries(customHeaders).map(([name, value]) => [
+          name,
+          isSensitiveHeader(name, rest.authScheme) ? '' : value,
+        ])
+      ),
+    })),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * Merge an exported profile list into the existing profiles. Profiles are
+ * matched by name; local secrets are kept when the import leaves them blank.
+ * @param text - Contents of an export file
+ * @param existing - Current profiles
+ * @returns Merged profiles and the number imported
+ */
+export const importProfiles = (
+  text: string,
+  existing: ConnectionProfile[]
+): { profiles: ConnectionProfile[]; imported: number } => {
+  const parsed = JSON.parse(text);
+  const incoming = (Array.isArray(parsed) ? parsed : parsed?.profiles);
+  if (!Array.isArray(incoming)) {
+    throw new Error('File does not contain a profile list');
+  }
+
+  const profiles = [...existing];
+  let imported = 0;
+
+  incoming.forEach((raw: any) => {
+    const profile = normalizeProfile({ ...raw, id: undefined });
+    if (!profile) return;
+    imported++;
+
+    const index = profiles.findIndex((p) => p.name === profile.name);
+    if (index === -1) {
+      profiles.push(profile);
+      return;
+    }
+
+    const current = profiles[index];
+    const customHeaders = { ...profile.customHeaders };
+    Object.entries(customHeaders).forEach(([name, value]) => {
+      if (!value && current.customHeaders[name]) customHeaders[name] = current.customHeaders[name];
+    });
+    profiles[index] = {
+      ...profile,
+      id: current.id,
+      authToken: profile.authToken || current.authToken,
+      customHeaders,
+    };
+  });
+
+  return { profiles, imported };
+};
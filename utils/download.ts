@@ -0,0 +1,30 @@
+/**
+ * Download Utilities
+ *
+ * Helpers for saving debugger data (logs, exports) as local files.
+ */
+
+/**
+ * Trigger a browser download of text content
+ * @param content - File contents
+ * @param filename - Suggested file name
+ * @param mimeType - MIME type of the content
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string = 'application/json'): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Build a filesystem-safe timestamp for export file names
+ * @returns Timestamp like 2024-01-31T12-00-00
+ */
+export const getFileTimestamp = (): string =>
+  new Date().toISOString().slice(0, 19).replace(/:/g, '-');
@@ -0,0 +1,237 @@
+/**
+ * Fault Injection
+ *
+ * Fetch middleware that makes agent traffic fail on demand: added latency,
+ * throttled stream frames, connections dropped mid-stream, 429/500/502
+ * responses and corrupted frames. It sits inside stream capture, so the
+ * inspector shows exactly what `useChatStream` received, and outside the
+ * network log, which keeps recording the real traffic.
+ */
+
+import type { FaultConfig, FaultEvent } from '@/types/fault-injection';
+import type { FetchMiddleware } from '@/utils/fetch-interceptor';
+import { isAgentRequestUrl } from '@/utils/agent-headers';
+import { isChatStreamUrl } from '@/utils/stream-capture';
+
+const MAX_EVENTS = 50;
+
+export const DEFAULT_FAULT_CONFIG: FaultConfig = {
+  enabled: false,
+  scope: 'stream',
+  latencyMs: 0,
+  chunkDelayMs: 0,
+  dropAfterFrames: 0,
+  errorStatus: null,
+  errorRate: 100,
+  corruptRate: 0,
+};
+
+const ERROR_MESSAGES: Record<number, string> = {
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+};
+
+let config: FaultConfig = DEFAULT_FAULT_CONFIG;
+let events: FaultEvent[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const recordEvent = (url: string, fault: FaultEvent['fault'], detail: string) => {
+  const event: FaultEvent = {
+    id: `fault-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    timestamp: Date.now(),
+    url,
+    fault,
+    detail,
+  };
+  events = [...events, event].slice(-MAX_EVENTS);
+  notify();
+};
+
+/**
+ * Subscribe to fault config and event updates
+ * @param listener - Called after either changes
+ * @returns Unsubscribe function
+ */
+export const subscribeFaultInjection = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Get the active fault config
+ */
+export const getFaultConfig = (): FaultConfig => config;
+
+/**
+ * Replace the fault config
+ * @param next - New config
+ */
+export const setFaultConfig = (next: FaultConfig): void => {
+  config = next;
+  notify();
+};
+
+/**
+ * Get the faults applied so far, oldest first
+ */
+export const getFaultEvents = (): FaultEvent[] => events;
+
+/**
+ * Discard the recorded fault events
+ */
+export const clearFaultEvents = (): void => {
+  events = [];
+  notify();
+};
+
+/**
+ * Check whether a config would change any traffic
+ * @param faults - Fault config
+ * @returns True if enabled with at least one fault set
+ */
+export const hasActiveFaults = (faults: FaultConfig): boolean =>
+  faults.enabled &&
+  (faults.latencyMs > 0 ||
+    faults.chunkDelayMs > 0 ||
+    faults.dropAfterFrames > 0 ||
+    (faults.errorStatus !== null && faults.errorRate > 0) ||
+    faults.corruptRate > 0);
+
+const wait = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      },
+      { once: true }
+    );
+  });
+
+const rollPercent = (percent: number): boolean => Math.random() * 100 < percent;
+
+// Cut a frame's payload in half so it no longer parses
+const corruptFrame = (line: string): string => {
+  const payloadStart = line.startsWith('data:') ? 'data:'.length : Math.max(0, line.indexOf(':') + 1);
+  const cut = payloadStart + Math.ceil((line.length - payloadStart) / 2);
+  return line.slice(0, cut);
+};
+
+// Re-emit the stream one line at a time, applying the frame-level faults
+const applyStreamFaults = (
+  url: string,
+  body: ReadableStream<Uint8Array>,
+  faults: FaultConfig,
+  signal?: AbortSignal | null
+) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = '';
+  let frameCount = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        buffer += decoder.decode();
+        if (buffer) controller.enqueue(encoder.encode(buffer));
+        controller.close();
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.trim()) {
+          controller.enqueue(encoder.encode('\n'));
+          continue;
+        }
+
+        if (faults.dropAfterFrames > 0 && frameCount >= faults.dropAfterFrames) {
+          recordEvent(url, 'drop', `Connection dropped after ${frameCount} frames`);
+          reader.cancel().catch(() => {});
+          controller.error(new TypeError('network error (connection dropped by fault injection)'));
+          return;
+        }
+
+        if (faults.chunkDelayMs > 0 && frameCount > 0) {
+          try {
+            await wait(faults.chunkDelayMs, signal);
+          } catch (err) {
+            // Stopped or switched away while throttled: stop reading the agent's stream too
+            reader.cancel(err).catch(() => {});
+            controller.error(err);
+            return;
+          }
+        }
+
+        let frame = line;
+        if (faults.corruptRate > 0 && rollPercent(faults.corruptRate)) {
+          frame = corruptFrame(line);
+          recordEvent(url, 'corrupt', `Frame ${frameCount + 1} truncated`);
+        }
+        controller.enqueue(encoder.encode(`${frame}\n`));
+        frameCount++;
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+};
+
+/**
+ * Fetch middleware that applies the active fault config to agent requests,
+ * i.e. URLs under a connected agent's service or endpoint URLs. The
+ * debugger's own routes (discovery, the proxy) stay untouched even when the
+ * agent is the same-origin mock.
+ */
+export const faultInjectionMiddleware: FetchMiddleware = async (request, next) => {
+  const faults = config;
+  if (!hasActiveFaults(faults) || !isAgentRequestUrl(request.url)) return next(request);
+
+  const isStream = isChatStreamUrl(request.url);
+  if (faults.scope === 'stream' && !isStream) return next(request);
+
+  if (faults.latencyMs > 0) {
+    recordEvent(request.url, 'latency', `Delayed ${faults.latencyMs}ms`);
+    await wait(faults.latencyMs, request.init.signal);
+  }
+
+  if (faults.errorStatus !== null && rollPercent(faults.errorRate)) {
+    const statusText = ERROR_MESSAGES[faults.errorStatus];
+    recordEvent(request.url, 'error', `Responded ${faults.errorStatus} ${statusText}`);
+    return new Response(JSON.stringify({ success: false, error: `${statusText} (injected)` }), {
+      status: faults.errorStatus,
+      statusText,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(faults.errorStatus === 429 && { 'Retry-After': '5' }),
+      },
+    });
+  }
+
+  const response = await next(request);
+  const hasFrameFaults = faults.chunkDelayMs > 0 || faults.dropAfterFrames > 0 || faults.corruptRate > 0;
+  if (!isStream || !hasFrameFaults || !response.body) return response;
+
+  return new Response(applyStreamFaults(request.url, response.body, faults, request.init.signal), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
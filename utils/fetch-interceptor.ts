@@ -0,0 +1,104 @@
+/**
+ * Fetch Interceptor
+ *
+ * The chat stream and history calls are made by `@newhomestar/chat-ui` and
+ * by several components independently, so the debugger instruments them by
+ * wrapping `window.fetch` once and running registered middleware around
+ * every request.
+ */
+
+export interface InterceptedRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export type FetchNext = (request: InterceptedRequest) => Promise<Response>;
+
+export type FetchMiddleware = (request: InterceptedRequest, next: FetchNext) => Promise<Response>;
+
+// Lower runs first (outermost). Outer middleware sees what the app sees,
+// inner middleware sees what goes over the wire.
+export const FETCH_MIDDLEWARE_ORDER = {
+  STREAM_CAPTURE: 10,
+  FAULT_INJECTION: 30,
+  AGENT_HEADERS: 50,
+  NETWORK_LOG: 90,
+  AGENT_PROXY: 95,
+} as const;
+
+interface RegisteredMiddleware {
+  order: number;
+  middleware: FetchMiddleware;
+}
+
+let middlewares: RegisteredMiddleware[] = [];
+let originalFetch: typeof fetch | null = null;
+
+const toInterceptedRequest = (input: RequestInfo | URL, init?: RequestInit): InterceptedRequest => {
+  if (typeof input === 'string') return { url: input, init: init || {} };
+  if (input instanceof URL) return { url: input.toString(), init: init || {} };
+
+  // Request objects: lift their properties into init so middleware can rewrite them
+  return {
+    url: input.url,
+    init: {
+      method: input.method,
+      headers: input.headers,
+      body: input.body,
+      signal: input.signal,
+      credentials: input.credentials,
+      ...(input.body && { duplex: 'half' }),
+      ...init,
+    } as RequestInit,
+  };
+};
+
+const install = () => {
+  if (originalFetch || typeof window === 'undefined') return;
+  originalFetch = window.fetch.bind(window);
+
+  window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const chain = [...middlewares];
+    const run = (index: number, request: InterceptedRequest): Promise<Response> => {
+      if (index >= chain.length) {
+        return originalFetch!(request.url, request.init);
+      }
+      return chain[index].middleware(request, (next) => run(index + 1, next));
+    };
+    return run(0, toInterceptedRequest(input, init));
+  };
+};
+
+/**
+ * Register fetch middleware
+ * @param order - Position in the chain, see FETCH_MIDDLEWARE_ORDER
+ * @param middleware - Function wrapping the request
+ * @returns Function that unregisters the middleware
+ */
+export const addFetchMiddleware = (order: number, middleware: FetchMiddleware): (() => void) => {
+  install();
+  const entry = { order, middleware };
+  middlewares = [...middlewares, entry].sort((a, b) => a.order - b.order);
+
+  return () => {
+    middlewares = middlewares.filter((m) => m !== entry);
+  };
+};
+
+/**
+ * Get the request headers as a plain object, whatever form they were given in
+ * @param headers - Headers from RequestInit
+ * @returns Header map
+ */
+export const getHeaderRecord = (headers: HeadersInit | undefined): Record<string, string> => {
+  if (!headers) return {};
+  if (headers instanceof Headers) {
+    const record: Record<string, string> = {};
+    headers.forEach((value, key) => {
+      record[key] = value;
+    });
+    return record;
+  }
+  if (Array.isArray(headers)) return Object.fromEntries(headers);
+  return { ...headers };
+};
@@ -0,0 +1,296 @@
+/**
+ * JSON Schema Utilities
+ *
+ * A small, dependency-free subset of JSON Schema used by the debugger to
+ * build input forms from tool schemas and to check tool results against
+ * their declared output schema. Covers the keywords agents commonly use:
+ * type, properties, required, items, enum, const, anyOf/oneOf/allOf,
+ * additionalProperties and the basic string/number/array constraints.
+ */
+
+export interface SchemaValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Get the primary type of a schema, inferring it when `type` is omitted
+ * @param schema - The JSON Schema
+ * @returns The schema type, or undefined if it cannot be determined
+ */
+export const getSchemaType = (schema: any): string | undefined => {
+  if (!schema || typeof schema !== 'object') return undefined;
+  if (Array.isArray(schema.type)) {
+    return schema.type.find((t: string) => t !== 'null') || schema.type[0];
+  }
+  if (schema.type) return schema.type;
+  if (schema.properties) return 'object';
+  if (schema.items) return 'array';
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return getValueType(schema.enum[0]);
+  }
+  return undefined;
+};
+
+/**
+ * Get the JSON Schema type name of a runtime value
+ * @param value - Any JSON value
+ * @returns The JSON type name ('integer' is reported as 'number')
+ */
+export const getValueType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Build a sensible starting value for a schema, used to seed input forms
+ * @param schema - The JSON Schema
+ * @returns A default value matching the schema
+ */
+export const getSchemaDefaultValue = (schema: any): any => {
+  if (!schema || typeof schema !== 'object') return undefined;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  switch (getSchemaType(schema)) {
+    case 'object': {
+      const value: Record<string, any> = {};
+      const required: string[] = schema.required || [];
+      Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+        if (required.includes(key)) {
+          value[key] = getSchemaDefaultValue(propSchema);
+        }
+      });
+      return value;
+    }
+    case 'array':
+      return [];
+    case 'string':
+      return '';
+    case 'boolean':
+      return false;
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    default:
+      return undefined;
+  }
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    default:
+      return getValueType(value) === type;
+  }
+};
+
+/**
+ * Validate a value against a JSON Schema
+ * @param value - The value to validate
+ * @param schema - The JSON Schema
+ * @param path - JSON path of the value, used in error messages
+ * @returns List of validation errors (empty when the value is valid)
+ */
+export const validateAgainstSchema = (
+  value: unknown,
+  schema: any,
+  path: string = '$'
+): SchemaValidationError[] => {
+  if (schema === true || schema === undefined || schema === null) return [];
+  if (schema === false) return [{ path, message: 'No value is allowed here' }];
+  if (typeof schema !== 'object') return [];
+
+  const errors: SchemaValidationError[] = [];
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      return [{ path, message: `Expected ${types.join(' | ')}, got ${getValueType(value)}` }];
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push({ path, message: `Expected constant ${JSON.stringify(schema.const)}` });
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((e: any) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push({ path, message: `Must be one of ${schema.enum.map((e: any) => JSON.stringify(e)).join(', ')}` });
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((sub: any) => errors.push(...validateAgainstSchema(value, sub, path)));
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const matches = schema.anyOf.some((sub: any) => validateAgainstSchema(value, sub, path).length === 0);
+    if (!matches) errors.push({ path, message: 'Does not match any of the allowed schemas (anyOf)' });
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matchCount = schema.oneOf.filter((sub: any) => validateAgainstSchema(value, sub, path).length === 0).length;
+    if (matchCount !== 1) {
+      errors.push({ path, message: `Must match exactly one schema (oneOf), matched ${matchCount}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push({ path, message: `Must be at least ${schema.minLength} characters` });
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) {
+          errors.push({ path, message: `Must match pattern ${schema.pattern}` });
+        }
+      } catch {
+        // Invalid patterns are reported by schema conformance checks, not here
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push({ path, message: `Must be >= ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push({ path, message: `Must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push({ path, message: `Must have at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push({ path, message: `Must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, any> = schema.properties || {};
+
+    (schema.required || []).forEach((key: string) => {
+      if (record[key] === undefined) {
+        errors.push({ path: `${path}.${key}`, message: 'Required property is missing' });
+      }
+    });
+
+    Object.entries(record).forEach(([key, propValue]) => {
+      if (properties[key] !== undefined) {
+        errors.push(...validateAgainstSchema(propValue, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}.${key}`, message: 'Additional property is not allowed' });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateAgainstSchema(propValue, schema.additionalProperties, `${path}.${key}`));
+      }
+    });
+  }
+
+  return errors;
+};
+
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+/**
+ * Check that a JSON Schema is itself well formed (as used for tool input and
+ * output schemas). Only the keywords this module understands are checked.
+ * @param schema - The schema to check
+ * @param path - JSON path of the schema, used in error messages
+ * @returns Problems found (empty when the schema is well formed)
+ */
+export const checkSchemaDefinition = (schema: unknown, path: string = '$'): SchemaValidationError[] => {
+  if (typeof schema === 'boolean') return [];
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return [{ path, message: `Schema must be an object, got ${getValueType(schema)}` }];
+  }
+
+  const s = schema as Record<string, any>;
+  const errors: SchemaValidationError[] = [];
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type : [s.type];
+    types
+      .filter((t: unknown) => typeof t !== 'string' || !SCHEMA_TYPES.includes(t))
+      .forEach((t: unknown) => errors.push({ path: `${path}.type`, message: `Unknown type ${JSON.stringify(t)}` }));
+  }
+
+  if (s.properties !== undefined) {
+    if (!s.properties || typeof s.properties !== 'object' || Array.isArray(s.properties)) {
+      errors.push({ path: `${path}.properties`, message: 'properties must be an object' });
+    } else {
+      Object.entries(s.properties).forEach(([key, sub]) => {
+        errors.push(...checkSchemaDefinition(sub, `${path}.properties.${key}`));
+      });
+    }
+  }
+
+  if (s.required !== undefined) {
+    if (!Array.isArray(s.required) || s.required.some((r: unknown) => typeof r !== 'string')) {
+      errors.push({ path: `${path}.required`, message: 'required must be an array of property names' });
+    } else if (s.properties && typeof s.properties === 'object') {
+      s.required
+        .filter((key: string) => !(key in s.properties))
+        .forEach((key: string) =>
+          errors.push({ path: `${path}.required`, message: `Required property "${key}" is not defined in properties` })
+        );
+    }
+  }
+
+  if (s.items !== undefined && !Array.isArray(s.items)) {
+    errors.push(...checkSchemaDefinition(s.items, `${path}.items`));
+  }
+
+  if (s.additionalProperties !== undefined && typeof s.additionalProperties !== 'boolean') {
+    errors.push(...checkSchemaDefinition(s.additionalProperties, `${path}.additionalProperties`));
+  }
+
+  ['allOf', 'anyOf', 'oneOf'].forEach((keyword) => {
+    if (s[keyword] === undefined) return;
+    if (!Array.isArray(s[keyword])) {
+      errors.push({ path: `${path}.${keyword}`, message: `${keyword} must be an array of schemas` });
+      return;
+    }
+    s[keyword].forEach((sub: unknown, index: number) => {
+      errors.push(...checkSchemaDefinition(sub, `${path}.${keyword}[${index}]`));
+    });
+  });
+
+  if (s.enum !== undefined && (!Array.isArray(s.enum) || s.enum.length === 0)) {
+    errors.push({ path: `${path}.enum`, message: 'enum must be a non-empty array' });
+  }
+
+  if (s.pattern !== undefined) {
+    try {
+      new RegExp(s.pattern);
+    } catch (err) {
+      errors.push({ path: `${path}.pattern`, message: `Invalid pattern: ${err instanceof Error ? err.message : s.pattern}` });
+    }
+  }
+
+  [
+    ['minimum', 'maximum'],
+    ['minLength', 'maxLength'],
+    ['minItems', 'maxItems'],
+  ].forEach(([min, max]) => {
+    if (typeof s[min] === 'number' && typeof s[max] === 'number' && s[min] > s[max]) {
+      errors.push({ path: `${path}.${min}`, message: `${min} (${s[min]}) is greater than ${max} (${s[max]})` });
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,255 @@
+/**
+ * MCP Client Utilities
+ *
+ * Minimal JSON-RPC client for an agent's MCP endpoint (streamable HTTP
+ * transport). Every request and response is recorded as a frame so the
+ * debugger can show exactly what went over the wire.
+ */
+
+import type {
+  McpFrame,
+  McpJsonRpcRequest,
+  McpJsonRpcResponse,
+  McpToolCallResult,
+} from '@/types/mcp';
+
+const MCP_PROTOCOL_VERSION = '2025-03-26';
+const MCP_SESSION_HEADER = 'Mcp-Session-Id';
+
+export interface McpSession {
+  sessionId: string | null;
+  frames: McpFrame[];
+  serverInfo: any;
+  request: (method: string, params?: any) => Promise<any>;
+  notify: (method: string, params?: any) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Extract JSON-RPC messages from a response body, which may be plain JSON
+ * or a server-sent event stream depending on the server
+ * @param body - Raw response body
+ * @param contentType - Response content type
+ * @returns Parsed JSON-RPC messages
+ */
+export const parseMcpResponseBody = (body: string, contentType: string | null): McpJsonRpcResponse[] => {
+  if (!body.trim()) return [];
+
+  if (contentType?.includes('text/event-stream')) {
+    return body
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trim())
+      .filter(Boolean)
+      .flatMap((data) => {
+        try {
+          const parsed = JSON.parse(data);
+          return Array.isArray(parsed) ? parsed : [parsed];
+        } catch {
+          return [];
+        }
+      });
+  }
+
+  const parsed = JSON.parse(body);
+  return Array.isArray(parsed) ? parsed : [parsed];
+};
+
+/**
+ * Open an MCP session: sends `initialize` followed by the
+ * `notifications/initialized` notification
+ * @param mcpUrl - Absolute URL of the MCP endpoint
+ * @param headers - Headers to send with every request (auth etc.)
+ * @param onFrame - Called for every frame as it is sent or received, including
+ *                  frames of a failed handshake
+ * @returns A session that can issue further requests
+ */
+export const openMcpSession = async (
+  mcpUrl: string,
+  headers: Record<string, string> = {},
+  onFrame?: (frame: McpFrame) => void
+): Promise<McpSession> => {
+  let nextId = 1;
+
+  const recordFrame = (frame: McpFrame) => {
+    session.frames.push(frame);
+    onFrame?.(frame);
+  };
+
+  const session: McpSession = {
+    sessionId: null,
+    frames: [],
+    serverInfo: null,
+
+    notify: async (method, params) => {
+      await send({ jsonrpc: '2.0', method, ...(params !== undefined && { params }) });
+    },
+
+    // Ends the session on the server; failures are ignored since the session is dropped either way
+    close: async () => {
+      if (!session.sessionId) return;
+      try {
+        await fetch(mcpUrl, { method: 'DELETE', headers: { ...headers, [MCP_SESSION_HEADER]: session.sessionId } });
+      } catch {
+        // Server may not support explicit termination
+      }
+    },
+
+    request: async (method, params) => {
+      const id = nextId++;
+      const messages = await send({ jsonrpc: '2.0', id, method, ...(params !== undefined && { params }) });
+      const response = messages.find((m) => m.id === id);
+
+      if (!response) {
+        throw new Error(`No response received for ${method}`);
+      }
+      if (response.error) {
+        throw new Error(`${response.error.message} (code ${response.error.code})`);
+      }
+      return response.result;
+    },
+  };
+
+  const send = async (message: McpJsonRpcRequest): Promise<McpJsonRpcResponse[]> => {
+    recordFrame({
+      direction: 'outgoing',
+      timestamp: Date.now(),
+      method: message.method,
+      payload: message,
+    });
+
+    const response = await fetch(mcpUrl, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        ...(session.sessionId && { [MCP_SESSION_HEADER]: session.sessionId }),
+      },
+      body: JSON.stringify(message),
+    });
+
+    const returnedSessionId = response.headers.get(MCP_SESSION_HEADER);
+    if (returnedSessionId) {
+      session.sessionId = returnedSessionId;
+    }
+
+    const body = await response.text();
+    let messages: McpJsonRpcResponse[] = [];
+    try {
+      messages = parseMcpResponseBody(body, response.headers.get('content-type'));
+    } catch {
+      // Non JSON-RPC body - recorded below as a raw frame
+    }
+
+    if (messages.length > 0) {
+      messages.forEach((payload) =>
+        recordFrame({
+          direction: 'incoming',
+          timestamp: Date.now(),
+          method: message.method,
+          status: response.status,
+          payload,
+        })
+      );
+    } else if (body || !response.ok) {
+      recordFrame({
+        direction: 'incoming',
+        timestamp: Date.now(),
+        method: message.method,
+        status: response.status,
+        payload: body,
+      });
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} from MCP endpoint`);
+    }
+
+    return messages;
+  };
+
+  try {
+    session.serverInfo = await session.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'nova-agent-debugger', version: '0.1.0' },
+    });
+    await session.notify('notifications/initialized');
+  } catch (error) {
+    // The server may have assigned a session id before the handshake failed
+    await session.close();
+    throw error;
+  }
+
+  return session;
+};
+
+/**
+ * Run a paginated MCP list method, following `nextCursor` until the server
+ * stops returning one (or repeats a cursor)
+ * @param session - Open MCP session
+ * @param method - e.g. `tools/list`
+ * @param key - Result field holding the items, e.g. `tools`
+ * @returns Items of every page
+ */
+export const listAllMcpItems = async (session: McpSession, method: string, key: string): Promise<any[]> => {
+  const items: any[] = [];
+  const seenCursors = new Set<string>();
+  let cursor: string | undefined;
+  do {
+    const result = await session.request(method, cursor ? { cursor } : undefined);
+    items.push(...(Array.isArray(result?.[key]) ? result[key] : []));
+    cursor = typeof result?.nextCursor === 'string' && result.nextCursor ? result.nextCursor : undefined;
+    if (cursor && seenCursors.has(cursor)) break;
+    if (cursor) seenCursors.add(cursor);
+  } while (cursor);
+  return items;
+};
+
+/**
+ * Call a single tool over MCP using a fresh session, closed once the call is done
+ * @param mcpUrl - Absolute URL of the MCP endpoint
+ * @param headers - Headers to send with every request
+ * @param name - Tool name
+ * @param args - Tool arguments
+ * @returns The tool result or the error, and the frames exchanged either way
+ */
+export const callMcpTool = async (
+  mcpUrl: string,
+  headers: Record<string, string>,
+  name: string,
+  args: Record<string, any>
+): Promise<{ result?: McpToolCallResult; error?: string; frames: McpFrame[] }> => {
+  // Collected here rather than from the session, which does not exist when the handshake fails
+  const frames: McpFrame[] = [];
+  let session: McpSession | null = null;
+  try {
+    session = await openMcpSession(mcpUrl, headers, (frame) => frames.push(frame));
+    const result = await session.request('tools/call', { name, arguments: args });
+    return { result, frames };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Unknown error', frames };
+  } finally {
+    await session?.close();
+  }
+};
+
+/**
+ * Extract the structured value of a tool result for output schema checks.
+ * Prefers `structuredContent`, then JSON in the first text block, then the text itself.
+ * @param result - MCP tool call result
+ * @returns The value to validate against the tool's output schema
+ */
+export const getToolResultValue = (result: McpToolCallResult): any => {
+  if (result.structuredContent !== undefined) return result.structuredContent;
+
+  const text = result.content?.find((c) => c.type === 'text')?.text;
+  if (text === undefined) return result.content;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
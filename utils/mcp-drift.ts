@@ -0,0 +1,110 @@
+/**
+ * MCP Drift Detection
+ *
+ * Compares what an agent reports over MCP with what it advertises in
+ * `/.well-known/agent-config`, so the two surfaces can be kept in sync.
+ */
+
+import type { AgentConfig } from '@/types/agent';
+
+export type McpDriftKind =
+  | 'missing-in-mcp'
+  | 'missing-in-config'
+  | 'description-mismatch'
+  | 'schema-mismatch';
+
+export interface McpDrift {
+  surface: 'tools' | 'resources' | 'prompts';
+  name: string;
+  kind: McpDriftKind;
+  detail: string;
+}
+
+export interface McpListings {
+  tools?: any[];
+  resources?: any[];
+  prompts?: any[];
+}
+
+// Stable stringify so that key order doesn't register as a schema change
+const canonicalize = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalize(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const getItemName = (item: any): string | undefined =>
+  typeof item === 'string' ? item : item?.name || item?.uri || item?.id;
+
+const compareByName = (
+  surface: McpDrift['surface'],
+  mcpItems: any[],
+  configItems: any[],
+  compareItem?: (mcpItem: any, configItem: any) => McpDrift[]
+): McpDrift[] => {
+  const drifts: McpDrift[] = [];
+  const mcpByName = new Map(mcpItems.map((item) => [getItemName(item), item]));
+  const configByName = new Map(configItems.map((item) => [getItemName(item), item]));
+
+  configByName.forEach((configItem, name) => {
+    if (!name) return;
+    const mcpItem = mcpByName.get(name);
+    if (!mcpItem) {
+      drifts.push({ surface, name, kind: 'missing-in-mcp', detail: 'Advertised in agent-config but not reported by MCP' });
+    } else if (compareItem) {
+      drifts.push(...compareItem(mcpItem, configItem));
+    }
+  });
+
+  mcpByName.forEach((_, name) => {
+    if (name && !configByName.has(name)) {
+      drifts.push({ surface, name, kind: 'missing-in-config', detail: 'Reported by MCP but not advertised in agent-config' });
+    }
+  });
+
+  return drifts;
+};
+
+const compareTool = (mcpTool: any, configTool: any): McpDrift[] => {
+  const drifts: McpDrift[] = [];
+  const name = configTool.name;
+
+  if ((mcpTool.description || '') !== (configTool.description || '')) {
+    drifts.push({ surface: 'tools', name, kind: 'description-mismatch', detail: 'Descriptions differ' });
+  }
+  if (configTool.inputSchema && canonicalize(mcpTool.inputSchema) !== canonicalize(configTool.inputSchema)) {
+    drifts.push({ surface: 'tools', name, kind: 'schema-mismatch', detail: 'inputSchema differs' });
+  }
+  if (configTool.outputSchema && canonicalize(mcpTool.outputSchema) !== canonicalize(configTool.outputSchema)) {
+    drifts.push({ surface: 'tools', name, kind: 'schema-mismatch', detail: 'outputSchema differs' });
+  }
+
+  return drifts;
+};
+
+/**
+ * Compare MCP listings against the discovered agent config
+ * @param listings - Results of tools/list, resources/list and prompts/list
+ * @param agentInfo - The discovered agent config
+ * @returns Differences between the two surfaces. Surfaces that were not listed are skipped.
+ */
+export const detectMcpDrift = (listings: McpListings, agentInfo: AgentConfig): McpDrift[] => {
+  const drifts: McpDrift[] = [];
+
+  if (listings.tools) {
+    drifts.push(...compareByName('tools', listings.tools, agentInfo.tools || [], compareTool));
+  }
+  if (listings.resources) {
+    drifts.push(...compareByName('resources', listings.resources, agentInfo.resources || []));
+  }
+  if (listings.prompts) {
+    drifts.push(...compareByName('prompts', listings.prompts, agentInfo.prompts || []));
+  }
+
+  return drifts;
+};
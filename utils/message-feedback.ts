@@ -0,0 +1,89 @@
+/**
+ * Message Feedback
+ *
+ * Sends like/dislike feedback (with an optional comment) for a message to the
+ * agent's feedback endpoint, and removes it again for undo.
+ */
+
+import type { MessageFeedback, MessageFeedbackType } from '@/types/agent';
+import { getMessageFeedbackUrl } from '@/utils/chat-api';
+import { buildConnectionHeaders, type AgentRequestConfig } from '@/utils/agent-headers';
+
+export const NO_FEEDBACK: MessageFeedback = { liked: false, disliked: false, hasComment: false };
+
+/**
+ * Read the feedback state carried by a message
+ * @param message - Persisted or rendered message
+ * @returns Feedback flags and comment
+ */
+export const getMessageFeedback = (message: any): MessageFeedback => ({
+  liked: message?.liked === true,
+  disliked: message?.disliked === true,
+  hasComment: message?.hasComment === true || Boolean(message?.comment),
+  comment: message?.comment || undefined,
+});
+
+/**
+ * Build the feedback state for a like or dislike
+ * @param type - Like or dislike
+ * @param comment - Optional comment
+ * @returns Feedback state
+ */
+export const createMessageFeedback = (type: MessageFeedbackType, comment?: string): MessageFeedback => ({
+  liked: type === 'like',
+  disliked: type === 'dislike',
+  hasComment: Boolean(comment?.trim()),
+  comment: comment?.trim() || undefined,
+});
+
+const getFeedbackError = async (response: Response): Promise<Error> => {
+  let detail = response.statusText;
+  try {
+    const data = await response.json();
+    detail = data?.error || data?.message || detail;
+  } catch {
+    // Keep the status text
+  }
+  return new Error(`Feedback request failed: ${response.status}${detail ? ` ${detail}` : ''}`);
+};
+
+/**
+ * Store feedback for a message, or remove it when feedback is empty
+ * @param connection - The agent connection (service URL, credentials, custom headers)
+ * @param messageId - The message ID
+ * @param feedback - Feedback to store
+ * @returns The stored feedback
+ */
+export const saveMessageFeedback = async (
+  connection: AgentRequestConfig,
+  messageId: string,
+  feedback: MessageFeedback
+): Promise<MessageFeedback> => {
+  const headers = buildConnectionHeaders(connection);
+  const isEmpty = !feedback.liked && !feedback.disliked;
+  const url = getMessageFeedbackUrl(connection.serviceUrl, messageId);
+  console.log('[Feedback]', isEmpty ? 'Removing feedback for' : 'Sending feedback for', messageId);
+
+  const response = await fetch(
+    url,
+    isEmpty
+      ? { method: 'DELETE', headers }
+      : {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            feedback: feedback.liked ? 'like' : 'dislike',
+            liked: feedback.liked,
+            disliked: feedback.disliked,
+            comment: feedback.comment,
+          }),
+        }
+  );
+  if (!response.ok) {
+    throw await getFeedbackError(response);
+  }
+
+  // Prefer the state the agent reports back, when it returns the message
+  const data = await response.json().catch(() => null);
+  return data?.message ? { ...getMessageFeedback(data.message), comment: feedback.comment } : feedback;
+};
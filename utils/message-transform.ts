@@ -0,0 +1,123 @@
+/**
+ * Message Transform
+ *
+ * Turns messages persisted by the agent into the shape chat-ui renders:
+ * `annotation.toolSteps` become `toolSteps` (de-duplicated by toolCallId),
+ * `annotation.knowledge_sources` become `knowledgeSources` and the whole
+ * annotation is handed over as `toolData`. Also reports what the transform
+ * ignored or dropped, for the message inspector.
+ */
+
+import type { MessageTransformReport, TransformFieldStatus } from '@/types/message-inspect';
+
+// Top-level fields of a persisted message the transform reads
+const READ_FIELDS = ['id', 'role', 'content', 'createdAt', 'created_at', 'liked', 'disliked', 'hasComment', 'comment', 'annotation'];
+
+// Annotation keys mapped onto their own ChatMessage fields
+const MAPPED_ANNOTATION_KEYS = ['toolSteps', 'knowledge_sources', 'type'];
+
+/**
+ * Build the JSON path of a child value
+ * @param path - Path of the parent, e.g. `$.annotation`
+ * @param key - Object key or array index
+ * @returns Path like `$.annotation.toolSteps[2]`
+ */
+export const getJsonChildPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}["${key}"]`;
+
+/**
+ * Transform a persisted message for chat-ui
+ * This matches how project-starfleet-web handles it
+ * @param msg - Message as returned by the messages endpoint
+ * @returns ChatMessage-shaped object
+ */
+export const transformPersistedMessage = (msg: any) => {
+  // De-duplicate toolSteps by toolCallId to prevent duplicate chart/table rendering
+  // The database sometimes contains duplicate entries with the same toolCallId
+  const rawToolSteps = msg.annotation?.toolSteps || [];
+  const uniqueToolSteps = rawToolSteps.filter(
+    (step: any, index: number, arr: any[]) =>
+      arr.findIndex((s: any) => s.toolCallId === step.toolCallId) === index
+  );
+
+  return {
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    createdAt: msg.createdAt || msg.created_at || new Date().toISOString(),
+    // Add timestamp for compatibility with ChatMessage type
+    timestamp: new Date(msg.createdAt || msg.created_at || new Date()),
+    // Restore feedback state from API
+    liked: msg.liked || false,
+    disliked: msg.disliked || false,
+    hasComment: msg.hasComment || false,
+    comment: msg.comment || undefined,
+    // Restore tool steps from annotation (chain of thought) - de-duplicated
+    toolSteps: uniqueToolSteps.length > 0 ? uniqueToolSteps : undefined,
+    // Restore knowledge sources from annotation
+    knowledgeSources: msg.annotation?.knowledge_sources || undefined,
+    // Create toolData from annotation for tool visualization (charts, tables, etc.)
+    // Note: Don't include separate 'annotation' field to avoid duplicate rendering
+    toolData: msg.annotation ? {
+      type: msg.annotation.type || 'unknown',
+      state: 'output-available',
+      output: msg.annotation
+    } : undefined
+  };
+};
+
+/**
+ * Report which parts of a persisted message the transform ignored or dropped
+ * @param msg - Message as returned by the messages endpoint
+ * @returns Ignored fields, duplicate tool steps and pass-through annotation keys
+ */
+export const inspectMessageTransform = (msg: any): MessageTransformReport => {
+  const highlights: Record<string, TransformFieldStatus> = {};
+
+  const ignoredFields = Object.keys(msg || {}).filter((key) => !READ_FIELDS.includes(key));
+  ignoredFields.forEach((key) => {
+    highlights[getJsonChildPath('$', key)] = 'ignored';
+  });
+
+  const annotation = msg?.annotation;
+  const passthroughAnnotationKeys =
+    annotation && typeof annotation === 'object' && !Array.isArray(annotation)
+      ? Object.keys(annotation).filter((key) => !MAPPED_ANNOTATION_KEYS.includes(key))
+      : [];
+  passthroughAnnotationKeys.forEach((key) => {
+    highlights[getJsonChildPath('$.annotation', key)] = 'passthrough';
+  });
+
+  const duplicateToolSteps: MessageTransformReport['duplicateToolSteps'] = [];
+  const toolSteps: any[] = Array.isArray(annotation?.toolSteps) ? annotation.toolSteps : [];
+  toolSteps.forEach((step, index) => {
+    if (toolSteps.findIndex((s) => s?.toolCallId === step?.toolCallId) !== index) {
+      duplicateToolSteps.push({ index, toolCallId: String(step?.toolCallId) });
+      highlights[`$.annotation.toolSteps[${index}]`] = 'deduplicated';
+    }
+  });
+
+  return { ignoredFields, duplicateToolSteps, passthroughAnnotationKeys, highlights };
+};
+
+// Hash prefix of the inspect links added under rendered messages
+const INSPECT_MESSAGE_HASH = '#inspect-message-';
+
+/**
+ * Build the markdown link that opens a message in the inspector
+ * @param messageId - Id of the rendered message
+ * @returns Link like `[Inspect](#inspect-message-<id>)`
+ */
+export const getInspectMessageLink = (messageId: string): string =>
+  `[Inspect](${INSPECT_MESSAGE_HASH}${encodeURIComponent(messageId)})`;
+
+/**
+ * Read the message id from a clicked inspect link
+ * @param target - Element that received the click
+ * @returns Message id, or null when the click was not on an inspect link
+ */
+export const getInspectMessageId = (target: EventTarget | null): string | null => {
+  const link = target instanceof Element ? target.closest(`a[href^="${INSPECT_MESSAGE_HASH}"]`) : null;
+  const href = link?.getAttribute('href');
+  return href ? decodeURIComponent(href.slice(INSPECT_MESSAGE_HASH.length)) : null;
+};
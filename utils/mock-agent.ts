@@ -0,0 +1,501 @@
+/**
+ * Mock Agent
+ *
+ * Server-side state and behaviour for the built-in mock agent served from
+ * `/api/mock`. Responses are driven by an editable script of rules (text,
+ * tool calls, knowledge sources, annotations and errors) so the debugger and
+ * chat-ui rendering can be worked on without a running nova-agent-core, with
+ * deterministic fixtures.
+ *
+ * State lives in module memory and resets when the dev server restarts.
+ */
+
+import type { AgentConfig, AgentConfigTool, ChatListFilter } from '@/types/agent';
+import type {
+  MockScript,
+  MockResponseScript,
+  MockStoredChat,
+  MockStoredMessage,
+  MockToolCall,
+} from '@/types/mock-agent';
+import { getMessageSearchText, matchesChatFilter } from '@/utils/chat-history';
+import { getToolRouting } from '@/utils/tool-routing';
+
+export const MOCK_AGENT_VERSION = '1.0.0';
+
+const WORDS_PER_CHUNK = 3;
+
+// Tools the mock agent advertises; scripted tool names not listed here are added generically
+const MOCK_TOOLS: AgentConfigTool[] = [
+  {
+    name: 'get_weather',
+    description: 'Get the current weather for a city',
+    category: 'demo',
+    inputSchema: {
+      type: 'object',
+      properties: { city: { type: 'string', description: 'City name' } },
+      required: ['city'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: { temperature: { type: 'number' }, conditions: { type: 'string' } },
+    },
+  },
+  {
+    name: 'search_docs',
+    description: 'Search the knowledge base',
+    category: 'knowledge',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        limit: { type: 'integer', minimum: 1, maximum: 20, default: 5 },
+      },
+      required: ['query'],
+    },
+  },
+];
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  protocol: 'ui-message-stream',
+  requireAuth: false,
+  chunkDelayMs: 40,
+  rules: [
+    {
+      match: 'weather',
+      response: {
+        toolCalls: [
+          {
+            toolName: 'get_weather',
+            args: { city: 'Paris' },
+            output: { temperature: 18, conditions: 'Cloudy' },
+            delayMs: 400,
+          },
+        ],
+        text: 'It is currently 18°C and cloudy in Paris.',
+      },
+    },
+    {
+      match: 'sources',
+      response: {
+        toolCalls: [{ toolName: 'search_docs', args: { query: 'getting started' }, output: { hits: 2 }, delayMs: 300 }],
+        knowledgeSources: [
+          {
+            id: 'doc-getting-started',
+            title: 'Getting Started',
+            url: 'https://example.com/docs/getting-started',
+            score: 0.92,
+            content: 'Install the agent, configure the service URL and run discovery.',
+          },
+          {
+            id: 'doc-faq',
+            title: 'FAQ',
+            url: 'https://example.com/docs/faq',
+            score: 0.71,
+            content: 'Answers to common setup questions.',
+          },
+        ],
+        text: 'To get started, install the agent, configure the service URL and run discovery.',
+      },
+    },
+    { match: 'error 500', response: { error: { status: 500, message: 'Mock internal server error' } } },
+    { match: 'rate limit', response: { error: { status: 429, message: 'Too many requests' } } },
+    {
+      match: 'drop',
+      response: {
+        text: 'This response will be cut off part of the way through because the script says so.',
+        error: { afterChunks: 3, message: 'Mock connection dropped mid-stream' },
+      },
+    },
+  ],
+  fallback: {
+    text: 'You said: "{{prompt}}". This is the mock agent; edit its script in the config panel to return tool calls, knowledge sources or errors.',
+  },
+};
+
+let script: MockScript = DEFAULT_MOCK_SCRIPT;
+const chats = new Map<string, MockStoredChat>();
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Get the active mock script
+ */
+export const getMockScript = (): MockScript => script;
+
+/**
+ * Replace the active mock script, filling missing fields from the default
+ * @param next - New script
+ * @returns The script now in effect
+ */
+export const setMockScript = (next: Partial<MockScript>): MockScript => {
+  if (next.rules !== undefined && !Array.isArray(next.rules)) {
+    throw new Error('rules must be an array');
+  }
+  script = { ...DEFAULT_MOCK_SCRIPT, ...next };
+  return script;
+};
+
+/**
+ * Discard all stored chats and restore the default script
+ */
+export const resetMockAgent = (): void => {
+  script = DEFAULT_MOCK_SCRIPT;
+  chats.clear();
+};
+
+/**
+ * Build the mock agent's config document
+ * @param baseUrl - Absolute URL the mock is served from (e.g. http://localhost:3001/api/mock)
+ * @returns Agent config
+ */
+export const getMockAgentConfig = (baseUrl: string): AgentConfig => {
+  const scriptedTools = script.rules
+    .flatMap((rule) => rule.response.toolCalls || [])
+    .map((call) => call.toolName)
+    .filter((name, index, names) => names.indexOf(name) === index && !MOCK_TOOLS.some((t) => t.name === name))
+    .map((name): AgentConfigTool => ({ name, description: 'Scripted mock tool', category: 'scripted' }));
+
+  return {
+    agent_id: 'mock-agent',
+    name: 'Mock Agent',
+    version: MOCK_AGENT_VERSION,
+    description: 'Built-in scripted agent for offline debugger development.',
+    theme_color: '#6B7280',
+    capabilities: ['chat', 'tools', 'knowledge', 'persistence'],
+    endpoints: {
+      discovery: `${baseUrl}/.well-known/agent-config`,
+      health: `${baseUrl}/health`,
+      stream: `${baseUrl}/api/chat/stream`,
+    },
+    tools: [...MOCK_TOOLS, ...scriptedTools],
+    prompts: [
+      { name: 'weather', description: 'Tool call demo', text: 'What is the weather in Paris?' },
+      { name: 'sources', description: 'Knowledge sources demo', text: 'Show me the getting started sources' },
+      { name: 'drop', description: 'Mid-stream failure demo', text: 'drop the connection' },
+    ],
+    metadata: { mock: true },
+  };
+};
+
+const matchesRule = (prompt: string, match: string): boolean => {
+  const regex = match.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2]).test(prompt);
+    } catch {
+      return false;
+    }
+  }
+  return prompt.toLowerCase().includes(match.toLowerCase());
+};
+
+/**
+ * Pick the scripted response for a prompt
+ * @param prompt - The user prompt
+ * @returns First matching rule's response, or the fallback
+ */
+export const resolveMockResponse = (prompt: string): MockResponseScript => {
+  const rule = script.rules.find((r) => matchesRule(prompt, r.match));
+  const response = rule?.response || script.fallback;
+  return { ...response, text: response.text?.split('{{prompt}}').join(prompt) };
+};
+
+const getLastUserMessage = (body: any): any => {
+  const messages = Array.isArray(body?.messages) ? body.messages : [];
+  return [...messages].reverse().find((m: any) => m?.role === 'user') || body?.message;
+};
+
+/**
+ * Extract the latest user prompt from a chat stream request body
+ * @param body - Parsed request body (useChatStream or AI SDK shaped)
+ * @returns Prompt text
+ */
+export const getPromptFromBody = (body: any): string => {
+  const last = getLastUserMessage(body);
+  if (typeof last === 'string') return last;
+  if (typeof last?.content === 'string') return last.content;
+  if (Array.isArray(last?.parts)) {
+    return last.parts.filter((p: any) => p?.type === 'text').map((p: any) => p.text).join('');
+  }
+  return body?.content || body?.prompt || '';
+};
+
+/**
+ * Apply the forced and disabled tools of the latest user message to a scripted response.
+ * Forced tools run first, with the sent arguments; disabled tools are dropped.
+ * @param response - Scripted response
+ * @param body - Parsed request body
+ * @returns Response whose tool calls follow the routing overrides
+ */
+export const applyToolRoutingFromBody = (response: MockResponseScript, body: any): MockResponseScript => {
+  const routing = getToolRouting(getLastUserMessage(body));
+  if (routing.forced_tools.length === 0 && routing.disabled_tools.length === 0) return response;
+
+  const forcedNames = routing.forced_tools.map((tool) => tool.name);
+  const scripted = (response.toolCalls || []).filter((call) => !routing.disabled_tools.includes(call.toolName));
+  const forced = routing.forced_tools.map((tool): MockToolCall => ({
+    ...(scripted.find((call) => call.toolName === tool.name) || { output: { forced: true } }),
+    toolName: tool.name,
+    args: tool.args,
+  }));
+
+  return {
+    ...response,
+    toolCalls: [...forced, ...scripted.filter((call) => !forcedNames.includes(call.toolName))],
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Chat persistence
+// ---------------------------------------------------------------------------
+
+/**
+ * List stored chats, newest first
+ * @param filter - Optional search (titles and message content), date range and user filters
+ */
+export const listMockChats = (filter: ChatListFilter = {}): Omit<MockStoredChat, 'messages'>[] =>
+  Array.from(chats.values())
+    .filter((chat) => matchesChatFilter(chat, filter, getMessageSearchText(chat.messages)))
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    .map(({ messages, ...chat }) => chat);
+
+/**
+ * Get a stored chat
+ * @param chatId - Chat id
+ */
+export const getMockChat = (chatId: string): MockStoredChat | undefined => chats.get(chatId);
+
+/**
+ * Update a stored chat's title
+ * @param chatId - Chat id
+ * @param title - New title
+ * @returns Updated chat, or undefined if not found
+ */
+export const updateMockChat = (chatId: string, title: string): MockStoredChat | undefined => {
+  const chat = chats.get(chatId);
+  if (!chat) return undefined;
+  chat.title = title;
+  chat.updated_at = new Date().toISOString();
+  return chat;
+};
+
+/**
+ * Delete a stored chat
+ * @param chatId - Chat id
+ * @returns True if the chat existed
+ */
+export const deleteMockChat = (chatId: string): boolean => chats.delete(chatId);
+
+/**
+ * Set or clear feedback on a stored message
+ * @param messageId - Message id
+ * @param feedback - Like/dislike and optional comment; null clears feedback
+ * @returns Updated message, or undefined if not found
+ */
+export const setMockMessageFeedback = (
+  messageId: string,
+  feedback: { liked?: boolean; disliked?: boolean; comment?: string } | null
+): MockStoredMessage | undefined => {
+  const message = Array.from(chats.values())
+    .flatMap((chat) => chat.messages)
+    .find((m) => m.id === messageId);
+  if (!message) return undefined;
+  message.liked = feedback?.liked === true;
+  message.disliked = feedback?.disliked === true;
+  message.comment = feedback?.comment || undefined;
+  message.hasComment = Boolean(feedback?.comment);
+  return message;
+};
+
+const saveTurn = (chatId: string, prompt: string, assistant: MockStoredMessage) => {
+  const now = new Date().toISOString();
+  const chat = chats.get(chatId) || {
+    id: chatId,
+    title: prompt.slice(0, 60) || null,
+    created_at: now,
+    updated_at: now,
+    user_id: 'mock-user',
+    messages: [],
+  };
+  chat.messages.push({ id: createId('msg'), role: 'user', content: prompt, createdAt: now }, assistant);
+  chat.updated_at = now;
+  chats.set(chatId, chat);
+};
+
+// ---------------------------------------------------------------------------
+// Streaming
+// ---------------------------------------------------------------------------
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const chunkText = (text: string): string[] => {
+  const words = text.split(/(?<=\s)/);
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += WORDS_PER_CHUNK) {
+    chunks.push(words.slice(i, i + WORDS_PER_CHUNK).join(''));
+  }
+  return chunks;
+};
+
+type StreamEvent =
+  | { kind: 'start'; messageId: string }
+  | { kind: 'tool-call'; toolCallId: string; call: MockToolCall }
+  | { kind: 'tool-result'; toolCallId: string; call: MockToolCall }
+  | { kind: 'sources'; sources: any[] }
+  | { kind: 'annotation'; annotation: Record<string, any> }
+  | { kind: 'text'; id: string; delta: string; first: boolean; last: boolean }
+  | { kind: 'error'; message: string }
+  | { kind: 'finish' };
+
+// Encode one event in the configured wire format
+const encodeEvent = (event: StreamEvent, protocol: MockScript['protocol']): string => {
+  if (protocol === 'data-stream') {
+    switch (event.kind) {
+      case 'start':
+        return `f:${JSON.stringify({ messageId: event.messageId })}\n`;
+      case 'tool-call':
+        return `9:${JSON.stringify({ toolCallId: event.toolCallId, toolName: event.call.toolName, args: event.call.args || {} })}\n`;
+      case 'tool-result':
+        return `a:${JSON.stringify({ toolCallId: event.toolCallId, result: event.call.error ? { error: event.call.error } : event.call.output ?? null })}\n`;
+      case 'sources':
+        return event.sources
+          .map((source) => `h:${JSON.stringify({ sourceType: 'url', id: source.id, url: source.url, title: source.title })}\n`)
+          .join('');
+      case 'annotation':
+        return `8:${JSON.stringify([event.annotation])}\n`;
+      case 'text':
+        return `0:${JSON.stringify(event.delta)}\n`;
+      case 'error':
+        return `3:${JSON.stringify(event.message)}\n`;
+      case 'finish':
+        return `e:${JSON.stringify({ finishReason: 'stop', isContinued: false })}\nd:${JSON.stringify({ finishReason: 'stop' })}\n`;
+    }
+  }
+
+  const sse = (payload: any) => `data: ${JSON.stringify(payload)}\n\n`;
+  switch (event.kind) {
+    case 'start':
+      return sse({ type: 'start', messageId: event.messageId });
+    case 'tool-call':
+      return sse({ type: 'tool-input-available', toolCallId: event.toolCallId, toolName: event.call.toolName, input: event.call.args || {} });
+    case 'tool-result':
+      return event.call.error
+        ? sse({ type: 'tool-output-error', toolCallId: event.toolCallId, errorText: event.call.error })
+        : sse({ type: 'tool-output-available', toolCallId: event.toolCallId, output: event.call.output ?? null });
+    case 'sources':
+      return event.sources
+        .map((source) => sse({ type: 'source-url', sourceId: source.id, url: source.url, title: source.title }))
+        .join('');
+    case 'annotation':
+      return sse({ type: 'message-metadata', messageMetadata: event.annotation });
+    case 'text':
+      return [
+        event.first ? sse({ type: 'text-start', id: event.id }) : '',
+        sse({ type: 'text-delta', id: event.id, delta: event.delta }),
+        event.last ? sse({ type: 'text-end', id: event.id }) : '',
+      ].join('');
+    case 'error':
+      return sse({ type: 'error', errorText: event.message });
+    case 'finish':
+      return `${sse({ type: 'finish' })}data: [DONE]\n\n`;
+  }
+};
+
+/**
+ * Build the streaming response for one chat turn
+ * @param prompt - The user prompt
+ * @param response - Scripted response
+ * @param options - Chat id and whether to persist the turn
+ * @returns Streaming Response in the configured protocol
+ */
+export const createMockStreamResponse = (
+  prompt: string,
+  response: MockResponseScript,
+  options: { chatId?: string; persist: boolean }
+): Response => {
+  const { protocol } = script;
+  const chunkDelayMs = response.chunkDelayMs ?? script.chunkDelayMs;
+  const messageId = createId('msg');
+  const textId = createId('text');
+  const encoder = new TextEncoder();
+
+  const toolSteps: any[] = [];
+  const chunks = chunkText(response.text || '');
+  const failAfter = response.error?.afterChunks;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) => controller.enqueue(encoder.encode(encodeEvent(event, protocol)));
+
+      send({ kind: 'start', messageId });
+
+      for (const call of response.toolCalls || []) {
+        const toolCallId = createId('call');
+        const startedAt = new Date().toISOString();
+        send({ kind: 'tool-call', toolCallId, call });
+        await sleep(call.delayMs ?? chunkDelayMs);
+        send({ kind: 'tool-result', toolCallId, call });
+        toolSteps.push({
+          toolCallId,
+          toolName: call.toolName,
+          args: call.args || {},
+          result: call.error ? { error: call.error } : call.output ?? null,
+          status: call.error ? 'error' : 'complete',
+          startedAt,
+          completedAt: new Date().toISOString(),
+        });
+      }
+
+      if (response.knowledgeSources?.length) send({ kind: 'sources', sources: response.knowledgeSources });
+
+      const annotation = {
+        type: 'mock',
+        ...(toolSteps.length > 0 && { toolSteps }),
+        ...(response.knowledgeSources?.length && { knowledge_sources: response.knowledgeSources }),
+        ...response.annotation,
+      };
+      send({ kind: 'annotation', annotation });
+
+      let content = '';
+      for (let i = 0; i < chunks.length; i++) {
+        if (failAfter !== undefined && i >= failAfter) break;
+        content += chunks[i];
+        send({ kind: 'text', id: textId, delta: chunks[i], first: i === 0, last: i === chunks.length - 1 });
+        await sleep(chunkDelayMs);
+      }
+
+      if (options.persist && options.chatId) {
+        saveTurn(options.chatId, prompt, {
+          id: messageId,
+          role: 'assistant',
+          content,
+          createdAt: new Date().toISOString(),
+          annotation,
+        });
+      }
+
+      if (response.error && failAfter !== undefined) {
+        // Emit the error frame, then drop the connection without a finish event
+        send({ kind: 'error', message: response.error.message });
+        await sleep(chunkDelayMs);
+        controller.error(new Error(response.error.message));
+        return;
+      }
+
+      send({ kind: 'finish' });
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': protocol === 'data-stream' ? 'text/plain; charset=utf-8' : 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      ...(protocol === 'data-stream'
+        ? { 'x-vercel-ai-data-stream': 'v1' }
+        : { 'x-vercel-ai-ui-message-stream': 'v1' }),
+    },
+  });
+};
@@ -0,0 +1,206 @@
+/**
+ * Network Log
+ *
+ * Fetch middleware that records every request the debugger makes (discovery,
+ * chat history, streaming, MCP, health checks) with redacted credentials,
+ * plus HAR export so a session can be attached to backend bug tickets.
+ */
+
+import type { NetworkLogEntry } from '@/types/network';
+import { getHeaderRecord, type FetchMiddleware } from '@/utils/fetch-interceptor';
+import { isSensitiveHeader } from '@/utils/agent-headers';
+
+const MAX_ENTRIES = 500;
+const MAX_BODY_LENGTH = 100_000;
+const REDACTED = '[REDACTED]';
+
+// Framework-internal requests that aren't part of the debugger's own traffic
+const IGNORED_PATHS = [/\/_next\//, /\/__nextjs/, /\/favicon\.ico/];
+
+let entries: NetworkLogEntry[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const updateEntry = (id: string, changes: Partial<NetworkLogEntry>) => {
+  entries = entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry));
+  notify();
+};
+
+/**
+ * Subscribe to network log updates
+ * @param listener - Called after entries change
+ * @returns Unsubscribe function
+ */
+export const subscribeNetworkLog = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Get the current network log entries, oldest first
+ */
+export const getNetworkLog = (): NetworkLogEntry[] => entries;
+
+/**
+ * Discard all network log entries
+ */
+export const clearNetworkLog = (): void => {
+  entries = [];
+  notify();
+};
+
+/**
+ * Redact credentials from headers, keeping the auth scheme visible
+ * @param headers - Header map
+ * @returns Copy of the headers with secrets replaced
+ */
+export const redactHeaders = (headers: Record<string, string>): Record<string, string> => {
+  const redacted: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    if (!isSensitiveHeader(name)) {
+      redacted[name] = value;
+      return;
+    }
+    const scheme = value.match(/^(Bearer|Basic|Token)\s+/i)?.[1];
+    redacted[name] = scheme ? `${scheme} ${REDACTED}` : REDACTED;
+  });
+  return redacted;
+};
+
+const truncate = (text: string): { text: string; truncated: boolean } =>
+  text.length > MAX_BODY_LENGTH
+    ? { text: text.slice(0, MAX_BODY_LENGTH), truncated: true }
+    : { text, truncated: false };
+
+const describeBody = (body: BodyInit | null | undefined): string | undefined => {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return truncate(body).text;
+  if (body instanceof URLSearchParams) return body.toString();
+  if (body instanceof FormData) return '[FormData]';
+  if (body instanceof Blob) return `[Blob ${body.size} bytes]`;
+  return '[binary body]';
+};
+
+const recordResponseBody = async (id: string, response: Response, startedAt: number) => {
+  try {
+    const text = await response.text();
+    const { text: responseBody, truncated } = truncate(text);
+    updateEntry(id, {
+      responseBody,
+      responseSize: text.length,
+      responseTruncated: truncated,
+      durationMs: Date.now() - startedAt,
+      pending: false,
+    });
+  } catch (err) {
+    updateEntry(id, {
+      error: err instanceof Error ? err.message : 'Failed to read response body',
+      durationMs: Date.now() - startedAt,
+      pending: false,
+    });
+  }
+};
+
+/**
+ * Fetch middleware that records requests into the network log
+ */
+export const networkLogMiddleware: FetchMiddleware = async (request, next) => {
+  if (IGNORED_PATHS.some((pattern) => pattern.test(request.url))) return next(request);
+
+  const startedAt = Date.now();
+  const id = `net-${startedAt}-${Math.random().toString(36).substr(2, 9)}`;
+  const entry: NetworkLogEntry = {
+    id,
+    startedAt,
+    method: (request.init.method || 'GET').toUpperCase(),
+    url: new URL(request.url, window.location.href).toString(),
+    requestHeaders: redactHeaders(getHeaderRecord(request.init.headers)),
+    requestBody: describeBody(request.init.body),
+    pending: true,
+  };
+  entries = [...entries, entry].slice(-MAX_ENTRIES);
+  notify();
+
+  try {
+    const response = await next(request);
+    updateEntry(id, {
+      status: response.status,
+      statusText: response.statusText,
+      responseHeaders: redactHeaders(getHeaderRecord(response.headers)),
+    });
+    // Read a clone so streaming responses are logged once they finish
+    recordResponseBody(id, response.clone(), startedAt);
+    return response;
+  } catch (err) {
+    updateEntry(id, {
+      error: err instanceof Error ? err.message : 'Request failed',
+      durationMs: Date.now() - startedAt,
+      pending: false,
+    });
+    throw err;
+  }
+};
+
+const toHarHeaders = (headers: Record<string, string> = {}) =>
+  Object.entries(headers).map(([name, value]) => ({ name, value }));
+
+/**
+ * Build a HAR 1.2 document from network log entries
+ * @param logEntries - Entries to include
+ * @returns HAR document
+ */
+export const buildHar = (logEntries: NetworkLogEntry[]) => ({
+  log: {
+    version: '1.2',
+    creator: { name: 'nova-agent-debugger', version: '0.1.0' },
+    pages: [],
+    entries: logEntries.map((entry) => {
+      const url = new URL(entry.url);
+      const requestContentType = Object.entries(entry.requestHeaders).find(
+        ([name]) => name.toLowerCase() === 'content-type'
+      )?.[1];
+      const responseContentType = Object.entries(entry.responseHeaders || {}).find(
+        ([name]) => name.toLowerCase() === 'content-type'
+      )?.[1];
+
+      return {
+        startedDateTime: new Date(entry.startedAt).toISOString(),
+        time: entry.durationMs ?? 0,
+        request: {
+          method: entry.method,
+          url: entry.url,
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: toHarHeaders(entry.requestHeaders),
+          queryString: Array.from(url.searchParams.entries()).map(([name, value]) => ({ name, value })),
+          headersSize: -1,
+          bodySize: entry.requestBody?.length ?? 0,
+          ...(entry.requestBody !== undefined && {
+            postData: { mimeType: requestContentType || 'text/plain', text: entry.requestBody },
+          }),
+        },
+        response: {
+          status: entry.status ?? 0,
+          statusText: entry.statusText || entry.error || '',
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: toHarHeaders(entry.responseHeaders),
+          content: {
+            size: entry.responseSize ?? 0,
+            mimeType: responseContentType || 'application/octet-stream',
+            ...(entry.responseBody !== undefined && { text: entry.responseBody }),
+          },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: entry.responseSize ?? -1,
+        },
+        cache: {},
+        timings: { send: 0, wait: entry.durationMs ?? 0, receive: 0 },
+        ...(entry.error && { _error: entry.error }),
+      };
+    }),
+  },
+});
@@ -0,0 +1,222 @@
+/**
+ * Prompt Library
+ *
+ * Combines the prompts an agent advertises in its agent-config with prompts
+ * saved locally (persisted in localStorage, shareable as JSON). Prompts are
+ * templates with `{{variable}}` placeholders that are filled in before sending.
+ */
+
+import { STORAGE_KEYS, type AgentConfig, type AgentConfigPrompt } from '@/types/agent';
+import type { SavedPrompt, LibraryPrompt, PromptVariable, PromptExport } from '@/types/prompt-library';
+
+const EXPORT_VERSION = 1;
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Create a new saved prompt id
+ * @returns Unique prompt id
+ */
+export const createPromptId = (): string => `prompt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Get the placeholder names of a template, in order of first use
+ * @param template - Text with {{variable}} placeholders
+ * @returns Unique variable names
+ */
+export const getTemplateVariables = (template: string): string[] => {
+  const names: string[] = [];
+  let match: RegExpExecArray | null;
+  VARIABLE_PATTERN.lastIndex = 0;
+  while ((match = VARIABLE_PATTERN.exec(template))) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+/**
+ * Fill the placeholders of a prompt
+ * @param prompt - Library prompt
+ * @param values - Value per variable name
+ * @returns Text to send; values of extra declared arguments are appended
+ */
+export const fillPromptTemplate = (prompt: LibraryPrompt, values: Record<string, string>): string => {
+  const text = prompt.template.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+  const extras = prompt.variables
+    .filter((variable) => variable.isExtra && values[variable.name]?.trim())
+    .map((variable) => `${variable.name}: ${values[variable.name]}`);
+  return extras.length > 0 ? `${text}\n\n${extras.join('\n')}` : text;
+};
+
+/**
+ * Get the variables of a prompt that still need a value
+ * @param prompt - Library prompt
+ * @param values - Value per variable name
+ * @returns Names of required variables left empty
+ */
+export const getMissingVariables = (prompt: LibraryPrompt, values: Record<string, string>): string[] =>
+  prompt.variables.filter((variable) => variable.required && !values[variable.name]?.trim()).map((v) => v.name);
+
+const toLibraryPrompt = (agentPrompt: AgentConfigPrompt, index: number): LibraryPrompt | null => {
+  if (!agentPrompt || typeof agentPrompt !== 'object') return null;
+  const template =
+    [agentPrompt.text, agentPrompt.prompt, agentPrompt.template, agentPrompt.content].find(
+      (value) => typeof value === 'string' && value.trim() !== ''
+    ) || agentPrompt.description || agentPrompt.name;
+  if (typeof template !== 'string' || !template) return null;
+
+  const declared = Array.isArray(agentPrompt.arguments) ? agentPrompt.arguments.filter((arg) => arg?.name) : [];
+  const templateNames = getTemplateVariables(template);
+  const variables: PromptVariable[] = [
+    ...templateNames.map((name) => {
+      const arg = declared.find((a) => a.name === name);
+      return { name, description: arg?.description, required: arg ? arg.required !== false : true };
+    }),
+    ...declared
+      .filter((arg) => !templateNames.includes(arg.name))
+      .map((arg) => ({ name: arg.name, description: arg.description, required: arg.required === true, isExtra: true })),
+  ];
+
+  return {
+    id: `agent-${index}-${agentPrompt.name}`,
+    source: 'agent',
+    name: agentPrompt.name || `Prompt ${index + 1}`,
+    description: agentPrompt.description !== template ? agentPrompt.description : undefined,
+    template,
+    tags: Array.isArray(agentPrompt.tags) ? agentPrompt.tags.filter((tag) => typeof tag === 'string') : [],
+    variables,
+  };
+};
+
+/**
+ * Build the library from the agent's prompts and the saved ones
+ * @param agentInfo - Connected agent config
+ * @param savedPrompts - Locally saved prompts
+ * @returns Agent prompts first, then saved prompts
+ */
+export const buildPromptLibrary = (agentInfo: AgentConfig | null, savedPrompts: SavedPrompt[]): LibraryPrompt[] => [
+  ...(agentInfo?.prompts || [])
+    .map(toLibraryPrompt)
+    .filter((prompt): prompt is LibraryPrompt => prompt !== null),
+  ...savedPrompts.map(
+    (saved): LibraryPrompt => ({
+      id: saved.id,
+      source: 'local',
+      name: saved.name,
+      description: saved.description,
+      template: saved.template,
+      tags: saved.tags,
+      variables: getTemplateVariables(saved.template).map((name) => ({ name, required: true })),
+    })
+  ),
+];
+
+/**
+ * Subtitle for the chat's empty state, derived from the connected agent
+ * @param agentInfo - Connected agent config
+ * @returns The agent's description, or a line naming the agent and its prompt count
+ */
+export const getPromptsSubtitle = (agentInfo: AgentConfig | null): string => {
+  if (!agentInfo) return 'Send a message to test the agent.';
+  if (agentInfo.description?.trim()) return agentInfo.description.trim();
+  const promptCount = agentInfo.prompts?.length ?? 0;
+  return promptCount > 0
+    ? `Chat with ${agentInfo.name}, or pick one of its ${promptCount} prompts from the prompt library.`
+    : `Chat with ${agentInfo.name}.`;
+};
+
+const normalizeSavedPrompt = (value: any): SavedPrompt | null => {
+  if (!value || typeof value !== 'object' || typeof value.name !== 'string' || typeof value.template !== 'string') {
+    return null;
+  }
+  const now = new Date().toISOString();
+  return {
+    id: typeof value.id === 'string' ? value.id : createPromptId(),
+    name: value.name.trim() || 'Untitled',
+    description: typeof value.description === 'string' && value.description.trim() ? value.description : undefined,
+    template: value.template,
+    tags: Array.isArray(value.tags) ? value.tags.filter((tag: any) => typeof tag === 'string' && tag.trim()) : [],
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : now,
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : now,
+  };
+};
+
+/**
+ * Split a comma separated tag input
+ * @param text - e.g. "smoke, pricing"
+ * @returns Unique, trimmed tags
+ */
+export const parseTags = (text: string): string[] =>
+  text
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag, index, tags) => tag && tags.indexOf(tag) === index);
+
+/**
+ * Load saved prompts from localStorage
+ * @returns Saved prompts (empty when none or unreadable)
+ */
+export const loadSavedPrompts = (): SavedPrompt[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEYS.SAVED_PROMPTS) || '[]');
+    return Array.isArray(parsed)
+      ? parsed.map(normalizeSavedPrompt).filter((p): p is SavedPrompt => p !== null)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Persist saved prompts to localStorage
+ * @param prompts - Prompts to save
+ */
+export const saveSavedPrompts = (prompts: SavedPrompt[]): void => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEYS.SAVED_PROMPTS, JSON.stringify(prompts));
+};
+
+/**
+ * Serialize saved prompts for sharing with the team
+ * @param prompts - Prompts to export
+ * @returns JSON string
+ */
+export const exportSavedPrompts = (prompts: SavedPrompt[]): string => {
+  const data: PromptExport = {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    prompts: prompts.map(({ id, ...rest }) => rest),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * Merge an exported prompt list into the saved prompts, replacing prompts with the same name
+ * @param text - Contents of an export file
+ * @param existing - Current saved prompts
+ * @returns Merged prompts and the number imported
+ */
+export const importSavedPrompts = (
+  text: string,
+  existing: SavedPrompt[]
+): { prompts: SavedPrompt[]; imported: number } => {
+  const parsed = JSON.parse(text);
+  const incoming = Array.isArray(parsed) ? parsed : parsed?.prompts;
+  if (!Array.isArray(incoming)) {
+    throw new Error('File does not contain a prompt list');
+  }
+
+  const prompts = [...existing];
+  let imported = 0;
+  incoming.forEach((raw: any) => {
+    const prompt = normalizeSavedPrompt({ ...raw, id: undefined });
+    if (!prompt) return;
+    imported++;
+    const index = prompts.findIndex((p) => p.name === prompt.name);
+    if (index === -1) prompts.push(prompt);
+    else prompts[index] = { ...prompt, id: prompts[index].id };
+  });
+
+  return { prompts, imported };
+};
@@ -0,0 +1,200 @@
+/**
+ * Stream Capture
+ *
+ * Fetch middleware that tees every `/api/chat/stream` response and records
+ * its frames as a StreamTurn, without changing what `useChatStream` reads.
+ * Turns are kept in a small module-level store that components subscribe to.
+ */
+
+import type { StreamTurn, InspectableMessage } from '@/types/stream';
+import type { FetchMiddleware } from '@/utils/fetch-interceptor';
+import { createStreamFrameParser, getFrameMessageId, type ParsedStreamFrame } from '@/utils/stream-parser';
+
+const STREAM_PATH = /\/api\/chat\/stream(\?|$)/;
+const MAX_TURNS = 100;
+const NOTIFY_INTERVAL_MS = 100;
+
+let turns: StreamTurn[] = [];
+let snapshot: StreamTurn[] = [];
+const listeners = new Set<() => void>();
+let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Coalesce updates so a fast stream doesn't re-render on every frame
+const scheduleNotify = () => {
+  if (notifyTimer) return;
+  notifyTimer = setTimeout(() => {
+    notifyTimer = null;
+    snapshot = turns.map((turn) => ({ ...turn, frames: turn.frames.slice() }));
+    listeners.forEach((listener) => listener());
+  }, NOTIFY_INTERVAL_MS);
+};
+
+/**
+ * Subscribe to captured turn updates
+ * @param listener - Called after turns change
+ * @returns Unsubscribe function
+ */
+export const subscribeStreamTurns = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Get the current immutable snapshot of captured turns
+ * @returns Captured turns, oldest first
+ */
+export const getStreamTurns = (): StreamTurn[] => snapshot;
+
+/**
+ * Discard all captured turns
+ */
+export const clearStreamTurns = (): void => {
+  turns = [];
+  scheduleNotify();
+};
+
+const readChatId = (body: any): string | undefined =>
+  body && typeof body === 'object' ? body.chatId || body.chat_id || body.id || undefined : undefined;
+
+const parseRequestBody = (body: BodyInit | null | undefined): any => {
+  if (typeof body !== 'string') return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+const recordFrames = (turn: StreamTurn, parsed: ParsedStreamFrame[]) => {
+  const now = Date.now();
+  parsed.forEach((frame) => {
+    turn.frames.push({
+      ...frame,
+      index: turn.frames.length,
+      timestamp: now,
+      offsetMs: now - turn.startedAt,
+    });
+    if (!turn.messageId) {
+      turn.messageId = getFrameMessageId(frame);
+    }
+  });
+  if (parsed.length > 0) scheduleNotify();
+};
+
+const consumeStream = async (turn: StreamTurn, body: ReadableStream<Uint8Array>) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createStreamFrameParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      recordFrames(turn, parser.push(decoder.decode(value, { stream: true })));
+    }
+    recordFrames(turn, parser.push(decoder.decode()));
+    recordFrames(turn, parser.flush());
+    turn.status = turn.status === 'error' ? 'error' : 'complete';
+  } catch (err) {
+    recordFrames(turn, parser.flush());
+    const isAbort = err instanceof DOMException && err.name === 'AbortError';
+    turn.status = isAbort ? 'aborted' : 'error';
+    turn.error = err instanceof Error ? err.message : 'Stream read failed';
+  } finally {
+    turn.completedAt = Date.now();
+    scheduleNotify();
+  }
+};
+
+/**
+ * Check whether a request URL is a chat stream request
+ * @param url - Request URL
+ * @returns True for `/api/chat/stream` requests
+ */
+export const isChatStreamUrl = (url: string): boolean => STREAM_PATH.test(url);
+
+/**
+ * Fetch middleware that records chat stream traffic
+ */
+export const streamCaptureMiddleware: FetchMiddleware = async (request, next) => {
+  if (!isChatStreamUrl(request.url)) return next(request);
+
+  const requestBody = parseRequestBody(request.init.body);
+  const turn: StreamTurn = {
+    id: `turn-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    url: request.url,
+    chatId: readChatId(requestBody),
+    requestBody,
+    status: 'streaming',
+    startedAt: Date.now(),
+    frames: [],
+  };
+  turns = [...turns, turn].slice(-MAX_TURNS);
+  scheduleNotify();
+
+  let response: Response;
+  try {
+    response = await next(request);
+  } catch (err) {
+    turn.status = 'error';
+    turn.error = err instanceof Error ? err.message : 'Request failed';
+    turn.completedAt = Date.now();
+    scheduleNotify();
+    throw err;
+  }
+
+  turn.httpStatus = response.status;
+  if (!response.ok) {
+    turn.status = 'error';
+    turn.error = `HTTP ${response.status}`;
+  }
+
+  if (!response.body) {
+    turn.completedAt = Date.now();
+    turn.status = response.ok ? 'complete' : 'error';
+    scheduleNotify();
+    return response;
+  }
+
+  const [appStream, captureStream] = response.body.tee();
+  consumeStream(turn, captureStream);
+
+  return new Response(appStream, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+};
+
+/**
+ * Pin captured turns to the assistant messages they produced. Turns that
+ * carry a server message id are matched by id; the rest are aligned with
+ * the remaining assistant messages from the end of the conversation.
+ * @param streamTurns - Captured turns for the current chat, oldest first
+ * @param messages - Rendered messages
+ * @returns Map of assistant message id to turn
+ */
+export const pinTurnsToMessages = (
+  streamTurns: StreamTurn[],
+  messages: InspectableMessage[]
+): Record<string, StreamTurn> => {
+  const pinned: Record<string, StreamTurn> = {};
+  const assistantIds = messages.filter((m) => m.role === 'assistant').map((m) => m.id);
+
+  const unmatchedTurns = streamTurns.filter((turn) => {
+    if (turn.messageId && assistantIds.includes(turn.messageId)) {
+      pinned[turn.messageId] = turn;
+      return false;
+    }
+    return true;
+  });
+  const unmatchedIds = assistantIds.filter((id) => !pinned[id]);
+
+  for (let i = 1; i <= Math.min(unmatchedTurns.length, unmatchedIds.length); i++) {
+    pinned[unmatchedIds[unmatchedIds.length - i]] = unmatchedTurns[unmatchedTurns.length - i];
+  }
+
+  return pinned;
+};
@@ -0,0 +1,155 @@
+/**
+ * Stream Metrics
+ *
+ * Derives latency and throughput numbers from captured stream turns:
+ * time-to-first-token, total duration, chunk count, approximate tokens/sec
+ * and per-tool step durations.
+ */
+
+import type { StreamTurn, TurnMetrics, SessionMetrics, ToolStepTiming } from '@/types/stream';
+import type { ComparableMessage } from '@/types/compare';
+import { getFrameTextDelta, getFrameToolCallId } from '@/utils/stream-parser';
+import { buildTurnWaterfall } from '@/utils/tool-timeline';
+
+// Rough heuristic for English text; good enough for comparing runs
+const CHARS_PER_TOKEN = 4;
+
+const TOOL_END_TYPES = ['tool-result', 'tool-output-available', 'tool-output-error', 'tool-error'];
+
+const average = (values: number[]): number | undefined =>
+  values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : undefined;
+
+const percentile = (values: number[], p: number): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+};
+
+/**
+ * Compute metrics for a single captured turn
+ * @param turn - Captured stream turn
+ * @returns Turn metrics (duration fields are undefined while streaming)
+ */
+export const computeTurnMetrics = (turn: StreamTurn): TurnMetrics => {
+  let timeToFirstTokenMs: number | undefined;
+  let textLength = 0;
+  const tools = new Map<string, ToolStepTiming>();
+
+  turn.frames.forEach((frame) => {
+    const delta = getFrameTextDelta(frame);
+    if (delta) {
+      if (timeToFirstTokenMs === undefined) timeToFirstTokenMs = frame.offsetMs;
+      textLength += delta.length;
+    }
+
+    const toolCallId = getFrameToolCallId(frame);
+    if (!toolCallId) return;
+
+    let timing = tools.get(toolCallId);
+    if (!timing) {
+      timing = { toolCallId, startOffsetMs: frame.offsetMs, status: 'running' };
+      tools.set(toolCallId, timing);
+    }
+    timing.toolName = timing.toolName || frame.payload?.toolName || frame.payload?.tool_name;
+
+    if (TOOL_END_TYPES.includes(frame.type)) {
+      timing.endOffsetMs = frame.offsetMs;
+      timing.durationMs = frame.offsetMs - timing.startOffsetMs;
+      timing.status = frame.type.includes('error') || frame.payload?.isError ? 'error' : 'complete';
+    }
+  });
+
+  const totalDurationMs = turn.completedAt ? turn.completedAt - turn.startedAt : undefined;
+  const approxTokens = Math.round(textLength / CHARS_PER_TOKEN);
+  const generationMs =
+    totalDurationMs !== undefined && timeToFirstTokenMs !== undefined ? totalDurationMs - timeToFirstTokenMs : undefined;
+
+  return {
+    timeToFirstTokenMs,
+    totalDurationMs,
+    chunkCount: turn.frames.length,
+    textLength,
+    approxTokens,
+    tokensPerSecond:
+      generationMs && generationMs > 0 ? Math.round((approxTokens / generationMs) * 1000 * 10) / 10 : undefined,
+    toolSteps: Array.from(tools.values()),
+  };
+};
+
+/**
+ * Latency and throughput of one assistant message, with tool durations
+ * taken from the agent's step timestamps when it sent them
+ * @param message - Rendered assistant message
+ * @param turn - Captured stream turn that produced it
+ * @returns Stream metrics of the turn with per-tool timings from its waterfall
+ */
+export const computeMessageMetrics = (message: ComparableMessage, turn: StreamTurn): TurnMetrics => {
+  const { rows } = buildTurnWaterfall(message, turn);
+  return {
+    ...computeTurnMetrics(turn),
+    toolSteps: rows.map((row) => ({
+      toolCallId: row.toolCallId,
+      toolName: row.toolName,
+      startOffsetMs: row.startMs ?? 0,
+      endOffsetMs: row.endMs,
+      durationMs: row.durationMs,
+      status: row.status === 'error' || row.status === 'running' ? row.status : 'complete',
+    })),
+  };
+};
+
+/**
+ * Aggregate metrics over the completed turns of a session
+ * @param turns - Captured stream turns
+ * @returns Session summary
+ */
+export const computeSessionMetrics = (turns: StreamTurn[]): SessionMetrics => {
+  const metrics = turns.filter((turn) => turn.status === 'complete').map(computeTurnMetrics);
+  const ttfts = metrics.map((m) => m.timeToFirstTokenMs).filter((v): v is number => v !== undefined);
+  const durations = metrics.map((m) => m.totalDurationMs).filter((v): v is number => v !== undefined);
+  const throughputs = metrics.map((m) => m.tokensPerSecond).filter((v): v is number => v !== undefined);
+  const toolSteps = metrics.flatMap((m) => m.toolSteps);
+
+  return {
+    turnCount: metrics.length,
+    avgTimeToFirstTokenMs: average(ttfts),
+    p95TimeToFirstTokenMs: percentile(ttfts, 0.95),
+    avgDurationMs: average(durations),
+    avgTokensPerSecond: throughputs.length > 0
+      ? Math.round((throughputs.reduce((sum, v) => sum + v, 0) / throughputs.length) * 10) / 10
+      : undefined,
+    totalToolCalls: toolSteps.length,
+    slowestTool: toolSteps.reduce<ToolStepTiming | undefined>(
+      (slowest, step) => ((step.durationMs ?? 0) > (slowest?.durationMs ?? -1) ? step : slowest),
+      undefined
+    ),
+  };
+};
+
+/**
+ * Format a millisecond value for compact display
+ * @param ms - Milliseconds
+ * @returns e.g. "850ms" or "2.4s"
+ */
+export const formatMs = (ms?: number): string => {
+  if (ms === undefined) return '—';
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+/**
+ * Format turn metrics as one markdown line, for showing under a chat message
+ * @param metrics - Turn metrics
+ * @returns e.g. "*TTFT 320ms · 2.4s · 45 chunks · ~38 tok/s · `search_web` 1.2s*"
+ */
+export const formatTurnMetricsLine = (metrics: TurnMetrics): string => {
+  const parts = [
+    `TTFT ${formatMs(metrics.timeToFirstTokenMs)}`,
+    formatMs(metrics.totalDurationMs),
+    `${metrics.chunkCount} chunks`,
+    ...(metrics.tokensPerSecond !== undefined ? [`~${metrics.tokensPerSecond} tok/s`] : []),
+    ...metrics.toolSteps.map(
+      (step) => `\`${step.toolName || step.toolCallId}\` ${step.status === 'running' ? '…' : formatMs(step.durationMs)}`
+    ),
+  ];
+  return `*${parts.join(' · ')}*`;
+};
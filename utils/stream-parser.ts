@@ -0,0 +1,167 @@
+/**
+ * Chat Stream Parser
+ *
+ * Incrementally splits raw `/api/chat/stream` bytes into frames. Agents
+ * speak different wire formats depending on their SDK version, so the
+ * parser accepts server-sent events, the AI SDK data stream protocol
+ * (`0:"text"`, `9:{...}`) and newline-delimited JSON, falling back to raw
+ * text lines for anything else.
+ */
+
+import type { StreamFrame, StreamProtocol } from '@/types/stream';
+
+// AI SDK data stream protocol type codes
+const DATA_STREAM_TYPES: Record<string, string> = {
+  '0': 'text',
+  '2': 'data',
+  '3': 'error',
+  '8': 'message-annotations',
+  '9': 'tool-call',
+  'a': 'tool-result',
+  'b': 'tool-call-streaming-start',
+  'c': 'tool-call-delta',
+  'd': 'finish-message',
+  'e': 'finish-step',
+  'f': 'start-step',
+  'g': 'reasoning',
+  'h': 'source',
+  'i': 'redacted-reasoning',
+  'j': 'reasoning-signature',
+  'k': 'file',
+};
+
+const DATA_STREAM_LINE = /^([0-9a-k]):(.*)$/;
+
+export type ParsedStreamFrame = Omit<StreamFrame, 'index' | 'timestamp' | 'offsetMs'>;
+
+export interface StreamFrameParser {
+  push: (chunk: string) => ParsedStreamFrame[];
+  flush: () => ParsedStreamFrame[];
+}
+
+const parseJson = (text: string): { payload?: any; parseError?: string } => {
+  try {
+    return { payload: JSON.parse(text) };
+  } catch (err) {
+    return { parseError: err instanceof Error ? err.message : 'Invalid JSON' };
+  }
+};
+
+const buildFrame = (protocol: StreamProtocol, raw: string, data: string, eventName?: string): ParsedStreamFrame => {
+  if (data === '[DONE]') {
+    return { protocol, type: 'done', raw };
+  }
+  const { payload, parseError } = parseJson(data);
+  const type =
+    (payload && typeof payload === 'object' && typeof payload.type === 'string' && payload.type) ||
+    eventName ||
+    (parseError ? 'text' : 'message');
+  return { protocol, type, raw, payload: parseError ? data : payload, parseError };
+};
+
+/**
+ * Create an incremental parser for a single stream response
+ * @returns Parser that accepts decoded text chunks and returns completed frames
+ */
+export const createStreamFrameParser = (): StreamFrameParser => {
+  let buffer = '';
+  let sseLines: string[] = [];
+  let sseEvent: string | undefined;
+  let sseData: string[] = [];
+
+  const flushSseEvent = (): ParsedStreamFrame[] => {
+    if (sseLines.length === 0) return [];
+    const raw = sseLines.join('\n');
+    const frames = sseData.length > 0 || sseEvent
+      ? [buildFrame('sse', raw, sseData.join('\n'), sseEvent)]
+      : [];
+    sseLines = [];
+    sseEvent = undefined;
+    sseData = [];
+    return frames;
+  };
+
+  const parseLine = (line: string): ParsedStreamFrame[] => {
+    // Blank line terminates an SSE event
+    if (line.trim() === '') return flushSseEvent();
+
+    // SSE field lines (including ":" comments / keep-alives)
+    const sseField = line.match(/^(data|event|id|retry)?:\s?(.*)$/);
+    if (sseField && (sseField[1] || line.startsWith(':'))) {
+      sseLines.push(line);
+      if (sseField[1] === 'data') sseData.push(sseField[2]);
+      if (sseField[1] === 'event') sseEvent = sseField[2];
+      return [];
+    }
+
+    const frames = flushSseEvent();
+    const dataStreamMatch = line.match(DATA_STREAM_LINE);
+    if (dataStreamMatch) {
+      const { payload, parseError } = parseJson(dataStreamMatch[2]);
+      frames.push({
+        protocol: 'data-stream',
+        type: DATA_STREAM_TYPES[dataStreamMatch[1]],
+        raw: line,
+        payload: parseError ? dataStreamMatch[2] : payload,
+        parseError,
+      });
+    } else if (line.trimStart().startsWith('{')) {
+      frames.push(buildFrame('ndjson', line, line));
+    } else {
+      frames.push({ protocol: 'text', type: 'text', raw: line, payload: line });
+    }
+    return frames;
+  };
+
+  return {
+    push: (chunk) => {
+      buffer += chunk;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      return lines.flatMap(parseLine);
+    },
+    flush: () => {
+      const frames = buffer ? parseLine(buffer) : [];
+      buffer = '';
+      return [...frames, ...flushSseEvent()];
+    },
+  };
+};
+
+/**
+ * Find the server-assigned message id in a frame, if it carries one
+ * @param frame - Parsed frame
+ * @returns The message id or undefined
+ */
+export const getFrameMessageId = (frame: Pick<StreamFrame, 'payload'>): string | undefined => {
+  const payload = frame.payload;
+  if (!payload || typeof payload !== 'object') return undefined;
+  return payload.messageId || payload.message_id || undefined;
+};
+
+/**
+ * Get the assistant text carried by a frame, across the supported protocols
+ * @param frame - Parsed frame
+ * @returns Text delta, or an empty string for non-text frames
+ */
+export const getFrameTextDelta = (frame: Pick<StreamFrame, 'type' | 'payload' | 'protocol'>): string => {
+  const payload = frame.payload;
+  if (frame.protocol === 'data-stream') {
+    return frame.type === 'text' && typeof payload === 'string' ? payload : '';
+  }
+  if (frame.protocol === 'text' || !payload || typeof payload !== 'object') return '';
+  if (frame.type === 'text-delta') return payload.delta ?? payload.textDelta ?? '';
+  if (frame.type === 'text' && typeof payload.text === 'string') return payload.text;
+  return payload.choices?.[0]?.delta?.content ?? '';
+};
+
+/**
+ * Get the tool call id a frame refers to, if any
+ * @param frame - Parsed frame
+ * @returns The tool call id or undefined
+ */
+export const getFrameToolCallId = (frame: Pick<StreamFrame, 'payload'>): string | undefined => {
+  const payload = frame.payload;
+  if (!payload || typeof payload !== 'object') return undefined;
+  return payload.toolCallId || payload.tool_call_id || undefined;
+};
@@ -0,0 +1,241 @@
+/**
+ * Regression Test Cases
+ *
+ * Records a conversation as a named test case (its prompts, the responses as
+ * a baseline, and assertions), persists cases in localStorage, and evaluates
+ * a replayed run against the assertions and the baseline.
+ */
+
+import { STORAGE_KEYS } from '@/types/agent';
+import type { ComparableMessage } from '@/types/compare';
+import type { TurnMetrics } from '@/types/stream';
+import type {
+  TestCase,
+  TestAssertion,
+  TestAssertionResult,
+  RecordedResponse,
+} from '@/types/test-case';
+import {
+  getTranscriptTurns,
+  getToolStepName,
+  getToolStepArgs,
+  getKnowledgeSourceKey,
+  compareResponses,
+} from '@/utils/agent-compare';
+import { formatMs } from '@/utils/stream-metrics';
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Create a new assertion id
+ * @returns Unique assertion id
+ */
+export const createAssertionId = (): string => createId('assert');
+
+/**
+ * Load saved test cases from localStorage
+ * @returns Saved test cases (empty when none or unreadable)
+ */
+export const loadTestCases = (): TestCase[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEYS.TEST_CASES) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Persist test cases to localStorage
+ * @param testCases - Test cases to save
+ */
+export const saveTestCases = (testCases: TestCase[]): void => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEYS.TEST_CASES, JSON.stringify(testCases));
+};
+
+/**
+ * Get the prompts and recorded responses of a conversation
+ * @param messages - Rendered messages in order
+ * @returns Prompts and their baseline responses, by turn
+ */
+export const getRecordedTurns = (
+  messages: ComparableMessage[]
+): { prompts: string[]; baseline: RecordedResponse[] } => {
+  const turns = getTranscriptTurns(messages);
+  return {
+    prompts: turns.map((turn) => turn.prompt),
+    baseline: turns.map((turn) => ({
+      content: turn.response?.content || '',
+      toolSteps: turn.response?.toolSteps,
+      knowledgeSources: turn.response?.knowledgeSources,
+    })),
+  };
+};
+
+/**
+ * Create a test case from a conversation
+ * @param name - Test case name
+ * @param messages - Rendered messages in order
+ * @param assertions - Assertions to check on replay
+ * @param agentName - Name of the agent the conversation was recorded against
+ * @returns New test case
+ */
+export const recordTestCase = (
+  name: string,
+  messages: ComparableMessage[],
+  assertions: TestAssertion[],
+  agentName?: string
+): TestCase => ({
+  id: createId('case'),
+  name,
+  createdAt: new Date().toISOString(),
+  agentName,
+  ...getRecordedTurns(messages),
+  assertions,
+});
+
+/**
+ * Suggest assertions from the recorded baseline: every tool call with its
+ * args and every cited knowledge source
+ * @param baseline - Recorded responses
+ * @returns Suggested assertions
+ */
+export const suggestAssertions = (baseline: RecordedResponse[]): TestAssertion[] =>
+  baseline.flatMap((response, turnIndex) => [
+    ...(response.toolSteps || []).map(
+      (step): TestAssertion => ({
+        id: createAssertionId(),
+        turnIndex,
+        type: 'tool-called',
+        toolName: getToolStepName(step),
+        args: getToolStepArgs(step),
+      })
+    ),
+    ...(response.knowledgeSources || []).map(
+      (source): TestAssertion => ({
+        id: createAssertionId(),
+        turnIndex,
+        type: 'source-cited',
+        source: getKnowledgeSourceKey(source),
+      })
+    ),
+  ]);
+
+/**
+ * Human-readable summary of an assertion
+ * @param assertion - Assertion to describe
+ * @returns Summary, e.g. `Turn 1: calls search_docs`
+ */
+export const describeAssertion = (assertion: TestAssertion): string => {
+  const turn = `Turn ${assertion.turnIndex + 1}`;
+  switch (assertion.type) {
+    case 'text-contains':
+      return `${turn}: text contains "${assertion.value}"`;
+    case 'text-matches':
+      return `${turn}: text matches /${assertion.pattern}/${assertion.flags || ''}`;
+    case 'tool-called':
+      return `${turn}: calls ${assertion.toolName}${assertion.args ? ` with ${JSON.stringify(assertion.args)}` : ''}`;
+    case 'source-cited':
+      return `${turn}: cites ${assertion.source}`;
+    case 'max-latency':
+      return `${turn}: ${assertion.metric === 'ttft' ? 'time to first token' : 'total time'} ≤ ${formatMs(assertion.maxMs)}`;
+  }
+};
+
+// Every key in `expected` must be present (deeply) in `actual`
+const isPartialMatch = (expected: any, actual: any): boolean => {
+  if (expected === null || typeof expected !== 'object') return expected === actual;
+  if (actual === null || typeof actual !== 'object') return false;
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && expected.length === actual.length && expected.every((v, i) => isPartialMatch(v, actual[i]));
+  }
+  return Object.keys(expected).every((key) => isPartialMatch(expected[key], actual[key]));
+};
+
+/**
+ * Evaluate one assertion against a replayed response
+ * @param assertion - Assertion to check
+ * @param response - The response for the assertion's turn, if any
+ * @param metrics - Latency metrics for that response, if captured
+ * @returns Pass/fail with an explanation
+ */
+export const evaluateAssertion = (
+  assertion: TestAssertion,
+  response?: ComparableMessage,
+  metrics?: TurnMetrics
+): TestAssertionResult => {
+  const result = (passed: boolean, message: string): TestAssertionResult => ({
+    assertionId: assertion.id,
+    passed,
+    message,
+  });
+
+  if (!response) return result(false, `No response for turn ${assertion.turnIndex + 1}`);
+
+  switch (assertion.type) {
+    case 'text-contains': {
+      const passed = assertion.caseSensitive
+        ? response.content.includes(assertion.value)
+        : response.content.toLowerCase().includes(assertion.value.toLowerCase());
+      return result(passed, passed ? 'Text found' : `Response does not contain "${assertion.value}"`);
+    }
+    case 'text-matches': {
+      try {
+        const passed = new RegExp(assertion.pattern, assertion.flags).test(response.content);
+        return result(passed, passed ? 'Pattern matched' : 'Pattern did not match');
+      } catch (err) {
+        return result(false, `Invalid pattern: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    }
+    case 'tool-called': {
+      const calls = (response.toolSteps || []).filter((step) => getToolStepName(step) === assertion.toolName);
+      if (calls.length === 0) {
+        const called = (response.toolSteps || []).map(getToolStepName);
+        return result(false, `${assertion.toolName} was not called${called.length > 0 ? ` (called: ${called.join(', ')})` : ''}`);
+      }
+      if (!assertion.args) return result(true, `${assertion.toolName} called`);
+      const match = calls.find((step) => isPartialMatch(assertion.args, getToolStepArgs(step)));
+      return match
+        ? result(true, `${assertion.toolName} called with expected args`)
+        : result(false, `${assertion.toolName} called with ${JSON.stringify(getToolStepArgs(calls[0]))}`);
+    }
+    case 'source-cited': {
+      const cited = (response.knowledgeSources || []).map(getKnowledgeSourceKey);
+      const passed = cited.includes(assertion.source);
+      return result(passed, passed ? 'Source cited' : `Not cited${cited.length > 0 ? ` (cited: ${cited.join(', ')})` : ''}`);
+    }
+    case 'max-latency': {
+      const value = assertion.metric === 'ttft' ? metrics?.timeToFirstTokenMs : metrics?.totalDurationMs;
+      if (value === undefined) return result(false, 'Latency was not captured');
+      const passed = value <= assertion.maxMs;
+      return result(passed, `${formatMs(value)} (limit ${formatMs(assertion.maxMs)})`);
+    }
+  }
+};
+
+/**
+ * Evaluate a replayed run of a test case
+ * @param testCase - The test case
+ * @param responses - Replayed responses by turn
+ * @param metrics - Latency metrics by turn
+ * @returns Assertion results and per-turn comparison against the baseline
+ */
+export const evaluateTestCase = (
+  testCase: TestCase,
+  responses: (ComparableMessage | undefined)[],
+  metrics: (TurnMetrics | undefined)[]
+) => ({
+  assertionResults: testCase.assertions.map((assertion) =>
+    evaluateAssertion(assertion, responses[assertion.turnIndex], metrics[assertion.turnIndex])
+  ),
+  comparisons: testCase.prompts.map((prompt, index) =>
+    compareResponses(
+      index,
+      prompt,
+      { id: `baseline-${index}`, role: 'assistant', ...testCase.baseline[index] },
+      responses[index]
+    )
+  ),
+});
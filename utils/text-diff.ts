@@ -0,0 +1,85 @@
+/**
+ * Text Diff
+ *
+ * Word-level diff (LCS over whitespace-separated tokens) used to compare
+ * two agent responses to the same prompt.
+ */
+
+import type { TextDiffSegment, TextDiffSegmentType } from '@/types/compare';
+
+// Above this many LCS cells the diff falls back to whole-text replacement
+const MAX_DIFF_CELLS = 2_000_000;
+
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter((token) => token.length > 0);
+
+const pushSegment = (segments: TextDiffSegment[], type: TextDiffSegmentType, text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/**
+ * Diff two texts word by word
+ * @param before - Original text ("removed" segments come from here)
+ * @param after - New text ("added" segments come from here)
+ * @returns Ordered diff segments with adjacent segments of the same type merged
+ */
+export const diffWords = (before: string, after: string): TextDiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: TextDiffSegment[] = [];
+
+  if (before === after) {
+    return before ? [{ type: 'equal', text: before }] : [];
+  }
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) segments.push({ type: 'removed', text: before });
+    if (after) segments.push({ type: 'added', text: after });
+    return segments;
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, 'removed', a[i++]);
+    } else {
+      pushSegment(segments, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'removed', a[i++]);
+  while (j < b.length) pushSegment(segments, 'added', b[j++]);
+
+  return segments;
+};
+
+/**
+ * Share of non-whitespace words the two sides of a diff have in common
+ * @param segments - Diff segments from diffWords
+ * @returns Similarity between 0 and 1 (1 when both texts are empty)
+ */
+export const getDiffSimilarity = (segments: TextDiffSegment[]): number => {
+  const count = (type: TextDiffSegmentType) =>
+    segments
+      .filter((s) => s.type === type)
+      .reduce((sum, s) => sum + s.text.split(/\s+/).filter(Boolean).length, 0);
+
+  const equal = count('equal');
+  const total = Math.max(equal + count('removed'), equal + count('added'));
+  return total === 0 ? 1 : equal / total;
+};
@@ -0,0 +1,57 @@
+/**
+ * Tool Routing
+ *
+ * Builds user messages that force or disable specific tools for one turn.
+ * The overrides travel in the message's annotation as `forced_tools`
+ * (name and arguments) and `disabled_tools` (names); useChatStream sends
+ * the full ChatMessage, so agents can read them from the request.
+ */
+
+import type { ChatMessage } from '@newhomestar/chat-ui';
+import type { ForcedToolCall, ToolRoutingAnnotation } from '@/types/agent';
+
+/**
+ * Build a user message carrying tool routing overrides
+ * @param content - Message text
+ * @param forcedTools - Tools the agent must call, with arguments
+ * @param disabledTools - Names of tools the agent must not call
+ * @returns ChatMessage ready for sendMessage
+ */
+export const buildToolRoutingMessage = (
+  content: string,
+  forcedTools: ForcedToolCall[],
+  disabledTools: string[]
+): ChatMessage => {
+  const annotation: ToolRoutingAnnotation = {
+    ...(forcedTools.length > 0 && { forced_tools: forcedTools }),
+    ...(disabledTools.length > 0 && { disabled_tools: disabledTools }),
+  };
+
+  return {
+    id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    role: 'user',
+    content,
+    createdAt: new Date().toISOString(),
+    timestamp: new Date(),
+    annotation,
+  };
+};
+
+/**
+ * Read the tool routing overrides of a message
+ * @param message - Message from a request body or the chat
+ * @returns Forced and disabled tools (empty when none)
+ */
+export const getToolRouting = (message: any): Required<ToolRoutingAnnotation> => {
+  const annotation = message?.annotation ?? message?.metadata ?? {};
+  const forced: any[] = Array.isArray(annotation.forced_tools) ? annotation.forced_tools : [];
+  const disabled: any[] = Array.isArray(annotation.disabled_tools) ? annotation.disabled_tools : [];
+
+  return {
+    // Also accept bare tool names for forced tools
+    forced_tools: forced
+      .map((tool) => (typeof tool === 'string' ? { name: tool, args: {} } : { name: tool?.name, args: tool?.args ?? tool?.arguments ?? {} }))
+      .filter((tool): tool is ForcedToolCall => typeof tool.name === 'string' && tool.name !== ''),
+    disabled_tools: disabled.filter((name): name is string => typeof name === 'string'),
+  };
+};
@@ -0,0 +1,299 @@
+/**
+ * Tool Timeline
+ *
+ * Lays out the tool calls of each assistant turn as a waterfall: one row
+ * per toolCallId with start/end, duration, how many other calls overlapped
+ * it, status, arguments and output size. Times come from the agent's own
+ * step timestamps when every step has one, otherwise from the captured
+ * stream frames. Also finds calls that ran one after another without
+ * using each other's output, i.e. could have run in parallel.
+ */
+
+import type { StreamTurn } from '@/types/stream';
+import type { ComparableMessage } from '@/types/compare';
+import type {
+  ToolWaterfallRow,
+  ToolWaterfallTurn,
+  ToolWaterfallSummary,
+  ToolAggregate,
+  ParallelHint,
+  ToolRowStatus,
+} from '@/types/tool-timeline';
+import { computeTurnMetrics } from '@/utils/stream-metrics';
+import { pinTurnsToMessages } from '@/utils/stream-capture';
+import { getToolStepName, getToolStepArgs, getToolStepResult } from '@/utils/agent-compare';
+
+const START_KEYS = ['startedAt', 'started_at', 'startTime', 'start_time', 'startedAtMs'];
+const END_KEYS = ['completedAt', 'completed_at', 'finishedAt', 'finished_at', 'endedAt', 'ended_at', 'endTime', 'end_time'];
+const DURATION_KEYS = ['durationMs', 'duration_ms', 'duration'];
+
+// Output values shorter than this are too generic to prove a data dependency
+const MIN_SHARED_STRING_LENGTH = 4;
+const MAX_COLLECTED_VALUES = 2000;
+
+const readTime = (step: any, keys: string[]): number | undefined => {
+  for (const key of keys) {
+    const value = step?.[key];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string') {
+      const time = new Date(value).getTime();
+      if (!Number.isNaN(time)) return time;
+    }
+  }
+  return undefined;
+};
+
+const readDuration = (step: any): number | undefined => {
+  for (const key of DURATION_KEYS) {
+    if (typeof step?.[key] === 'number') return step[key];
+  }
+  return undefined;
+};
+
+const getStepError = (step: any): string | undefined => {
+  const result = getToolStepResult(step);
+  const error = step?.error ?? step?.errorText ?? (result && typeof result === 'object' ? result.error : undefined);
+  if (error) return typeof error === 'string' ? error : JSON.stringify(error);
+  if (step?.isError || step?.status === 'error' || step?.status === 'failed') return 'Tool call failed';
+  return undefined;
+};
+
+const getStepStatus = (step: any): ToolRowStatus => {
+  if (getStepError(step)) return 'error';
+  if (step?.status === 'running' || step?.state === 'input-available') return 'running';
+  if (getToolStepResult(step) !== undefined || step?.status === 'complete') return 'complete';
+  return 'unknown';
+};
+
+/**
+ * Size of a value once serialized, in bytes
+ * @param value - Tool arguments or output
+ * @returns Byte length, or undefined when there is no value
+ */
+export const getSerializedSize = (value: any): number | undefined => {
+  if (value === undefined) return undefined;
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  return new TextEncoder().encode(text).length;
+};
+
+// Primitive values in a JSON value, as strings, for spotting data passed between calls
+const collectValues = (value: any, out: Set<string>) => {
+  if (out.size >= MAX_COLLECTED_VALUES || value === null || value === undefined) return;
+  if (typeof value === 'string') {
+    if (value.trim().length >= MIN_SHARED_STRING_LENGTH) out.add(value.trim());
+  } else if (typeof value === 'number') {
+    // Small integers (counts, flags, page sizes) match by coincidence too often
+    if (!Number.isInteger(value) || Math.abs(value) >= 100) out.add(String(value));
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectValues(item, out));
+  } else if (typeof value === 'object') {
+    Object.values(value).forEach((item) => collectValues(item, out));
+  }
+};
+
+const usesOutputOf = (args: any, output: any): boolean => {
+  const outputValues = new Set<string>();
+  collectValues(output, outputValues);
+  if (outputValues.size === 0) return false;
+  const argValues = new Set<string>();
+  collectValues(args, argValues);
+  return Array.from(argValues).some(
+    (arg) => outputValues.has(arg) || Array.from(outputValues).some((out) => out.length >= 8 && arg.includes(out))
+  );
+};
+
+/**
+ * Find runs of calls that executed one after another although none of them
+ * used an earlier call's output, and a retry of a failed tool is not one
+ * @param rows - Rows of a turn, ordered by start time
+ * @param steps - Tool steps by toolCallId, for their outputs
+ * @returns One hint per run of two or more calls
+ */
+export const findParallelizableCalls = (rows: ToolWaterfallRow[], steps: Record<string, any>): ParallelHint[] => {
+  const hints: ParallelHint[] = [];
+  let group: ToolWaterfallRow[] = [];
+
+  const closeGroup = () => {
+    if (group.length >= 2) {
+      const durations = group.map((row) => row.durationMs ?? 0);
+      const serialMs = durations.reduce((sum, ms) => sum + ms, 0);
+      hints.push({
+        toolCallIds: group.map((row) => row.toolCallId),
+        toolNames: group.map((row) => row.toolName),
+        serialMs,
+        savingsMs: serialMs - Math.max(...durations),
+      });
+    }
+    group = [];
+  };
+
+  rows.forEach((row) => {
+    if (row.startMs === undefined || row.endMs === undefined) {
+      closeGroup();
+      return;
+    }
+    const previous = group[group.length - 1];
+    const isSerial = previous !== undefined && previous.endMs !== undefined && row.startMs >= previous.endMs;
+    const isIndependent = group.every(
+      (earlier) =>
+        !(earlier.status === 'error' && earlier.toolName === row.toolName) &&
+        !usesOutputOf(row.args, getToolStepResult(steps[earlier.toolCallId]))
+    );
+    if (previous && isSerial && isIndependent) {
+      group.push(row);
+      return;
+    }
+    closeGroup();
+    group = [row];
+  });
+  closeGroup();
+
+  return hints;
+};
+
+/**
+ * Build the waterfall of one assistant message
+ * @param message - Rendered assistant message
+ * @param turn - Captured stream turn that produced it, if any
+ * @returns Rows ordered by start time plus turn totals and parallel hints
+ */
+export const buildTurnWaterfall = (message: ComparableMessage, turn?: StreamTurn): ToolWaterfallTurn => {
+  const steps: Record<string, any> = {};
+  const order: string[] = [];
+  (message.toolSteps || []).forEach((step, index) => {
+    const toolCallId = String(step?.toolCallId ?? step?.tool_call_id ?? step?.id ?? `step-${index}`);
+    if (steps[toolCallId]) return;
+    steps[toolCallId] = step;
+    order.push(toolCallId);
+  });
+
+  const streamTimings = turn ? computeTurnMetrics(turn).toolSteps : [];
+  streamTimings.forEach((timing) => {
+    if (!order.includes(timing.toolCallId)) order.push(timing.toolCallId);
+  });
+
+  const stepStarts = order.map((id) => readTime(steps[id], START_KEYS));
+  const useAgentTimes = order.length > 0 && stepStarts.every((start) => start !== undefined);
+  const origin = useAgentTimes ? Math.min(...(stepStarts as number[])) : 0;
+  const timingSource = useAgentTimes ? 'agent' : streamTimings.length > 0 ? 'stream' : 'none';
+
+  const rows: ToolWaterfallRow[] = order.map((toolCallId) => {
+    const step = steps[toolCallId];
+    const timing = streamTimings.find((t) => t.toolCallId === toolCallId);
+    const args = getToolStepArgs(step);
+
+    let startMs: number | undefined;
+    let endMs: number | undefined;
+    if (useAgentTimes) {
+      startMs = (readTime(step, START_KEYS) as number) - origin;
+      const end = readTime(step, END_KEYS);
+      const duration = readDuration(step);
+      endMs = end !== undefined ? end - origin : duration !== undefined ? startMs + duration : undefined;
+    } else if (timing) {
+      startMs = timing.startOffsetMs;
+      endMs = timing.endOffsetMs;
+    }
+
+    const stepStatus = step ? getStepStatus(step) : 'unknown';
+    return {
+      toolCallId,
+      toolName: step ? getToolStepName(step) : timing?.toolName || 'unknown',
+      status: stepStatus === 'unknown' && timing ? timing.status : stepStatus,
+      startMs,
+      endMs,
+      durationMs: startMs !== undefined && endMs !== undefined ? endMs - startMs : readDuration(step),
+      concurrentCount: 0,
+      args,
+      argsSize: getSerializedSize(args),
+      outputSize: getSerializedSize(getToolStepResult(step)),
+      error: step ? getStepError(step) : timing?.status === 'error' ? 'Tool call failed' : undefined,
+    };
+  });
+
+  rows.forEach((row) => {
+    if (row.startMs === undefined || row.endMs === undefined) return;
+    row.concurrentCount = rows.filter(
+      (other) =>
+        other !== row &&
+        other.startMs !== undefined &&
+        other.endMs !== undefined &&
+        other.startMs < row.endMs! &&
+        row.startMs! < other.endMs
+    ).length;
+  });
+
+  // Stable: rows without timing keep their place at the end
+  const sorted = rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => (a.row.startMs ?? Infinity) - (b.row.startMs ?? Infinity) || a.index - b.index)
+    .map(({ row }) => row);
+
+  const timed = sorted.filter((row) => row.startMs !== undefined && row.endMs !== undefined);
+  const wallMs =
+    timed.length > 0
+      ? Math.max(...timed.map((row) => row.endMs!)) - Math.min(...timed.map((row) => row.startMs!))
+      : undefined;
+
+  return {
+    messageId: message.id,
+    preview: message.content.slice(0, 80),
+    turnId: turn?.id,
+    timingSource,
+    rows: sorted,
+    wallMs,
+    serialMs: sorted.reduce((sum, row) => sum + (row.durationMs ?? 0), 0),
+    maxConcurrency: timed.length > 0 ? Math.max(...timed.map((row) => row.concurrentCount + 1)) : 0,
+    hints: findParallelizableCalls(sorted, steps),
+  };
+};
+
+/**
+ * Build waterfalls for every assistant turn that called tools, plus per-tool totals
+ * @param messages - Rendered messages
+ * @param streamTurns - Captured stream turns, oldest first
+ * @returns Turns oldest first and tools ordered by total time
+ */
+export const buildConversationWaterfall = (
+  messages: ComparableMessage[],
+  streamTurns: StreamTurn[]
+): ToolWaterfallSummary => {
+  const pinned = pinTurnsToMessages(streamTurns, messages);
+  const turns = messages
+    .filter((message) => message.role === 'assistant')
+    .map((message) => buildTurnWaterfall(message, pinned[message.id]))
+    .filter((turn) => turn.rows.length > 0);
+
+  const byTool = new Map<string, ToolAggregate & { timedCalls: number }>();
+  turns.forEach((turn) =>
+    turn.rows.forEach((row) => {
+      const tool = byTool.get(row.toolName) || { toolName: row.toolName, calls: 0, errors: 0, totalMs: 0, timedCalls: 0 };
+      tool.calls += 1;
+      if (row.status === 'error') tool.errors += 1;
+      if (row.durationMs !== undefined) {
+        tool.totalMs += row.durationMs;
+        tool.timedCalls += 1;
+        tool.maxMs = Math.max(tool.maxMs ?? 0, row.durationMs);
+      }
+      byTool.set(row.toolName, tool);
+    })
+  );
+  const tools = Array.from(byTool.values())
+    .map(({ timedCalls, ...tool }) => ({
+      ...tool,
+      avgMs: timedCalls > 0 ? Math.round(tool.totalMs / timedCalls) : undefined,
+    }))
+    .sort((a, b) => b.totalMs - a.totalMs || b.calls - a.calls);
+
+  return {
+    turns,
+    tools,
+    totalCalls: tools.reduce((sum, tool) => sum + tool.calls, 0),
+    totalErrors: tools.reduce((sum, tool) => sum + tool.errors, 0),
+    totalToolMs: tools.reduce((sum, tool) => sum + tool.totalMs, 0),
+    totalWallMs: turns.reduce((sum, turn) => sum + (turn.wallMs ?? 0), 0),
+    potentialSavingsMs: turns.reduce(
+      (sum, turn) => sum + turn.hints.reduce((hintSum, hint) => hintSum + hint.savingsMs, 0),
+      0
+    ),
+  };
+};
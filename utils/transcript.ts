@@ -0,0 +1,427 @@
+/**
+ * Chat Transcripts
+ *
+ * Export a conversation as JSON, Markdown, self-contained HTML, JSONL or an
+ * OpenAI-style messages array, and parse any of those back for viewing.
+ * Markdown is meant for pasting into PRs and tickets; the HTML export embeds
+ * the JSON transcript so it can be re-imported losslessly.
+ */
+
+import type {
+  ImportedTranscript,
+  Transcript,
+  TranscriptExportOptions,
+  TranscriptFormat,
+  TranscriptMessage,
+} from '@/types/transcript';
+import { getKnowledgeSourceKey, getToolStepArgs, getToolStepName, getToolStepResult } from '@/utils/agent-compare';
+
+const TRANSCRIPT_VERSION = 1;
+
+const HTML_DATA_ID = 'nova-transcript';
+
+const ROLE_LABELS: Record<string, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+  tool: 'Tool',
+};
+
+export const DEFAULT_EXPORT_OPTIONS: TranscriptExportOptions = {
+  includeAnnotations: true,
+  includeToolSteps: true,
+  includeKnowledgeSources: true,
+};
+
+export const TRANSCRIPT_FORMATS: { id: TranscriptFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'jsonl', label: 'JSONL', extension: 'jsonl', mimeType: 'application/x-ndjson' },
+  { id: 'openai', label: 'OpenAI messages', extension: 'openai.json', mimeType: 'application/json' },
+];
+
+const toJson = (value: any): string => JSON.stringify(value, null, 2);
+
+const toText = (content: any): string => {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (typeof part === 'string' ? part : part?.text || ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return content == null ? '' : String(content);
+};
+
+const getSourceLabel = (source: any): string =>
+  typeof source === 'string' ? source : source?.title || source?.name || getKnowledgeSourceKey(source);
+
+/**
+ * Convert rendered chat messages into a transcript
+ * @param messages - Messages from useChatStream or the chat history
+ * @param chatId - The chat id
+ * @param agentName - Name of the agent the conversation was with
+ * @param options - Which rich fields to keep
+ * @returns The transcript
+ */
+export const buildTranscript = (
+  messages: any[],
+  chatId: string,
+  agentName: string | undefined,
+  options: TranscriptExportOptions = DEFAULT_EXPORT_OPTIONS
+): Transcript => ({
+  version: TRANSCRIPT_VERSION,
+  chatId,
+  agentName,
+  exportedAt: new Date().toISOString(),
+  messages: messages.map((message, index) => {
+    const createdAt = message.createdAt || (message.timestamp ? new Date(message.timestamp).toISOString() : undefined);
+    const annotation = message.annotation ?? message.toolData?.output;
+    const result: TranscriptMessage = {
+      id: message.id || `message-${index}`,
+      role: message.role,
+      content: toText(message.content),
+      ...(createdAt && { createdAt }),
+    };
+    if (options.includeToolSteps && message.toolSteps?.length) result.toolSteps = message.toolSteps;
+    if (options.includeKnowledgeSources && message.knowledgeSources?.length) {
+      result.knowledgeSources = message.knowledgeSources;
+    }
+    if (options.includeAnnotations && annotation) result.annotation = annotation;
+    return result;
+  }),
+});
+
+const formatMarkdown = (transcript: Transcript): string => {
+  const lines: string[] = [
+    `# Transcript${transcript.agentName ? `: ${transcript.agentName}` : ''}`,
+    '',
+    `_Chat \`${transcript.chatId}\` · exported ${transcript.exportedAt}_`,
+  ];
+
+  transcript.messages.forEach((message) => {
+    lines.push('', `### ${ROLE_LABELS[message.role] || message.role}`, '', message.content);
+
+    message.toolSteps?.forEach((step) => {
+      lines.push('', '<details>', `<summary>Tool: ${getToolStepName(step)}</summary>`, '');
+      const args = getToolStepArgs(step);
+      const result = getToolStepResult(step);
+      if (args !== undefined) lines.push('Arguments:', '```json', toJson(args), '```', '');
+      if (result !== undefined) lines.push('Result:', '```json', toJson(result), '```', '');
+      lines.push('</details>');
+    });
+
+    if (message.knowledgeSources?.length) {
+      lines.push('', '**Sources**', '');
+      message.knowledgeSources.forEach((source) => {
+        const label = getSourceLabel(source);
+        lines.push(source?.url ? `- [${label}](${source.url})` : `- ${label}`);
+      });
+    }
+
+    if (message.annotation) {
+      lines.push('', '<details>', '<summary>Annotation</summary>', '', '```json', toJson(message.annotation), '```', '', '</details>');
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Only http(s) URLs become links; anything else (e.g. `javascript:`) could run script in the exported file
+const isHttpUrl = (value: unknown): value is string => typeof value === 'string' && /^https?:\/\//i.test(value.trim());
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111827; }
+header { border-bottom: 1px solid #e5e7eb; margin-bottom: 1.5rem; }
+header p { color: #6b7280; font-size: 0.875rem; }
+.message { margin-bottom: 1.5rem; }
+.role { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; color: #6b7280; margin-bottom: 0.25rem; }
+.content { white-space: pre-wrap; padding: 0.75rem 1rem; border-radius: 0.5rem; background: #f9fafb; }
+.user .content { background: #eef2ff; }
+details { margin-top: 0.5rem; border: 1px solid #e5e7eb; border-radius: 0.5rem; padding: 0.5rem 0.75rem; font-size: 0.875rem; }
+summary { cursor: pointer; font-weight: 500; }
+pre { background: #f3f4f6; padding: 0.5rem; border-radius: 0.375rem; overflow-x: auto; font-size: 0.75rem; }
+.sources { margin-top: 0.5rem; font-size: 0.875rem; color: #374151; }
+`;
+
+const formatHtml = (transcript: Transcript): string => {
+  const messages = transcript.messages
+    .map((message) => {
+      const tools = (message.toolSteps || [])
+        .map((step) => {
+          const args = getToolStepArgs(step);
+          const result = getToolStepResult(step);
+          return [
+            `<details><summary>Tool: ${escapeHtml(getToolStepName(step))}</summary>`,
+            args !== undefined ? `<div>Arguments</div><pre>${escapeHtml(toJson(args))}</pre>` : '',
+            result !== undefined ? `<div>Result</div><pre>${escapeHtml(toJson(result))}</pre>` : '',
+            '</details>',
+          ].join('');
+        })
+        .join('');
+      const sources = message.knowledgeSources?.length
+        ? `<div class="sources"><strong>Sources</strong><ul>${message.knowledgeSources
+            .map((source) => {
+              const label = escapeHtml(getSourceLabel(source));
+              if (isHttpUrl(source?.url)) return `<li><a href="${escapeHtml(source.url.trim())}">${label}</a></li>`;
+              const url = source?.url ? escapeHtml(String(source.url)) : '';
+              return url && url !== label ? `<li>${label} (${url})</li>` : `<li>${label}</li>`;
+            })
+            .join('')}</ul></div>`
+        : '';
+      const annotation = message.annotation
+        ? `<details><summary>Annotation</summary><pre>${escapeHtml(toJson(message.annotation))}</pre></details>`
+        : '';
+      return `<div class="message ${escapeHtml(message.role)}"><div class="role">${escapeHtml(
+        ROLE_LABELS[message.role] || message.role
+      )}</div><div class="content">${escapeHtml(message.content)}</div>${tools}${sources}${annotation}</div>`;
+    })
+    .join('\n');
+
+  // `<` is escaped so the embedded JSON cannot close the script tag
+  const data = JSON.stringify(transcript).replace(/</g, '\\u003c');
+  const title = `Transcript${transcript.agentName ? `: ${transcript.agentName}` : ''}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header><h1>${escapeHtml(title)}</h1><p>Chat ${escapeHtml(transcript.chatId)} · exported ${escapeHtml(
+    transcript.exportedAt
+  )}</p></header>
+${messages}
+<script type="application/json" id="${HTML_DATA_ID}">${data}</script>
+</body>
+</html>
+`;
+};
+
+const formatJsonl = (transcript: Transcript): string => {
+  const { messages, ...meta } = transcript;
+  return [{ type: 'transcript', ...meta }, ...messages.map((message) => ({ type: 'message', ...message }))]
+    .map((line) => JSON.stringify(line))
+    .join('\n')
+    .concat('\n');
+};
+
+const formatOpenAI = (transcript: Transcript): string => {
+  const messages: any[] = [];
+  transcript.messages.forEach((message) => {
+    if (message.role === 'assistant' && message.toolSteps?.length) {
+      const calls = message.toolSteps.map((step, index) => ({
+        id: step.toolCallId || step.id || `call_${message.id}_${index}`,
+        step,
+      }));
+      messages.push({
+        role: 'assistant',
+        content: null,
+        tool_calls: calls.map(({ id, step }) => ({
+          id,
+          type: 'function',
+          function: { name: getToolStepName(step), arguments: JSON.stringify(getToolStepArgs(step) ?? {}) },
+        })),
+      });
+      calls.forEach(({ id, step }) => {
+        messages.push({ role: 'tool', tool_call_id: id, content: JSON.stringify(getToolStepResult(step) ?? null) });
+      });
+    }
+    messages.push({ role: message.role, content: message.content });
+  });
+  return toJson(messages);
+};
+
+/**
+ * Serialize a transcript in an export format
+ * @param transcript - The transcript
+ * @param format - Export format
+ * @returns File contents
+ */
+export const formatTranscript = (transcript: Transcript, format: TranscriptFormat): string => {
+  switch (format) {
+    case 'markdown':
+      return formatMarkdown(transcript);
+    case 'html':
+      return formatHtml(transcript);
+    case 'jsonl':
+      return formatJsonl(transcript);
+    case 'openai':
+      return formatOpenAI(transcript);
+    default:
+      return toJson(transcript);
+  }
+};
+
+const normalizeMessage = (raw: any, index: number): TranscriptMessage | null => {
+  if (!raw || typeof raw !== 'object' || typeof raw.role !== 'string') return null;
+  const toolSteps = raw.toolSteps ?? raw.annotation?.toolSteps;
+  const knowledgeSources = raw.knowledgeSources ?? raw.annotation?.knowledge_sources;
+  const annotation = raw.annotation ?? raw.toolData?.output;
+  const createdAt = raw.createdAt || raw.created_at || raw.timestamp;
+  return {
+    id: typeof raw.id === 'string' ? raw.id : `imported-${index}`,
+    role: raw.role,
+    content: toText(raw.content),
+    ...(createdAt && { createdAt: String(createdAt) }),
+    ...(Array.isArray(toolSteps) && toolSteps.length > 0 && { toolSteps }),
+    ...(Array.isArray(knowledgeSources) && knowledgeSources.length > 0 && { knowledgeSources }),
+    ...(annotation && { annotation }),
+  };
+};
+
+const parseJsonValue = (value: string): any => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Fold OpenAI tool_calls / tool messages back into toolSteps on the assistant reply
+const fromOpenAIMessages = (raw: any[]): TranscriptMessage[] => {
+  const messages: TranscriptMessage[] = [];
+  let pendingSteps: any[] = [];
+
+  raw.forEach((item, index) => {
+    if (item?.role === 'tool') {
+      const step = pendingSteps.find((s) => s.toolCallId === item.tool_call_id);
+      if (step) step.result = parseJsonValue(toText(item.content));
+      return;
+    }
+
+    const toolCalls: any[] = Array.isArray(item?.tool_calls) ? item.tool_calls : [];
+    toolCalls.forEach((call) => {
+      pendingSteps.push({
+        toolCallId: call.id,
+        toolName: call.function?.name || 'unknown',
+        args: parseJsonValue(call.function?.arguments || '{}'),
+      });
+    });
+    if (item?.role === 'assistant' && toolCalls.length > 0 && !toText(item.content)) return;
+
+    const message = normalizeMessage(item, index);
+    if (!message) return;
+    if (message.role === 'assistant' && pendingSteps.length > 0) {
+      message.toolSteps = pendingSteps;
+      pendingSteps = [];
+    }
+    messages.push(message);
+  });
+
+  if (pendingSteps.length > 0) {
+    messages.push({ id: `imported-${raw.length}`, role: 'assistant', content: '', toolSteps: pendingSteps });
+  }
+  return messages;
+};
+
+const MARKDOWN_ROLES = Object.fromEntries(Object.entries(ROLE_LABELS).map(([role, label]) => [label, role]));
+
+// Parse the Markdown export back into messages (createdAt is not kept in Markdown)
+const fromMarkdown = (text: string): TranscriptMessage[] => {
+  const sections = text.split(/^### (User|Assistant|System|Tool)\s*$/m);
+  const messages: TranscriptMessage[] = [];
+
+  for (let i = 1; i < sections.length; i += 2) {
+    let body = sections[i + 1] || '';
+    const message: TranscriptMessage = { id: `imported-${messages.length}`, role: MARKDOWN_ROLES[sections[i]], content: '' };
+
+    const toolSteps: any[] = [];
+    body = body.replace(/<details>\s*<summary>Tool: (.+?)<\/summary>([\s\S]*?)<\/details>/g, (_, name, inner) => {
+      const args = inner.match(/Arguments:\s*```json\n([\s\S]*?)\n```/);
+      const result = inner.match(/Result:\s*```json\n([\s\S]*?)\n```/);
+      toolSteps.push({
+        toolName: name,
+        ...(args && { args: parseJsonValue(args[1]) }),
+        ...(result && { result: parseJsonValue(result[1]) }),
+      });
+      return '';
+    });
+    body = body.replace(/<details>\s*<summary>Annotation<\/summary>\s*```json\n([\s\S]*?)\n```\s*<\/details>/, (_, json) => {
+      message.annotation = parseJsonValue(json);
+      return '';
+    });
+    body = body.replace(/\*\*Sources\*\*\s*\n((?:- .*(?:\n|$))+)/, (_, list: string) => {
+      message.knowledgeSources = list
+        .trim()
+        .split('\n')
+        .map((line) => {
+          const link = line.match(/^- \[(.*)\]\((.*)\)$/);
+          return link ? { title: link[1], url: link[2] } : { title: line.replace(/^- /, '') };
+        });
+      return '';
+    });
+
+    message.content = body.trim();
+    if (toolSteps.length > 0) message.toolSteps = toolSteps;
+    messages.push(message);
+  }
+  return messages;
+};
+
+const toTranscript = (messages: TranscriptMessage[], meta: any = {}): Transcript => ({
+  version: TRANSCRIPT_VERSION,
+  chatId: typeof meta.chatId === 'string' ? meta.chatId : typeof meta.id === 'string' ? meta.id : 'imported',
+  agentName: typeof meta.agentName === 'string' ? meta.agentName : undefined,
+  exportedAt: typeof meta.exportedAt === 'string' ? meta.exportedAt : new Date().toISOString(),
+  messages,
+});
+
+const fromJson = (data: any): Transcript => {
+  if (Array.isArray(data)) {
+    const isOpenAI = data.some((item) => item?.role === 'tool' || Array.isArray(item?.tool_calls));
+    return toTranscript(
+      isOpenAI
+        ? fromOpenAIMessages(data)
+        : data.map(normalizeMessage).filter((m): m is TranscriptMessage => m !== null)
+    );
+  }
+  if (data && typeof data === 'object' && Array.isArray(data.messages)) {
+    return toTranscript(fromJson(data.messages).messages, data);
+  }
+  throw new Error('JSON does not contain a list of messages');
+};
+
+/**
+ * Parse an exported transcript in any supported format
+ * @param text - File contents
+ * @param fileName - Name of the file, shown while viewing
+ * @returns The transcript
+ */
+export const parseTranscript = (text: string, fileName: string): ImportedTranscript => {
+  const trimmed = text.trim();
+  let transcript: Transcript;
+
+  if (trimmed.startsWith('<')) {
+    const match = trimmed.match(new RegExp(`<script type="application/json" id="${HTML_DATA_ID}">([\\s\\S]*?)</script>`));
+    if (!match) throw new Error('HTML file was not exported by the debugger');
+    transcript = fromJson(JSON.parse(match[1]));
+  } else if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let data: any;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      // Not a single JSON document: try JSONL
+      const lines = trimmed.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line));
+      const meta = lines.find((line) => line?.type === 'transcript');
+      const rows = lines.filter((line) => line?.type !== 'transcript');
+      data = { ...meta, messages: rows.map(({ type, ...message }) => message) };
+    }
+    transcript = fromJson(data);
+  } else {
+    const agentName = trimmed.match(/^# Transcript: (.+)$/m)?.[1];
+    const chatId = trimmed.match(/^_Chat `(.+?)`/m)?.[1];
+    transcript = toTranscript(fromMarkdown(trimmed), { agentName, chatId });
+  }
+
+  if (transcript.messages.length === 0) {
+    throw new Error('No messages found in the file');
+  }
+  return { ...transcript, fileName };
+};